@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  LinearProgress,
+  TextField,
+  MenuItem,
+  Alert,
+  Box
+} from '@mui/material';
+import { Montage } from '../utils/montage';
+import { EpochAnalysis } from '../hooks/useEegPipeline';
+import {
+  CALIBRATION_PROTOCOL,
+  CalibrationPhase,
+  CalibrationProfile,
+  NormalizationMethod,
+  buildCalibrationProfile,
+  saveCalibrationProfile
+} from '../utils/calibration';
+
+interface CalibrationDialogProps {
+  open: boolean;
+  montage: Montage;
+  epochSeconds: number;
+  // Screens the most recent epoch of the live stream and extracts its features
+  analyzeLatestEpoch: () => Promise<EpochAnalysis>;
+  onClose: () => void;
+  onSaved: (profile: CalibrationProfile) => void;
+}
+
+const emptyFeatures = (): Record<CalibrationPhase, Record<string, number>[]> => ({
+  'eyes-open': [],
+  'eyes-closed': []
+});
+
+const CalibrationDialog: React.FC<CalibrationDialogProps> = ({
+  open,
+  montage,
+  epochSeconds,
+  analyzeLatestEpoch,
+  onClose,
+  onSaved
+}) => {
+  // -1: intro, 0..n-1: running protocol step, n: finished
+  const [stepIndex, setStepIndex] = useState(-1);
+  const [elapsed, setElapsed] = useState(0);
+  const [name, setName] = useState('');
+  const [method, setMethod] = useState<NormalizationMethod>('robust');
+  const [error, setError] = useState<string | null>(null);
+  const [rejectedEpochs, setRejectedEpochs] = useState(0);
+  const collected = useRef(emptyFeatures());
+  const elapsedRef = useRef(0);
+
+  const isRunning = stepIndex >= 0 && stepIndex < CALIBRATION_PROTOCOL.length;
+  const isFinished = stepIndex >= CALIBRATION_PROTOCOL.length;
+  const step = isRunning ? CALIBRATION_PROTOCOL[stepIndex] : null;
+
+  // Reset whenever the dialog is reopened
+  useEffect(() => {
+    if (open) {
+      setStepIndex(-1);
+      setElapsed(0);
+      setError(null);
+      setRejectedEpochs(0);
+      collected.current = emptyFeatures();
+    }
+  }, [open]);
+
+  // Tick once per second through the current step, sampling an epoch every epochSeconds
+  useEffect(() => {
+    if (!step) return;
+    
+    elapsedRef.current = 0;
+    setElapsed(0);
+    
+    const intervalId = setInterval(() => {
+      elapsedRef.current += 1;
+      const seconds = elapsedRef.current;
+      
+      if (seconds % epochSeconds === 0) {
+        analyzeLatestEpoch().then(({ report, features }) => {
+          if (!report) return;
+          
+          // Only clean epochs go into the baseline
+          if (features) {
+            collected.current[step.phase].push(features);
+          } else {
+            setRejectedEpochs(prev => prev + 1);
+          }
+        });
+      }
+      
+      setElapsed(seconds);
+      
+      if (seconds >= step.durationSeconds) {
+        clearInterval(intervalId);
+        setStepIndex(prevIndex => prevIndex + 1);
+      }
+    }, 1000);
+    
+    return () => clearInterval(intervalId);
+  }, [step, epochSeconds, analyzeLatestEpoch]);
+
+  const handleSave = () => {
+    try {
+      const profile = buildCalibrationProfile(
+        name.trim() || `Baseline ${new Date().toLocaleString()}`,
+        montage,
+        collected.current,
+        method
+      );
+      saveCalibrationProfile(profile);
+      onSaved(profile);
+    } catch (err: any) {
+      setError(err.message || 'Failed to build calibration profile');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={isRunning ? undefined : onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Baseline Calibration</DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {stepIndex === -1 && (
+          <Typography>
+            We will record a short resting baseline for the {montage.name}: {CALIBRATION_PROTOCOL.map(
+              s => `${s.durationSeconds}s ${s.phase.replace('-', ' ')}`
+            ).join(', then ')}. Features are then scaled against your own resting levels.
+          </Typography>
+        )}
+
+        {step && (
+          <Box>
+            <Typography variant="h6" gutterBottom>
+              Step {stepIndex + 1} of {CALIBRATION_PROTOCOL.length}: {step.phase.replace('-', ' ')}
+            </Typography>
+            <Typography gutterBottom>{step.instruction}</Typography>
+            <LinearProgress
+              variant="determinate"
+              value={(elapsed / step.durationSeconds) * 100}
+              sx={{ my: 2 }}
+            />
+            <Typography variant="body2" color="text.secondary">
+              {step.durationSeconds - elapsed}s remaining · {collected.current[step.phase].length} clean epochs · {rejectedEpochs} rejected
+            </Typography>
+          </Box>
+        )}
+
+        {isFinished && (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <Typography>
+              Recorded {collected.current['eyes-open'].length} eyes-open and {collected.current['eyes-closed'].length} eyes-closed epochs.
+            </Typography>
+            <TextField
+              label="Profile name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              size="small"
+            />
+            <TextField
+              select
+              label="Normalization"
+              value={method}
+              onChange={(e) => setMethod(e.target.value as NormalizationMethod)}
+              size="small"
+            >
+              <MenuItem value="robust">Robust (median / IQR)</MenuItem>
+              <MenuItem value="zscore">Z-score (mean / std)</MenuItem>
+            </TextField>
+          </Box>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>
+          Cancel
+        </Button>
+        {stepIndex === -1 && (
+          <Button variant="contained" onClick={() => setStepIndex(0)}>
+            Start
+          </Button>
+        )}
+        {isFinished && (
+          <Button variant="contained" onClick={handleSave}>
+            Save Profile
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CalibrationDialog;
@@ -10,10 +10,25 @@ import {
   Chip
 } from '@mui/material';
 import SendIcon from '@mui/icons-material/Send';
-import axios from 'axios';
+import StopIcon from '@mui/icons-material/Stop';
+import FusionSettingsPanel from './FusionSettingsPanel';
+import { confidentEmotion, describePrediction, formatConfidence } from '../utils/emotionPrediction';
+import { streamChatReply } from '../utils/chatClient';
+import { MAX_CHAT_MESSAGE_LENGTH } from '../utils/chatProtocol';
+import { useEmotionState } from '../hooks/useEmotionStore';
+import { effectivePrediction } from '../utils/emotionStore';
+import { analyzeTextEmotion } from '../utils/textEmotion';
+import {
+  DEFAULT_FUSION_SETTINGS,
+  FusedEmotion,
+  FusionSettings,
+  MODALITY_LABELS,
+  fuseEmotions
+} from '../utils/emotionFusion';
 
 interface ChatInterfaceProps {
-  currentEmotion: string | null;
+  // Called for every message added to the conversation
+  onMessage?: (sender: 'user' | 'ai', content: string) => void;
 }
 
 interface Message {
@@ -21,17 +36,18 @@ interface Message {
   content: string;
   sender: 'user' | 'ai';
   timestamp: Date;
+  // For user messages: the EEG and text emotion fused into the reply's tone
+  fusion?: FusedEmotion | null;
+  // For replies: still arriving, stopped by the user, cut off by an error,
+  // or not produced at all (the content is then the error)
+  status?: 'streaming' | 'stopped' | 'interrupted' | 'failed';
 }
 
-// Emotion-based tone mapping
-const emotionToTone = {
-  happy: 'enthusiastic and upbeat',
-  sad: 'empathetic and comforting',
-  angry: 'calm and de-escalating',
-  calm: 'peaceful and measured',
-  fear: 'reassuring and supportive',
-  surprise: 'engaged and attentive',
-  neutral: 'balanced and informative'
+const STATUS_LABELS = {
+  streaming: 'Typing…',
+  stopped: 'Stopped',
+  interrupted: 'Reply interrupted',
+  failed: 'No reply'
 };
 
 // Mock responses for testing without an API key
@@ -73,14 +89,18 @@ const mockResponses: Record<string, string[]> = {
   ]
 };
 
-type EmotionType = keyof typeof emotionToTone;
-
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ currentEmotion }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ onMessage }) => {
+  const prediction = useEmotionState(effectivePrediction);
+  const selfReported = useEmotionState(state => state.selfReport !== null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [fusionSettings, setFusionSettings] = useState<FusionSettings>(DEFAULT_FUSION_SETTINGS);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const apiKey = process.env.NEXT_PUBLIC_OPENROUTER_API_KEY || '';
+  // Cancels the reply being streamed
+  const replyAbort = useRef<AbortController | null>(null);
+  // Uncertain predictions get the neutral tone rather than a guessed one
+  const currentEmotion = confidentEmotion(prediction);
   
   // Add welcome message on component mount
   useEffect(() => {
@@ -91,6 +111,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ currentEmotion }) => {
       timestamp: new Date()
     };
     setMessages([welcomeMessage]);
+    
+    // Stop a reply still streaming when the chat goes away
+    return () => replyAbort.current?.abort();
   }, []);
   
   // Scroll to bottom of chat whenever messages update
@@ -102,91 +125,85 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ currentEmotion }) => {
   
   const getMockResponse = (emotion: string | null): string => {
     const defaultEmotion = 'neutral';
-    const emotionKey = (emotion || defaultEmotion) as EmotionType;
+    const emotionKey = emotion || defaultEmotion;
     const responses = mockResponses[emotionKey] || mockResponses[defaultEmotion];
     const randomIndex = Math.floor(Math.random() * responses.length);
     return responses[randomIndex];
   };
   
+  // Add the reply on its first piece, then update it in place
+  const updateReply = (id: string, content: string, status?: Message['status']) => {
+    setMessages(prevMessages => prevMessages.some(msg => msg.id === id)
+      ? prevMessages.map(msg => (msg.id === id ? { ...msg, content, status } : msg))
+      : [...prevMessages, { id, content, sender: 'ai', timestamp: new Date(), status }]);
+  };
+  
+  // The route rejects longer messages; say so instead of cutting the text
+  const inputTooLong = input.length > MAX_CHAT_MESSAGE_LENGTH;
+  
   const handleSendMessage = async () => {
-    if (!input.trim()) return;
+    if (!input.trim() || inputTooLong || isLoading) return;
+    
+    // The message's own emotion is fused with the EEG for this reply's tone;
+    // a self-report is taken as given
+    const fusion = selfReported ? null : fuseEmotions(prediction, analyzeTextEmotion(input), fusionSettings);
+    const tonePrediction = fusion ? fusion.prediction : prediction;
+    const toneEmotion = confidentEmotion(tonePrediction);
     
     const userMessage: Message = {
       id: Date.now().toString(),
       content: input,
       sender: 'user',
-      timestamp: new Date()
+      timestamp: new Date(),
+      fusion
     };
     
     setMessages(prevMessages => [...prevMessages, userMessage]);
+    onMessage?.('user', userMessage.content);
     setInput('');
     setIsLoading(true);
     
+    const replyId = `${userMessage.id}-reply`;
+    const abort = new AbortController();
+    replyAbort.current = abort;
+    let partial = '';
+    
     try {
-      let aiResponse: string;
-      
-      // Check if we have an API key
-      if (apiKey && apiKey !== 'your_openrouter_key_here') {
-        // Create a system message that instructs the AI to respond based on the user's emotion
-        const tone = currentEmotion ? emotionToTone[currentEmotion as EmotionType] : 'neutral and helpful';
-        
-        const response = await axios.post(
-          'https://openrouter.ai/api/v1/chat/completions',
-          {
-            model: 'deepseek/deepseek-v3-mini',
-            messages: [
-              {
-                role: 'system',
-                content: `You are a helpful assistant. The user is currently feeling ${currentEmotion || 'neutral'}. Please respond in a ${tone} tone. Be concise and helpful.`
-              },
-              ...messages.map(msg => ({
-                role: msg.sender === 'user' ? 'user' : 'assistant',
-                content: msg.content
-              })),
-              { role: 'user', content: input }
-            ]
-          },
-          {
-            headers: {
-              'Authorization': `Bearer ${apiKey}`,
-              'Content-Type': 'application/json'
-            }
-          }
-        );
-        
-        // Extract the AI's response
-        aiResponse = response.data.choices[0]?.message?.content || "I'm sorry, I couldn't generate a response.";
-      } else {
-        // Use mock responses if no API key is provided
-        aiResponse = getMockResponse(currentEmotion);
-        
-        // Add a small delay to simulate API call
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
+      // The server adds the system prompt for the tone's emotion and how sure we are of it
+      const aiResponse = await streamChatReply(
+        [...messages, userMessage].filter(msg => msg.status !== 'failed').map(msg => ({
+          role: msg.sender === 'user' ? 'user' : 'assistant',
+          content: msg.content
+        })),
+        tonePrediction,
+        text => {
+          partial = text;
+          updateReply(replyId, text, 'streaming');
+        },
+        abort.signal
+      );
       
-      const aiMessage: Message = {
-        id: Date.now().toString(),
-        content: aiResponse,
-        sender: 'ai',
-        timestamp: new Date()
-      };
+      // Without an API key on the server, answer with a canned reply for the tone
+      const reply = aiResponse ?? getMockResponse(toneEmotion);
       
-      setMessages(prevMessages => [...prevMessages, aiMessage]);
+      // The complete reply replaces the streamed pieces
+      updateReply(replyId, reply);
+      onMessage?.('ai', reply);
     } catch (error) {
-      console.error('Error sending message:', error);
-      
-      // If API error, fall back to mock response
-      const mockResponse = getMockResponse(currentEmotion);
+      if (partial) {
+        // Keep what arrived, marked as incomplete
+        updateReply(replyId, partial, abort.signal.aborted ? 'stopped' : 'interrupted');
+        onMessage?.('ai', partial);
+        return;
+      }
+      if (abort.signal.aborted) return;
       
-      const errorMessage: Message = {
-        id: Date.now().toString(),
-        content: mockResponse,
-        sender: 'ai',
-        timestamp: new Date()
-      };
+      console.error('Error sending message:', error);
       
-      setMessages(prevMessages => [...prevMessages, errorMessage]);
+      // Show why there is no reply; it is not part of the conversation sent to the model
+      updateReply(replyId, error instanceof Error ? error.message : 'The reply failed', 'failed');
     } finally {
+      replyAbort.current = null;
       setIsLoading(false);
     }
   };
@@ -218,15 +235,24 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ currentEmotion }) => {
         justifyContent: 'space-between'
       }}>
         <Typography variant="h5">Chat</Typography>
-        {currentEmotion && (
+        {prediction && (
           <Chip 
-            label={`Detected: ${currentEmotion.charAt(0).toUpperCase() + currentEmotion.slice(1)}`} 
+            label={selfReported && currentEmotion
+              ? `Self-reported: ${currentEmotion.charAt(0).toUpperCase() + currentEmotion.slice(1)}`
+              : currentEmotion
+              ? `Detected: ${currentEmotion.charAt(0).toUpperCase() + currentEmotion.slice(1)} (${formatConfidence(prediction.confidence)})`
+              : 'Emotion uncertain'} 
             size="small" 
-            color="primary" 
+            color={currentEmotion ? 'primary' : 'default'}
+            variant={currentEmotion ? 'filled' : 'outlined'}
           />
         )}
       </Box>
       
+      <Box sx={{ px: 2, py: 1, borderBottom: '1px solid rgba(255, 255, 255, 0.1)' }}>
+        <FusionSettingsPanel settings={fusionSettings} onChange={setFusionSettings} />
+      </Box>
+      
       <Box sx={{ 
         flex: 1, 
         p: 2, 
@@ -265,12 +291,26 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ currentEmotion }) => {
                 boxShadow: 1
               }}
             >
-              <Typography variant="body1">{message.content}</Typography>
+              <Typography variant="body1" color={message.status === 'failed' ? 'error' : undefined}>
+                {message.content}
+              </Typography>
+              {message.fusion && (
+                <Typography variant="caption" sx={{ display: 'block', mt: 1, opacity: 0.8 }}>
+                  Tone: {describePrediction(message.fusion.prediction)} · {MODALITY_LABELS[message.fusion.dominant]} dominated
+                  {' '}(EEG {formatConfidence(message.fusion.contributions.eeg)}, text {formatConfidence(message.fusion.contributions.text)})
+                </Typography>
+              )}
+              {message.status && (
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+                  {STATUS_LABELS[message.status]}
+                </Typography>
+              )}
             </Paper>
           </Box>
         ))}
         
-        {isLoading && (
+        {/* The spinner stands in for the reply until its first piece arrives */}
+        {isLoading && !messages.some(msg => msg.status === 'streaming') && (
           <Box 
             sx={{
               display: 'flex',
@@ -323,17 +363,32 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ currentEmotion }) => {
           onKeyDown={handleKeyDown}
           multiline
           maxRows={4}
+          error={inputTooLong}
+          helperText={inputTooLong
+            ? `Message is ${input.length} characters; shorten it to ${MAX_CHAT_MESSAGE_LENGTH} or fewer`
+            : undefined}
           size="small"
         />
-        <Button 
-          variant="contained" 
-          color="primary"
-          endIcon={<SendIcon />}
-          onClick={handleSendMessage}
-          disabled={isLoading || !input.trim()}
-        >
-          Send
-        </Button>
+        {isLoading ? (
+          <Button 
+            variant="outlined" 
+            color="primary"
+            endIcon={<StopIcon />}
+            onClick={() => replyAbort.current?.abort()}
+          >
+            Stop
+          </Button>
+        ) : (
+          <Button 
+            variant="contained" 
+            color="primary"
+            endIcon={<SendIcon />}
+            onClick={handleSendMessage}
+            disabled={!input.trim() || inputTooLong}
+          >
+            Send
+          </Button>
+        )}
       </Box>
     </Paper>
   );
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Box } from '@mui/material';
+import { AffectCoordinates, EMOTION_COORDINATES } from '../utils/circumplex';
+
+interface CircumplexPlotProps {
+  // Recent valence/arousal estimates, oldest first; the last one is the current point
+  trail: AffectCoordinates[];
+  colors: Record<string, string>;
+  size?: number;
+}
+
+// Plot coordinates: valence -1..1 maps to x 0..100, arousal -1..1 to y 100..0
+const toX = (valence: number) => 50 + valence * 45;
+const toY = (arousal: number) => 50 - arousal * 45;
+
+const CircumplexPlot: React.FC<CircumplexPlotProps> = ({ trail, colors, size = 220 }) => {
+  const current = trail[trail.length - 1];
+
+  return (
+    <Box sx={{ width: size, height: size }}>
+      <svg width="100%" height="100%" viewBox="0 0 100 100">
+        <circle cx="50" cy="50" r="45" fill="none" stroke="rgba(255, 255, 255, 0.2)" strokeWidth="0.5" />
+        <line x1="5" y1="50" x2="95" y2="50" stroke="rgba(255, 255, 255, 0.2)" strokeWidth="0.5" />
+        <line x1="50" y1="5" x2="50" y2="95" stroke="rgba(255, 255, 255, 0.2)" strokeWidth="0.5" />
+        <text x="97" y="48" fontSize="4" fill="rgba(255, 255, 255, 0.5)" textAnchor="end">pleasant</text>
+        <text x="3" y="48" fontSize="4" fill="rgba(255, 255, 255, 0.5)">unpleasant</text>
+        <text x="52" y="6" fontSize="4" fill="rgba(255, 255, 255, 0.5)">activated</text>
+        <text x="52" y="97" fontSize="4" fill="rgba(255, 255, 255, 0.5)">deactivated</text>
+
+        {Object.entries(EMOTION_COORDINATES).map(([label, point]) => (
+          <g key={label}>
+            <circle cx={toX(point.valence)} cy={toY(point.arousal)} r="1.2" fill={colors[label] || '#FFFFFF'} />
+            <text
+              x={toX(point.valence)}
+              y={toY(point.arousal) - 2}
+              fontSize="3.5"
+              fill={colors[label] || '#FFFFFF'}
+              textAnchor="middle"
+            >
+              {label}
+            </text>
+          </g>
+        ))}
+
+        {/* Older segments fade out */}
+        {trail.slice(1).map((point, i) => (
+          <line
+            key={i}
+            x1={toX(trail[i].valence)}
+            y1={toY(trail[i].arousal)}
+            x2={toX(point.valence)}
+            y2={toY(point.arousal)}
+            stroke="#90caf9"
+            strokeWidth="0.8"
+            strokeOpacity={(i + 1) / trail.length}
+          />
+        ))}
+
+        {current && (
+          <circle
+            cx={toX(current.valence)}
+            cy={toY(current.arousal)}
+            r="2.5"
+            fill="#90caf9"
+            stroke="#FFFFFF"
+            strokeWidth="0.5"
+          />
+        )}
+      </svg>
+    </Box>
+  );
+};
+
+export default CircumplexPlot;
@@ -0,0 +1,82 @@
+import React from 'react';
+import {
+  Box,
+  TextField,
+  MenuItem
+} from '@mui/material';
+import { ClassifierTrainingOptions, MAX_SEQUENCE_LENGTH } from '../utils/classifierBackend';
+import {
+  CLASSIFIER_BACKENDS,
+  defaultTrainingOptions,
+  getClassifierBackend
+} from '../utils/classifierBackendRegistry';
+
+interface ClassifierBackendFieldsProps {
+  options: ClassifierTrainingOptions;
+  // Switching backends resets the options to that backend's defaults
+  onChange: (options: ClassifierTrainingOptions) => void;
+  disabled?: boolean;
+}
+
+const ClassifierBackendFields: React.FC<ClassifierBackendFieldsProps> = ({ options, onChange, disabled }) => {
+  const backend = getClassifierBackend(options.backend);
+
+  const selectBackend = (id: string) => {
+    onChange({
+      ...defaultTrainingOptions(getClassifierBackend(id)),
+      sequenceLength: options.sequenceLength,
+      neighbors: options.neighbors
+    });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+      <TextField
+        select
+        size="small"
+        label="Classifier"
+        value={options.backend}
+        onChange={(e) => selectBackend(e.target.value)}
+        disabled={disabled}
+        helperText={backend.description}
+        sx={{ flex: 1, minWidth: 180 }}
+      >
+        {CLASSIFIER_BACKENDS.map(option => (
+          <MenuItem key={option.id} value={option.id}>{option.label}</MenuItem>
+        ))}
+      </TextField>
+      {backend.sequential && (
+        <TextField
+          size="small"
+          type="number"
+          label="Sequence (epochs)"
+          value={options.sequenceLength}
+          inputProps={{ min: 2, max: MAX_SEQUENCE_LENGTH, step: 1 }}
+          onChange={(e) => onChange({
+            ...options,
+            sequenceLength: Math.max(2, Math.min(MAX_SEQUENCE_LENGTH, parseInt(e.target.value, 10) || 2))
+          })}
+          disabled={disabled}
+          sx={{ width: 140 }}
+        />
+      )}
+      {backend.id === 'knn' && (
+        <TextField
+          size="small"
+          type="number"
+          label="Neighbours (k)"
+          value={options.neighbors}
+          inputProps={{ min: 1, max: 50, step: 1 }}
+          onChange={(e) => onChange({
+            ...options,
+            neighbors: Math.max(1, Math.min(50, parseInt(e.target.value, 10) || 1))
+          })}
+          disabled={disabled}
+          sx={{ width: 140 }}
+        />
+      )}
+    </Box>
+  );
+};
+
+export default ClassifierBackendFields;
@@ -1,14 +1,12 @@
-import React from 'react';
-import { Paper, Grid, Box, Typography, Chip } from '@mui/material';
+import React, { useMemo } from 'react';
+import { Paper, Grid, Box, Typography, Chip, Tooltip } from '@mui/material';
 import MoodIcon from '@mui/icons-material/Mood';
 import SensorsIcon from '@mui/icons-material/Sensors';
 import MusicNoteIcon from '@mui/icons-material/MusicNote';
-
-interface DashboardProps {
-  currentEmotion: string | null;
-  eegData: number[] | null;
-  musicPlaying: string | null;
-}
+import CircumplexPlot from './CircumplexPlot';
+import { formatConfidence } from '../utils/emotionPrediction';
+import { useEmotionState } from '../hooks/useEmotionStore';
+import { effectivePrediction } from '../utils/emotionStore';
 
 const emotionColors = {
   happy: '#FFD700',
@@ -22,7 +20,29 @@ const emotionColors = {
 
 type EmotionType = keyof typeof emotionColors;
 
-const Dashboard: React.FC<DashboardProps> = ({ currentEmotion, eegData, musicPlaying }) => {
+// Points kept in the circumplex trail, one per classified epoch (about a minute)
+const TRAIL_LENGTH = 30;
+
+const capitalize = (label: string) => label.charAt(0).toUpperCase() + label.slice(1);
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+const Dashboard: React.FC = () => {
+  // A self-report overrides the detected emotion while it is in force
+  const prediction = useEmotionState(effectivePrediction);
+  const selfReport = useEmotionState(state => state.selfReport);
+  const changedAt = useEmotionState(state => state.changedAt);
+  const history = useEmotionState(state => state.history);
+  const eegActive = useEmotionState(state => state.eegData !== null);
+  const musicPlaying = useEmotionState(state => state.musicPlaying);
+  const currentEmotion = prediction && !prediction.uncertain ? prediction.emotion : null;
+  
+  // The trail ends at the self-reported position while an override is in force
+  const trail = useMemo(() => {
+    const detected = history.slice(-TRAIL_LENGTH).map(entry => entry.prediction.affect);
+    return selfReport ? [...detected, selfReport.prediction.affect] : detected;
+  }, [history, selfReport]);
+  
   return (
     <Paper 
       elevation={3} 
@@ -49,15 +69,30 @@ const Dashboard: React.FC<DashboardProps> = ({ currentEmotion, eegData, musicPla
               <Typography variant="h6">
                 {currentEmotion ? (
                   <Chip 
-                    label={currentEmotion.charAt(0).toUpperCase() + currentEmotion.slice(1)} 
+                    label={capitalize(currentEmotion)} 
                     sx={{ 
                       bgcolor: emotionColors[currentEmotion as EmotionType] || '#FFFFFF',
                       color: '#000000',
                       fontWeight: 'bold'
                     }} 
                   />
+                ) : prediction ? (
+                  <Chip label="Uncertain" variant="outlined" />
                 ) : 'Not detected'}
               </Typography>
+              {selfReport ? (
+                <Typography variant="caption" color="text.secondary">
+                  Self-reported · since {formatTime(selfReport.reportedAt)}
+                  {selfReport.until === null ? ' (pinned)' : ` until ${formatTime(selfReport.until)}`}
+                </Typography>
+              ) : prediction && (
+                <Typography variant="caption" color="text.secondary">
+                  {prediction.uncertain
+                    ? `Best guess ${prediction.likelyEmotion} at ${formatConfidence(prediction.confidence)}`
+                    : `${formatConfidence(prediction.confidence)} confidence`}
+                  {changedAt !== null && ` · since ${formatTime(changedAt)}`}
+                </Typography>
+              )}
             </Box>
           </Box>
         </Grid>
@@ -70,7 +105,7 @@ const Dashboard: React.FC<DashboardProps> = ({ currentEmotion, eegData, musicPla
                 EEG Signal
               </Typography>
               <Typography variant="h6">
-                {eegData ? 'Active' : 'Not connected'}
+                {eegActive ? 'Active' : 'Not connected'}
               </Typography>
             </Box>
           </Box>
@@ -89,6 +124,51 @@ const Dashboard: React.FC<DashboardProps> = ({ currentEmotion, eegData, musicPla
             </Box>
           </Box>
         </Grid>
+        
+        {prediction && (
+          <Grid item xs={12} md={8}>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Emotion probabilities
+            </Typography>
+            <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: 1, height: 120 }}>
+              {(Object.keys(emotionColors) as EmotionType[]).map(emotion => {
+                const probability = prediction.probabilities[emotion] || 0;
+                return (
+                  <Tooltip key={emotion} title={`${capitalize(emotion)}: ${formatConfidence(probability)}`}>
+                    <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', alignItems: 'center', height: '100%' }}>
+                      <Box sx={{ flex: 1, width: '100%', display: 'flex', alignItems: 'flex-end' }}>
+                        <Box
+                          sx={{
+                            width: '100%',
+                            height: `${probability * 100}%`,
+                            bgcolor: emotionColors[emotion],
+                            opacity: prediction.uncertain ? 0.4 : 0.9,
+                            borderRadius: '2px 2px 0 0'
+                          }}
+                        />
+                      </Box>
+                      <Typography variant="caption" color="text.secondary" sx={{ lineHeight: 1.2 }}>
+                        {capitalize(emotion)}
+                      </Typography>
+                    </Box>
+                  </Tooltip>
+                );
+              })}
+            </Box>
+          </Grid>
+        )}
+        
+        {prediction && (
+          <Grid item xs={12} md={4}>
+            <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+              <CircumplexPlot trail={trail} colors={emotionColors} />
+              <Typography variant="caption" color="text.secondary">
+                Valence {prediction.affect.valence.toFixed(2)} · Arousal {prediction.affect.arousal.toFixed(2)}
+                {' · '}{capitalize(prediction.affectLabel)} region
+              </Typography>
+            </Box>
+          </Grid>
+        )}
       </Grid>
     </Paper>
   );
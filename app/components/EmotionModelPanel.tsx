@@ -0,0 +1,146 @@
+import React, { useRef, useState } from 'react';
+import { Box, Button, MenuItem, TextField, Typography } from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import DownloadIcon from '@mui/icons-material/Download';
+import { Montage } from '../utils/montage';
+import {
+  EmotionModelFile,
+  EmotionModelMetadata,
+  checkModelCompatibility,
+  deleteEmotionModel,
+  emotionModelFileName,
+  parseEmotionModel,
+  saveEmotionModel,
+  serializeEmotionModel
+} from '../utils/emotionModel';
+import { findClassifierBackend } from '../utils/classifierBackendRegistry';
+import { downloadFile } from '../utils/download';
+
+interface EmotionModelPanelProps {
+  montage: Montage;
+  // Stored models usable with the montage (the built-in prototype is listed separately)
+  models: EmotionModelFile[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onModelsChanged: (models: EmotionModelFile[]) => void;
+  // The model file currently driving the classifier, if it has been stored
+  activeModelFile: EmotionModelFile | null;
+  // Metadata reported by the classifier once loaded
+  activeModel: EmotionModelMetadata | null;
+  disabled: boolean;
+}
+
+const describeModel = (model: EmotionModelMetadata) => {
+  const normalization = model.normalization.method === 'calibration'
+    ? `baseline "${model.normalization.profile.name}"`
+    : 'fixed-range normalization';
+  const backend = findClassifierBackend(model.backend);
+  return `${model.training.origin === 'prototype' ? 'Built-in prototype' : 'Personal model'}, ` +
+    `${backend ? backend.label : model.backend}, ${model.labels.length} labels, ${model.featureLayout.length} features, ${normalization}`;
+};
+
+const EmotionModelPanel: React.FC<EmotionModelPanelProps> = ({
+  montage,
+  models,
+  selectedId,
+  onSelect,
+  onModelsChanged,
+  activeModelFile,
+  activeModel,
+  disabled
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setError(null);
+      const model = parseEmotionModel(await file.text());
+
+      // Only models built for this montage's feature layout can be used
+      const incompatibility = checkModelCompatibility(model, montage);
+      if (incompatibility) {
+        throw new Error(incompatibility);
+      }
+
+      onModelsChanged(saveEmotionModel(model));
+      onSelect(model.metadata.id);
+    } catch (err: any) {
+      setError(`Could not import ${file.name}: ${err.message}`);
+    }
+  };
+
+  const handleDelete = () => {
+    onModelsChanged(deleteEmotionModel(selectedId));
+    onSelect('');
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 2 }}>
+      <TextField
+        select
+        fullWidth
+        size="small"
+        label="Emotion model"
+        value={selectedId}
+        disabled={disabled}
+        onChange={(e) => onSelect(e.target.value)}
+        helperText={activeModel ? describeModel(activeModel) : 'Loading model...'}
+        SelectProps={{ displayEmpty: true }}
+        InputLabelProps={{ shrink: true }}
+      >
+        <MenuItem value="">Built-in prototype</MenuItem>
+        {models.map(model => (
+          <MenuItem key={model.metadata.id} value={model.metadata.id}>
+            {model.metadata.name} ({new Date(model.metadata.createdAt).toLocaleDateString()})
+          </MenuItem>
+        ))}
+      </TextField>
+
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button
+          size="small"
+          startIcon={<UploadFileIcon />}
+          onClick={() => fileInput.current?.click()}
+          disabled={disabled}
+        >
+          Import
+        </Button>
+        <Button
+          size="small"
+          startIcon={<DownloadIcon />}
+          onClick={() => activeModelFile && downloadFile(
+            emotionModelFileName(activeModelFile),
+            serializeEmotionModel(activeModelFile),
+            'application/json'
+          )}
+          disabled={!activeModelFile}
+        >
+          Export
+        </Button>
+        <Button size="small" color="error" onClick={handleDelete} disabled={disabled || !selectedId}>
+          Delete
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: 'none' }}
+          onChange={handleFile}
+        />
+      </Box>
+
+      {error && (
+        <Typography variant="caption" color="error">
+          {error}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default EmotionModelPanel;
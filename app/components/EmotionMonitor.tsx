@@ -1,196 +1,260 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { Paper, Typography, Button, Box, CircularProgress, Alert } from '@mui/material';
-import { NeuralNetwork } from 'brain.js';
+import React, { useEffect, useState, useRef, useMemo, useCallback } from 'react';
+import { Paper, Typography, Button, Box, CircularProgress, Alert, Chip, TextField, MenuItem, Slider } from '@mui/material';
+import FilterSettingsPanel from './FilterSettingsPanel';
+import SmoothingSettingsPanel from './SmoothingSettingsPanel';
+import CalibrationDialog from './CalibrationDialog';
+import TrainingDialog from './TrainingDialog';
+import SessionRecorderPanel from './SessionRecorderPanel';
+import SelfReportPanel from './SelfReportPanel';
+import ReplayControls from './ReplayControls';
+import SimulatorControls from './SimulatorControls';
+import EmotionModelPanel from './EmotionModelPanel';
+import { FilterSettings, DEFAULT_FILTER_SETTINGS } from '../utils/eegFilters';
+import {
+  ArtifactReport,
+  ArtifactStats,
+  EMPTY_ARTIFACT_STATS,
+  updateArtifactStats,
+  getRejectionRate
+} from '../utils/artifactDetector';
+import { EegChannelData } from '../utils/eegProcessor';
+import { Montage, MONTAGES, DEFAULT_MONTAGE } from '../utils/montage';
+import { EegSource, EegSourceStatus, SimulatedEegSource } from '../utils/eegSource';
+import { EEG_SOURCES, getEegSourceDescriptor } from '../utils/eegSourceRegistry';
+import { ReplayEegSource } from '../utils/replayEegSource';
+import { EegRecording } from '../utils/sessionImport';
+import { CalibrationProfile, loadCalibrationProfiles, isProfileCompatible } from '../utils/calibration';
+import { SessionRecorder } from '../utils/sessionRecorder';
+import { DatasetCollector } from '../utils/trainingDataset';
+import {
+  EmotionModelFile,
+  isModelCompatible,
+  loadEmotionModels,
+  prototypeModelId,
+  saveEmotionModel
+} from '../utils/emotionModel';
+import { DEFAULT_CONFIDENCE_THRESHOLD, formatConfidence } from '../utils/emotionPrediction';
+import { DEFAULT_SMOOTHING_SETTINGS, SmoothingSettings } from '../utils/emotionSmoothing';
+import { useEegPipeline } from '../hooks/useEegPipeline';
+import { useEmotionStore } from '../hooks/useEmotionStore';
+import { EPOCH_SECONDS, ClassifierSource, EpochResultMessage } from '../workers/eegPipelineProtocol';
 
 interface EmotionMonitorProps {
-  onEmotionDetected: (emotion: string) => void;
-  onEegDataReceived: (data: number[]) => void;
+  // Captures samples and rejected epochs while a recording is running
+  recorder: SessionRecorder;
 }
 
-// EEG data channels from Unicorn API
-interface EegChannelData {
-  eeg1: number;
-  eeg2: number;
-  eeg3: number;
-  eeg4: number;
-  eeg5: number;
-  eeg6: number;
-  eeg7: number;
-  eeg8: number;
-  timestamp: number;
-}
-
-const EMOTIONS = ['happy', 'sad', 'angry', 'calm', 'fear', 'surprise', 'neutral'];
+// Above this rejection rate the headset probably needs adjusting
+const HIGH_REJECTION_RATE = 0.3;
 
-// Simulated EEG data for development/testing
-const generateSimulatedEegData = (): EegChannelData => {
-  return {
-    eeg1: Math.random() * 100 - 50,
-    eeg2: Math.random() * 100 - 50,
-    eeg3: Math.random() * 100 - 50,
-    eeg4: Math.random() * 100 - 50,
-    eeg5: Math.random() * 100 - 50,
-    eeg6: Math.random() * 100 - 50,
-    eeg7: Math.random() * 100 - 50,
-    eeg8: Math.random() * 100 - 50,
-    timestamp: Date.now()
-  };
-};
-
-const EmotionMonitor: React.FC<EmotionMonitorProps> = ({ onEmotionDetected, onEegDataReceived }) => {
-  const [isConnected, setIsConnected] = useState(false);
+const EmotionMonitor: React.FC<EmotionMonitorProps> = ({ recorder }) => {
+  // Predictions and the latest EEG values are published to the shared store
+  const emotionStore = useEmotionStore();
+  const [sourceId, setSourceId] = useState<string>(EEG_SOURCES[0].id);
+  const [status, setStatus] = useState<EegSourceStatus>('disconnected');
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [isClassifying, setIsClassifying] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [eegData, setEegData] = useState<EegChannelData[]>([]);
-  const [emotionClassifier, setEmotionClassifier] = useState<any>(null);
-  const dataBuffer = useRef<EegChannelData[]>([]);
+  const [filterSettings, setFilterSettings] = useState<FilterSettings>(DEFAULT_FILTER_SETTINGS);
+  const [artifactStats, setArtifactStats] = useState<ArtifactStats>(EMPTY_ARTIFACT_STATS);
+  const [lastArtifactReport, setLastArtifactReport] = useState<ArtifactReport | null>(null);
+  const [montageId, setMontageId] = useState<string>(DEFAULT_MONTAGE.id);
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>([]);
+  const [profileId, setProfileId] = useState<string>('');
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [recording, setRecording] = useState<EegRecording | null>(null);
+  const [models, setModels] = useState<EmotionModelFile[]>([]);
+  const [modelId, setModelId] = useState<string>('');
+  const [confidenceThreshold, setConfidenceThreshold] = useState(DEFAULT_CONFIDENCE_THRESHOLD);
+  const [smoothing, setSmoothing] = useState<SmoothingSettings>(DEFAULT_SMOOTHING_SETTINGS);
+  const [isTrainingOpen, setIsTrainingOpen] = useState(false);
+  const [labeling, setLabeling] = useState<string | null>(null);
+  // Labels clean epochs for personal model training while a label is active
+  const [collector] = useState(() => new DatasetCollector());
+  const source = useRef<EegSource | null>(null);
+  
+  const isConnected = status === 'connected';
+  const sourceDescriptor = getEegSourceDescriptor(sourceId);
+  
+  // Configurable sources use the chosen headset; replays use the recording's
+  // montage and other sources declare their own
+  const montage = useMemo<Montage>(() => {
+    if (sourceDescriptor.requiresRecording && recording) return recording.montage;
+    if (!sourceDescriptor.configurableMontage) return sourceDescriptor.defaultMontage;
+    return MONTAGES[montageId];
+  }, [sourceDescriptor, montageId, recording]);
   
-  // Initialize the neural network for emotion classification
   useEffect(() => {
-    const net = new NeuralNetwork({
-      hiddenLayers: [10, 10],
-      activation: 'sigmoid'
-    });
-    
-    // We'll pretrain this network with some sample data
-    // In a real application, you would load a pre-trained model
-    const trainData = [
-      // Happy patterns (higher alpha waves in left frontal region)
-      { input: { eeg1: 0.8, eeg2: 0.6, eeg3: 0.5, eeg4: 0.4, eeg5: 0.3, eeg6: 0.3, eeg7: 0.2, eeg8: 0.2 }, output: { happy: 1 } },
-      // Sad patterns (higher alpha waves in right frontal region)
-      { input: { eeg1: 0.3, eeg2: 0.4, eeg3: 0.4, eeg4: 0.5, eeg5: 0.7, eeg6: 0.8, eeg7: 0.6, eeg8: 0.5 }, output: { sad: 1 } },
-      // Angry patterns
-      { input: { eeg1: 0.7, eeg2: 0.8, eeg3: 0.7, eeg4: 0.7, eeg5: 0.7, eeg6: 0.8, eeg7: 0.9, eeg8: 0.8 }, output: { angry: 1 } },
-      // Calm patterns
-      { input: { eeg1: 0.3, eeg2: 0.3, eeg3: 0.4, eeg4: 0.4, eeg5: 0.3, eeg6: 0.3, eeg7: 0.3, eeg8: 0.3 }, output: { calm: 1 } },
-      // Fear patterns
-      { input: { eeg1: 0.6, eeg2: 0.7, eeg3: 0.8, eeg4: 0.7, eeg5: 0.9, eeg6: 0.8, eeg7: 0.7, eeg8: 0.9 }, output: { fear: 1 } },
-      // Surprise patterns
-      { input: { eeg1: 0.9, eeg2: 0.8, eeg3: 0.7, eeg4: 0.6, eeg5: 0.7, eeg6: 0.8, eeg7: 0.9, eeg8: 0.7 }, output: { surprise: 1 } },
-      // Neutral patterns
-      { input: { eeg1: 0.5, eeg2: 0.5, eeg3: 0.5, eeg4: 0.5, eeg5: 0.5, eeg6: 0.5, eeg7: 0.5, eeg8: 0.5 }, output: { neutral: 1 } },
-    ];
+    recorder.setFilterSettings(filterSettings);
+  }, [recorder, filterSettings]);
+  
+  useEffect(() => collector.onChange(() => setLabeling(collector.activeLabel)), [collector]);
+  
+  // Stored calibration profiles are only usable with the montage they were recorded on
+  useEffect(() => {
+    setProfiles(loadCalibrationProfiles());
+    setModels(loadEmotionModels());
+  }, []);
+  
+  const compatibleProfiles = useMemo(
+    () => profiles.filter(profile => isProfileCompatible(profile, montage)),
+    [profiles, montage]
+  );
+  
+  const activeProfile = useMemo(
+    () => compatibleProfiles.find(profile => profile.id === profileId) || null,
+    [compatibleProfiles, profileId]
+  );
+  
+  // Stored models are likewise tied to the feature layout they were trained on
+  const compatibleModels = useMemo(
+    () => models.filter(model => model.metadata.training.origin !== 'prototype' && isModelCompatible(model, montage)),
+    [models, montage]
+  );
+  
+  const selectedModel = useMemo(
+    () => compatibleModels.find(model => model.metadata.id === modelId) || null,
+    [compatibleModels, modelId]
+  );
+  
+  // The built-in prototype is trained once per montage and baseline, then reused
+  const cachedPrototype = useMemo(() => {
+    const id = prototypeModelId(montage, activeProfile);
+    return models.find(model => model.metadata.id === id && isModelCompatible(model, montage)) || null;
+  }, [models, montage, activeProfile]);
+  
+  const activeModelFile = selectedModel || cachedPrototype;
+  
+  const classifierSource = useMemo<ClassifierSource>(
+    () => activeModelFile
+      ? { kind: 'model', model: activeModelFile }
+      : { kind: 'prototype', profile: activeProfile },
+    [activeModelFile, activeProfile]
+  );
+  
+  const handleModelTrained = useCallback((model: EmotionModelFile) => {
+    setModels(saveEmotionModel(model));
+  }, []);
+  
+  // Screened and classified epochs arrive from the pipeline worker
+  const handleEpoch = useCallback((result: EpochResultMessage) => {
+    setLastArtifactReport(result.report);
+    setArtifactStats(prevStats => updateArtifactStats(prevStats, result.report));
+    if (result.manual) setIsClassifying(false);
+    if (result.features) collector.addEpoch(result.timestamp, result.features);
     
-    net.train(trainData, {
-      iterations: 2000,
-      errorThresh: 0.005,
-      log: false
-    });
+    // Rejected epochs never reach the classifier
+    const { prediction, rawPrediction } = result;
+    if (!prediction || !rawPrediction) {
+      recorder.addEvent('artifact', `Rejected: ${result.report.reasons.join(', ')}`, undefined, result.timestamp);
+      return;
+    }
     
-    setEmotionClassifier(net);
+    // Publish the smoothed prediction, uncertain or not; the recorder logs it from the store
+    emotionStore.setPrediction(prediction, sourceId, result.timestamp, rawPrediction);
+  }, [recorder, collector, emotionStore, sourceId]);
+  
+  const handleLatest = useCallback((data: number[]) => emotionStore.setEegData(data), [emotionStore]);
+  
+  const handlePipelineError = useCallback((message: string) => {
+    setIsClassifying(false);
+    setError(`Classification error: ${message}`);
   }, []);
   
-  // Connect to Unicorn Device (simulated for now)
-  const connectToUnicorn = () => {
-    try {
-      setError(null);
-      
-      // In a real implementation, we would connect to the Unicorn device here
-      // For now, we'll simulate the connection
-      setIsConnected(true);
-      
-      // Start receiving data
-      const intervalId = setInterval(() => {
-        const newData = generateSimulatedEegData();
-        dataBuffer.current = [...dataBuffer.current, newData].slice(-100); // Keep last 100 samples
-        setEegData(prevData => [...prevData, newData].slice(-10)); // Show last 10 samples
-        
-        // Extract raw data for parent component
-        const rawData = [
-          newData.eeg1, newData.eeg2, newData.eeg3, newData.eeg4,
-          newData.eeg5, newData.eeg6, newData.eeg7, newData.eeg8
-        ];
-        onEegDataReceived(rawData);
-      }, 100);
-      
-      return () => clearInterval(intervalId);
-    } catch (err: any) {
-      setError(`Failed to connect: ${err.message}`);
-      setIsConnected(false);
-      return undefined;
-    }
+  // Filtering, features and the classifier service run in a worker
+  const pipeline = useEegPipeline({
+    montage,
+    classifier: classifierSource,
+    filterSettings,
+    confidenceThreshold,
+    smoothing,
+    onEpoch: handleEpoch,
+    onLatest: handleLatest,
+    onError: handlePipelineError,
+    onModelTrained: handleModelTrained
+  });
+  const { isReady, isTraining, plot, activeModel, classifierError } = pipeline;
+  
+  // Wait for the classifier so every epoch of a session (or replay) is classified
+  const canConnect = isReady && (!sourceDescriptor.requiresRecording || !!recording);
+  
+  const handleProfileSaved = (profile: CalibrationProfile) => {
+    setProfiles(loadCalibrationProfiles());
+    setProfileId(profile.id);
+    setIsCalibrating(false);
   };
   
-  // Classify emotions based on EEG data
-  const classifyEmotion = () => {
-    if (!emotionClassifier || dataBuffer.current.length === 0) return;
-    
-    setIsClassifying(true);
-    
+  const handleTrainedModelSaved = (savedModels: EmotionModelFile[], id: string) => {
+    setModels(savedModels);
+    setModelId(id);
+    setIsTrainingOpen(false);
+  };
+  
+  // Hand incoming batches to the worker; while recording, the filtered
+  // batch comes back so the recorder keeps raw and filtered in step
+  const { pushSamples, reset: resetPipeline } = pipeline;
+  const handleSamples = useCallback((samples: EegChannelData[]) => {
+    const filtered = pushSamples(samples, recorder.isRecording);
+    filtered?.then(filteredSamples => recorder.addSamples(samples, filteredSamples));
+  }, [pushSamples, recorder]);
+  
+  // Connect to the selected EEG source
+  const connectToSource = async () => {
     try {
-      // Process the buffer of EEG data
-      // In a real implementation, we would do more sophisticated feature extraction
-      // For now, we'll just average the values
-      const averageData = {
-        eeg1: 0, eeg2: 0, eeg3: 0, eeg4: 0, eeg5: 0, eeg6: 0, eeg7: 0, eeg8: 0
-      };
-      
-      dataBuffer.current.forEach(sample => {
-        averageData.eeg1 += sample.eeg1 / dataBuffer.current.length;
-        averageData.eeg2 += sample.eeg2 / dataBuffer.current.length;
-        averageData.eeg3 += sample.eeg3 / dataBuffer.current.length;
-        averageData.eeg4 += sample.eeg4 / dataBuffer.current.length;
-        averageData.eeg5 += sample.eeg5 / dataBuffer.current.length;
-        averageData.eeg6 += sample.eeg6 / dataBuffer.current.length;
-        averageData.eeg7 += sample.eeg7 / dataBuffer.current.length;
-        averageData.eeg8 += sample.eeg8 / dataBuffer.current.length;
-      });
-      
-      // Normalize values to 0-1 range for the classifier
-      Object.keys(averageData).forEach(key => {
-        const k = key as keyof typeof averageData;
-        // Map from -50 to 50 range to 0 to 1
-        averageData[k] = (averageData[k] + 50) / 100;
-      });
+      setError(null);
       
-      // Run the classifier
-      const result = emotionClassifier.run(averageData);
+      // Start from empty buffers; the montage may have changed since the last session
+      resetPipeline();
+      setArtifactStats(EMPTY_ARTIFACT_STATS);
+      setLastArtifactReport(null);
       
-      // Find the emotion with the highest score
-      let highestScore = 0;
-      let detectedEmotion = 'neutral';
+      const newSource = sourceDescriptor.create(montage, recording || undefined);
+      source.current = newSource;
+      recorder.setMontage(newSource.montage);
+      collector.startSession(newSource.montage);
       
-      EMOTIONS.forEach(emotion => {
-        if (result[emotion] > highestScore) {
-          highestScore = result[emotion];
-          detectedEmotion = emotion;
+      newSource.onSamples(handleSamples);
+      newSource.onReset(resetPipeline);
+      newSource.onStatus((newStatus, message) => {
+        setStatus(newStatus);
+        // Connecting sources say what they wait for; connected ones may report stream loss
+        setStatusMessage((newStatus === 'connecting' || newStatus === 'connected') && message ? message : null);
+        if (newStatus === 'error') {
+          setError(`Source error: ${message || 'unknown error'}`);
         }
       });
       
-      // Send the detected emotion up to the parent component
-      onEmotionDetected(detectedEmotion);
+      await newSource.connect();
     } catch (err: any) {
-      setError(`Classification error: ${err.message}`);
-    } finally {
-      setIsClassifying(false);
+      setError(`Failed to connect: ${err.message}`);
+      setStatus('error');
+      source.current?.disconnect();
+      source.current = null;
     }
   };
   
-  // Auto-classify every few seconds when connected
-  useEffect(() => {
-    if (!isConnected || !emotionClassifier) return;
-    
-    const classifierInterval = setInterval(() => {
-      classifyEmotion();
-    }, 2000); // Classify every 2 seconds
-    
-    return () => clearInterval(classifierInterval);
-  }, [isConnected, emotionClassifier]);
+  const disconnectFromSource = () => {
+    source.current?.disconnect();
+    source.current = null;
+    setStatus('disconnected');
+    setStatusMessage(null);
+  };
   
+  // Always release the source when the monitor unmounts
   useEffect(() => {
-    let cleanupFunction: (() => void) | undefined;
-    
-    if (isConnected) {
-      cleanupFunction = connectToUnicorn();
-    }
-    
     return () => {
-      if (cleanupFunction) {
-        cleanupFunction();
-      }
-      setIsConnected(false);
+      source.current?.disconnect();
+      source.current = null;
     };
-  }, [isConnected]);
+  }, []);
+  
+  // Classify the most recent epoch on demand
+  const classifyEmotion = () => {
+    if (!isReady) return;
+    
+    setIsClassifying(true);
+    pipeline.classifyNow();
+  };
   
   return (
     <Paper 
@@ -214,14 +278,162 @@ const EmotionMonitor: React.FC<EmotionMonitorProps> = ({ onEmotionDetected, onEe
       )}
       
       <Box sx={{ mb: 2 }}>
-        <Button 
-          variant="contained" 
-          color={isConnected ? "error" : "primary"}
-          onClick={() => setIsConnected(!isConnected)}
+        <TextField
+          select
           fullWidth
+          size="small"
+          label="EEG source"
+          value={sourceId}
+          disabled={status !== 'disconnected' && status !== 'error'}
+          onChange={(e) => setSourceId(e.target.value)}
+          helperText={sourceDescriptor.description}
+          sx={{ mb: 2 }}
         >
-          {isConnected ? "Disconnect" : "Connect to Unicorn"}
-        </Button>
+          {EEG_SOURCES.map(option => (
+            <MenuItem key={option.id} value={option.id}>{option.label}</MenuItem>
+          ))}
+        </TextField>
+        
+        {isConnected && source.current instanceof SimulatedEegSource && (
+          <SimulatorControls source={source.current} />
+        )}
+        
+        {sourceDescriptor.requiresRecording && (
+          <ReplayControls
+            recording={recording}
+            onRecordingLoaded={setRecording}
+            source={isConnected && source.current instanceof ReplayEegSource ? source.current : null}
+          />
+        )}
+        
+        <TextField
+          select
+          fullWidth
+          size="small"
+          label="Headset montage"
+          value={sourceDescriptor.configurableMontage ? montageId : ''}
+          disabled={isConnected || !sourceDescriptor.configurableMontage}
+          onChange={(e) => setMontageId(e.target.value)}
+          helperText={`${montage.channels.length} channels at ${montage.sampleRate} Hz: ${montage.channels.join(', ')}`}
+          SelectProps={{ displayEmpty: true }}
+          InputLabelProps={{ shrink: true }}
+          sx={{ mb: 2 }}
+        >
+          {!sourceDescriptor.configurableMontage && (
+            <MenuItem value="">{montage.name} (set by source)</MenuItem>
+          )}
+          {Object.values(MONTAGES).map(option => (
+            <MenuItem key={option.id} value={option.id}>{option.name}</MenuItem>
+          ))}
+        </TextField>
+        
+        <TextField
+          select
+          fullWidth
+          size="small"
+          label="Calibration profile"
+          value={activeProfile ? activeProfile.id : ''}
+          disabled={isConnected || !!selectedModel}
+          onChange={(e) => setProfileId(e.target.value)}
+          helperText={selectedModel
+            ? 'Set by the selected model'
+            : activeProfile
+              ? `${activeProfile.method === 'robust' ? 'Robust' : 'Z-score'} scaling against your baseline`
+              : 'Fixed-range normalization'}
+          SelectProps={{ displayEmpty: true }}
+          InputLabelProps={{ shrink: true }}
+          sx={{ mb: 2 }}
+        >
+          <MenuItem value="">None</MenuItem>
+          {compatibleProfiles.map(profile => (
+            <MenuItem key={profile.id} value={profile.id}>
+              {profile.name} ({new Date(profile.createdAt).toLocaleDateString()})
+            </MenuItem>
+          ))}
+        </TextField>
+        
+        <EmotionModelPanel
+          montage={montage}
+          models={compatibleModels}
+          selectedId={selectedModel ? selectedModel.metadata.id : ''}
+          onSelect={setModelId}
+          onModelsChanged={setModels}
+          activeModelFile={activeModelFile}
+          activeModel={activeModel}
+          disabled={isConnected}
+        />
+        
+        <Box sx={{ mb: 2, px: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            Confidence threshold: {formatConfidence(confidenceThreshold)}
+          </Typography>
+          <Slider
+            size="small"
+            value={confidenceThreshold}
+            min={0.15}
+            max={0.9}
+            step={0.05}
+            onChange={(_, value) => setConfidenceThreshold(value as number)}
+            valueLabelDisplay="auto"
+            valueLabelFormat={formatConfidence}
+          />
+          <Typography variant="caption" color="text.secondary">
+            Less confident predictions are reported as uncertain, and chat and music hold back
+          </Typography>
+        </Box>
+        
+        {classifierError && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {classifierError}
+          </Alert>
+        )}
+        
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button 
+            variant="contained" 
+            color={isConnected ? "error" : "primary"}
+            onClick={isConnected || status === 'connecting' ? disconnectFromSource : connectToSource}
+            disabled={!isConnected && status !== 'connecting' && !canConnect}
+            fullWidth
+          >
+            {isConnected ? "Disconnect" : status === 'connecting' ? "Cancel" : `Connect to ${sourceDescriptor.label}`}
+          </Button>
+          <Button
+            variant="outlined"
+            onClick={() => setIsCalibrating(true)}
+            disabled={!isConnected}
+          >
+            Calibrate
+          </Button>
+          <Button
+            variant="outlined"
+            onClick={() => setIsTrainingOpen(true)}
+          >
+            Train
+          </Button>
+        </Box>
+        
+        {isConnected && labeling && (
+          <Chip
+            label={`Labeling epochs as ${labeling}`}
+            size="small"
+            color="secondary"
+            onDelete={() => collector.setLabel(null)}
+            sx={{ mt: 1 }}
+          />
+        )}
+        
+        {status === 'connecting' && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+            {statusMessage || 'Connecting...'}
+          </Typography>
+        )}
+        
+        {status === 'connected' && statusMessage && (
+          <Typography variant="caption" color="warning.main" sx={{ display: 'block', mt: 1 }}>
+            {statusMessage}
+          </Typography>
+        )}
       </Box>
       
       <Box 
@@ -239,34 +451,106 @@ const EmotionMonitor: React.FC<EmotionMonitorProps> = ({ onEmotionDetected, onEe
           </Typography>
         )}
         
-        {isConnected && eegData.length === 0 && (
+        {isConnected && plot.raw.length === 0 && (
           <CircularProgress />
         )}
         
-        {isConnected && eegData.length > 0 && (
-          <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="none">
-            <polyline
-              points={eegData.map((data, i) => 
-                `${i * (100 / (eegData.length - 1))},${50 + data.eeg1 / 2}`
-              ).join(' ')}
-              stroke="#4CAF50"
-              strokeWidth="1"
-              fill="none"
-            />
-          </svg>
+        {isConnected && plot.raw.length > 0 && (
+          <Box sx={{ display: 'flex', width: '100%', height: '100%', gap: 1 }}>
+            {[
+              { label: 'Raw', data: plot.raw, color: '#90A4AE' },
+              { label: 'Filtered', data: plot.filtered, color: '#4CAF50' }
+            ].map(view => (
+              <Box key={view.label} sx={{ flex: 1, position: 'relative' }}>
+                <Typography
+                  variant="caption"
+                  color="text.secondary"
+                  sx={{ position: 'absolute', top: 4, left: 8 }}
+                >
+                  {view.label} · {montage.channels[0]}
+                </Typography>
+                <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="none">
+                  <polyline
+                    points={view.data.map((value, i) => 
+                      `${i * (100 / Math.max(1, view.data.length - 1))},${50 + value / 2}`
+                    ).join(' ')}
+                    stroke={view.color}
+                    strokeWidth="1"
+                    fill="none"
+                  />
+                </svg>
+              </Box>
+            ))}
+          </Box>
         )}
       </Box>
       
+      {isConnected && artifactStats.total > 0 && (
+        <Box sx={{ mb: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              Epochs rejected: {Math.round(getRejectionRate(artifactStats) * 100)}% ({artifactStats.rejected}/{artifactStats.total})
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 0.5 }}>
+              {lastArtifactReport?.reasons.map(reason => (
+                <Chip key={reason} label={reason} size="small" color="warning" variant="outlined" />
+              ))}
+            </Box>
+          </Box>
+          
+          {artifactStats.total >= 5 && getRejectionRate(artifactStats) > HIGH_REJECTION_RATE && (
+            <Alert severity="warning">
+              Many epochs contain artifacts. Check the headset fit and electrode contact.
+            </Alert>
+          )}
+        </Box>
+      )}
+      
+      <Box sx={{ mb: 2 }}>
+        <FilterSettingsPanel settings={filterSettings} onChange={setFilterSettings} />
+      </Box>
+      
+      <Box sx={{ mb: 2 }}>
+        <SmoothingSettingsPanel settings={smoothing} onChange={setSmoothing} />
+      </Box>
+      
+      <Box sx={{ mb: 2 }}>
+        <SelfReportPanel />
+      </Box>
+      
+      <Box sx={{ mb: 2 }}>
+        <SessionRecorderPanel recorder={recorder} canRecord={isConnected} />
+      </Box>
+      
       <Box sx={{ mt: 'auto' }}>
         <Button 
           variant="outlined" 
-          onClick={classifyEmotion}
-          disabled={!isConnected || isClassifying}
+          onClick={() => classifyEmotion()}
+          disabled={!isConnected || isClassifying || !isReady}
           fullWidth
         >
-          {isClassifying ? <CircularProgress size={24} /> : "Classify Emotion"}
+          {isClassifying || isTraining ? <CircularProgress size={24} /> : "Classify Emotion"}
         </Button>
       </Box>
+      
+      <CalibrationDialog
+        open={isCalibrating}
+        montage={montage}
+        epochSeconds={EPOCH_SECONDS}
+        analyzeLatestEpoch={pipeline.analyzeLatestEpoch}
+        onClose={() => setIsCalibrating(false)}
+        onSaved={handleProfileSaved}
+      />
+      
+      <TrainingDialog
+        open={isTrainingOpen}
+        montage={montage}
+        collector={collector}
+        profile={activeProfile}
+        canCollect={isConnected}
+        onClose={() => setIsTrainingOpen(false)}
+        onModelSaved={handleTrainedModelSaved}
+      />
     </Paper>
   );
 };
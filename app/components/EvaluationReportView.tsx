@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField,
+  MenuItem
+} from '@mui/material';
+import { CalibrationBin, EvaluationReport } from '../utils/classifierEvaluation';
+import { describeTrainingOptions } from '../utils/classifierBackendRegistry';
+
+interface EvaluationReportViewProps {
+  report: EvaluationReport;
+}
+
+const capitalize = (label: string) => label.charAt(0).toUpperCase() + label.slice(1);
+
+const formatPercent = (value: number | null) => value === null ? '–' : `${(value * 100).toFixed(1)}%`;
+
+const formatScore = (value: number | null) => value === null ? '–' : value.toFixed(3);
+
+// Reliability diagram: a perfectly calibrated classifier follows the diagonal
+const CalibrationChart: React.FC<{ bins: CalibrationBin[] }> = ({ bins }) => {
+  const points = bins.filter(bin => bin.count > 0);
+  const maxCount = Math.max(1, ...bins.map(bin => bin.count));
+
+  return (
+    <svg width="100%" viewBox="-12 -4 116 116" style={{ maxWidth: 320 }}>
+      <rect x="0" y="0" width="100" height="100" fill="none" stroke="rgba(255, 255, 255, 0.2)" strokeWidth="0.5" />
+      {bins.map(bin => (
+        <rect
+          key={bin.lower}
+          x={bin.lower * 100 + 1}
+          y={100 - (bin.count / maxCount) * 20}
+          width={(bin.upper - bin.lower) * 100 - 2}
+          height={(bin.count / maxCount) * 20}
+          fill="rgba(144, 202, 249, 0.2)"
+        />
+      ))}
+      <line x1="0" y1="100" x2="100" y2="0" stroke="rgba(255, 255, 255, 0.4)" strokeWidth="0.5" strokeDasharray="2 2" />
+      <polyline
+        points={points.map(bin => `${(bin.meanConfidence || 0) * 100},${100 - (bin.accuracy || 0) * 100}`).join(' ')}
+        stroke="#f48fb1"
+        strokeWidth="1"
+        fill="none"
+      />
+      {points.map(bin => (
+        <circle
+          key={bin.lower}
+          cx={(bin.meanConfidence || 0) * 100}
+          cy={100 - (bin.accuracy || 0) * 100}
+          r="1.5"
+          fill="#f48fb1"
+        />
+      ))}
+      <text x="50" y="110" fontSize="5" fill="currentColor" textAnchor="middle">Predicted probability</text>
+      <text x="-4" y="50" fontSize="5" fill="currentColor" textAnchor="middle" transform="rotate(-90 -4 50)">
+        Observed frequency
+      </text>
+    </svg>
+  );
+};
+
+const EvaluationReportView: React.FC<EvaluationReportViewProps> = ({ report }) => {
+  // '' shows top-label confidence, otherwise the one-vs-rest curve for a label
+  const [calibrationLabel, setCalibrationLabel] = useState('');
+
+  const maxCell = Math.max(1, ...report.confusionMatrix.map(row => Math.max(...row)));
+  const evaluatedFolds = report.folds.filter(fold => !fold.skipped).length;
+  const calibrationBins = calibrationLabel ? report.classCalibration[calibrationLabel] : report.calibration;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Paper sx={{ p: 2 }}>
+        <Typography variant="h6">
+          {report.name}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {report.method === 'k-fold' ? `${report.folds.length}-fold` : 'Leave-one-session-out'} cross-validation
+          on {report.dataset.epochs} epochs from {report.dataset.sessions} sessions ({report.dataset.montageName}),
+          {describeTrainingOptions(report.training)},
+          {report.normalization.method === 'calibration'
+            ? ` baseline "${report.normalization.profileName}"`
+            : ' fixed-range normalization'}
+          {' · '}{new Date(report.createdAt).toLocaleString()}
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 4, mt: 1 }}>
+          {[
+            { label: 'Accuracy', value: formatPercent(report.accuracy) },
+            { label: 'Macro F1', value: formatScore(report.macroF1) },
+            { label: 'Calibration error', value: formatScore(report.expectedCalibrationError) },
+            { label: 'Folds evaluated', value: `${evaluatedFolds}/${report.folds.length}` }
+          ].map(metric => (
+            <Box key={metric.label}>
+              <Typography variant="body2" color="text.secondary">{metric.label}</Typography>
+              <Typography variant="h6">{metric.value}</Typography>
+            </Box>
+          ))}
+        </Box>
+      </Paper>
+
+      <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2 }}>
+        <Paper sx={{ p: 2, flex: 1 }}>
+          <Typography variant="subtitle1" gutterBottom>
+            Per-class metrics
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Label</TableCell>
+                <TableCell align="right">Precision</TableCell>
+                <TableCell align="right">Recall</TableCell>
+                <TableCell align="right">F1</TableCell>
+                <TableCell align="right">Support</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {report.perClass.map(metrics => (
+                <TableRow key={metrics.label}>
+                  <TableCell>{capitalize(metrics.label)}</TableCell>
+                  <TableCell align="right">{formatPercent(metrics.precision)}</TableCell>
+                  <TableCell align="right">{formatPercent(metrics.recall)}</TableCell>
+                  <TableCell align="right">{formatScore(metrics.f1)}</TableCell>
+                  <TableCell align="right">{metrics.support}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+
+        <Paper sx={{ p: 2, flex: 1 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+            <Typography variant="subtitle1">
+              Calibration
+            </Typography>
+            <TextField
+              select
+              size="small"
+              value={calibrationLabel}
+              onChange={(e) => setCalibrationLabel(e.target.value)}
+              SelectProps={{ displayEmpty: true }}
+              sx={{ minWidth: 160 }}
+            >
+              <MenuItem value="">Top-label confidence</MenuItem>
+              {Object.keys(report.classCalibration).map(label => (
+                <MenuItem key={label} value={label}>{capitalize(label)} vs rest</MenuItem>
+              ))}
+            </TextField>
+          </Box>
+          {calibrationBins && <CalibrationChart bins={calibrationBins} />}
+        </Paper>
+      </Box>
+
+      <Paper sx={{ p: 2, overflowX: 'auto' }}>
+        <Typography variant="subtitle1" gutterBottom>
+          Confusion matrix
+        </Typography>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+          Rows are the true label, columns the predicted label
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell />
+              {report.labels.map(label => (
+                <TableCell key={label} align="center">{capitalize(label)}</TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {report.labels.map((label, row) => (
+              <TableRow key={label}>
+                <TableCell component="th">{capitalize(label)}</TableCell>
+                {report.confusionMatrix[row].map((count, column) => (
+                  <TableCell
+                    key={column}
+                    align="center"
+                    sx={{
+                      bgcolor: count > 0
+                        ? `rgba(${row === column ? '144, 202, 249' : '244, 143, 177'}, ${0.15 + 0.6 * count / maxCell})`
+                        : undefined
+                    }}
+                  >
+                    {count}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Paper>
+
+      <Paper sx={{ p: 2 }}>
+        <Typography variant="subtitle1" gutterBottom>
+          Folds
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Fold</TableCell>
+              <TableCell align="right">Train</TableCell>
+              <TableCell align="right">Test</TableCell>
+              <TableCell align="right">Accuracy</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {report.folds.map(fold => (
+              <TableRow key={fold.fold}>
+                <TableCell>
+                  {fold.fold + 1}
+                  {fold.sessionId && ` (session ${fold.sessionId})`}
+                </TableCell>
+                <TableCell align="right">{fold.trainSize}</TableCell>
+                <TableCell align="right">{fold.testSize}</TableCell>
+                <TableCell align="right">{fold.skipped || formatPercent(fold.accuracy)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Paper>
+    </Box>
+  );
+};
+
+export default EvaluationReportView;
@@ -0,0 +1,134 @@
+import React from 'react';
+import {
+  Box,
+  FormControlLabel,
+  Switch,
+  TextField,
+  MenuItem,
+  Typography
+} from '@mui/material';
+import { FilterSettings } from '../utils/eegFilters';
+
+interface FilterSettingsPanelProps {
+  settings: FilterSettings;
+  onChange: (settings: FilterSettings) => void;
+}
+
+const FilterSettingsPanel: React.FC<FilterSettingsPanelProps> = ({ settings, onChange }) => {
+  const parseFrequency = (value: string, fallback: number) => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) || parsed <= 0 ? fallback : parsed;
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Typography variant="subtitle2">
+        Signal Filters
+      </Typography>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <FormControlLabel
+          sx={{ flex: 1 }}
+          control={
+            <Switch
+              size="small"
+              checked={settings.highPass.enabled}
+              onChange={(e) => onChange({
+                ...settings,
+                highPass: { ...settings.highPass, enabled: e.target.checked }
+              })}
+            />
+          }
+          label="High-pass"
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="Cutoff (Hz)"
+          value={settings.highPass.cutoff}
+          disabled={!settings.highPass.enabled}
+          onChange={(e) => onChange({
+            ...settings,
+            highPass: { ...settings.highPass, cutoff: parseFrequency(e.target.value, settings.highPass.cutoff) }
+          })}
+          sx={{ width: 110 }}
+        />
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <FormControlLabel
+          sx={{ flex: 1 }}
+          control={
+            <Switch
+              size="small"
+              checked={settings.bandPass.enabled}
+              onChange={(e) => onChange({
+                ...settings,
+                bandPass: { ...settings.bandPass, enabled: e.target.checked }
+              })}
+            />
+          }
+          label="Band-pass"
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="Low (Hz)"
+          value={settings.bandPass.low}
+          disabled={!settings.bandPass.enabled}
+          onChange={(e) => onChange({
+            ...settings,
+            bandPass: { ...settings.bandPass, low: parseFrequency(e.target.value, settings.bandPass.low) }
+          })}
+          sx={{ width: 90 }}
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="High (Hz)"
+          value={settings.bandPass.high}
+          disabled={!settings.bandPass.enabled}
+          onChange={(e) => onChange({
+            ...settings,
+            bandPass: { ...settings.bandPass, high: parseFrequency(e.target.value, settings.bandPass.high) }
+          })}
+          sx={{ width: 90 }}
+        />
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <FormControlLabel
+          sx={{ flex: 1 }}
+          control={
+            <Switch
+              size="small"
+              checked={settings.notch.enabled}
+              onChange={(e) => onChange({
+                ...settings,
+                notch: { ...settings.notch, enabled: e.target.checked }
+              })}
+            />
+          }
+          label="Notch"
+        />
+        <TextField
+          select
+          size="small"
+          label="Mains"
+          value={settings.notch.frequency}
+          disabled={!settings.notch.enabled}
+          onChange={(e) => onChange({
+            ...settings,
+            notch: { ...settings.notch, frequency: Number(e.target.value) === 60 ? 60 : 50 }
+          })}
+          sx={{ width: 110 }}
+        >
+          <MenuItem value={50}>50 Hz</MenuItem>
+          <MenuItem value={60}>60 Hz</MenuItem>
+        </TextField>
+      </Box>
+    </Box>
+  );
+};
+
+export default FilterSettingsPanel;
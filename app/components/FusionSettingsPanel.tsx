@@ -0,0 +1,47 @@
+import React from 'react';
+import {
+  Box,
+  TextField,
+  Typography
+} from '@mui/material';
+import { FusionSettings } from '../utils/emotionFusion';
+
+interface FusionSettingsPanelProps {
+  settings: FusionSettings;
+  onChange: (settings: FusionSettings) => void;
+}
+
+const FusionSettingsPanel: React.FC<FusionSettingsPanelProps> = ({ settings, onChange }) => {
+  const parseWeight = (value: string, fallback: number) => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) || parsed < 0 || parsed > 1 ? fallback : parsed;
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      <Typography variant="caption" color="text.secondary" sx={{ flex: 1 }}>
+        Reply tone fuses the EEG emotion with the emotion in your message
+      </Typography>
+      <TextField
+        size="small"
+        type="number"
+        label="EEG weight"
+        value={settings.eegWeight}
+        inputProps={{ min: 0, max: 1, step: 0.1 }}
+        onChange={(e) => onChange({ ...settings, eegWeight: parseWeight(e.target.value, settings.eegWeight) })}
+        sx={{ width: 110 }}
+      />
+      <TextField
+        size="small"
+        type="number"
+        label="Text weight"
+        value={settings.textWeight}
+        inputProps={{ min: 0, max: 1, step: 0.1 }}
+        onChange={(e) => onChange({ ...settings, textWeight: parseWeight(e.target.value, settings.textWeight) })}
+        sx={{ width: 110 }}
+      />
+    </Box>
+  );
+};
+
+export default FusionSettingsPanel;
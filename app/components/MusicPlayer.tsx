@@ -6,7 +6,9 @@ import {
   Button, 
   Slider, 
   IconButton,
-  CircularProgress
+  CircularProgress,
+  TextField,
+  MenuItem
 } from '@mui/material';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
 import PauseIcon from '@mui/icons-material/Pause';
@@ -18,15 +20,25 @@ import {
   getRecommendedGenre,
   loadYouTubePlayer,
   getEmotionMusicDescription,
+  getAffectMusicQuery,
   YouTubeTrack
 } from '../utils/youtubeService';
+import { confidentEmotion } from '../utils/emotionPrediction';
+import { AffectCoordinates } from '../utils/circumplex';
+import { useEmotionState, useEmotionStore } from '../hooks/useEmotionStore';
+import { effectivePrediction } from '../utils/emotionStore';
 
-interface MusicPlayerProps {
-  currentEmotion: string | null;
-  onMusicPlaying: (title: string | null) => void;
-}
+// Pick music from the categorical emotion or from the continuous valence/arousal estimate
+type MatchMode = 'emotion' | 'affect';
 
-const MusicPlayer: React.FC<MusicPlayerProps> = ({ currentEmotion, onMusicPlaying }) => {
+const MusicPlayer: React.FC = () => {
+  // Reads the current prediction and reports the playing track through the shared store
+  const emotionStore = useEmotionStore();
+  const prediction = useEmotionState(effectivePrediction);
+  // Last confidently detected emotion; uncertain predictions keep the current music
+  const [currentEmotion, setCurrentEmotion] = useState<string | null>(null);
+  const [currentAffect, setCurrentAffect] = useState<AffectCoordinates | null>(null);
+  const [matchMode, setMatchMode] = useState<MatchMode>('emotion');
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTrack, setCurrentTrack] = useState<YouTubeTrack | null>(null);
   const [volume, setVolume] = useState<number>(70);
@@ -58,17 +70,29 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({ currentEmotion, onMusicPlayin
     };
   }, []);
   
-  // Fetch tracks when emotion changes
   useEffect(() => {
-    if (!currentEmotion) return;
+    const emotion = confidentEmotion(prediction);
+    if (emotion && prediction) {
+      setCurrentEmotion(emotion);
+      setCurrentAffect(prediction.affect);
+    }
+  }, [prediction]);
+  
+  // The affect estimate moves every epoch, but the query only changes when it
+  // crosses into a different energy or mood band
+  const query = matchMode === 'affect'
+    ? currentAffect && getAffectMusicQuery(currentAffect)
+    : currentEmotion && getRecommendedGenre(currentEmotion);
+  
+  // Fetch tracks when the query changes
+  useEffect(() => {
+    if (!query) return;
     
     const fetchTracks = async () => {
       setIsLoading(true);
       try {
-        const genre = getRecommendedGenre(currentEmotion);
-        
         // Fetch tracks from YouTube API (through our proxy API route)
-        const fetchedTracks = await searchYouTubeVideos(genre);
+        const fetchedTracks = await searchYouTubeVideos(query);
         setTracks(fetchedTracks);
         
         if (fetchedTracks.length > 0 && isPlaying) {
@@ -82,7 +106,7 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({ currentEmotion, onMusicPlayin
     };
     
     fetchTracks();
-  }, [currentEmotion]);
+  }, [query]);
   
   const loadAndPlayTrack = async (track: YouTubeTrack) => {
     try {
@@ -119,7 +143,7 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({ currentEmotion, onMusicPlayin
         });
       }, 1000);
       
-      onMusicPlaying(track.title);
+      emotionStore.setMusicPlaying(track.title);
     } catch (error) {
       console.error('Error loading track:', error);
     }
@@ -137,7 +161,7 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({ currentEmotion, onMusicPlayin
         clearInterval(progressInterval.current);
       }
       setIsPlaying(false);
-      onMusicPlaying(null);
+      emotionStore.setMusicPlaying(null);
       
       // In a real app, this would call pauseVideo() on the YouTube player
     } else {
@@ -155,7 +179,7 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({ currentEmotion, onMusicPlayin
       }, 1000);
       
       if (currentTrack) {
-        onMusicPlaying(currentTrack.title);
+        emotionStore.setMusicPlaying(currentTrack.title);
       }
       
       // In a real app, this would call playVideo() on the YouTube player
@@ -207,9 +231,22 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({ currentEmotion, onMusicPlayin
         bgcolor: 'background.paper',
       }}
     >
-      <Typography variant="h5" gutterBottom>
-        Music Player
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h5">
+          Music Player
+        </Typography>
+        <TextField
+          select
+          size="small"
+          label="Match by"
+          value={matchMode}
+          onChange={(e) => setMatchMode(e.target.value as MatchMode)}
+          sx={{ width: 170 }}
+        >
+          <MenuItem value="emotion">Emotion</MenuItem>
+          <MenuItem value="affect">Valence / arousal</MenuItem>
+        </TextField>
+      </Box>
       
       {isLoading ? (
         <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
@@ -219,13 +256,21 @@ const MusicPlayer: React.FC<MusicPlayerProps> = ({ currentEmotion, onMusicPlayin
         <>
           <Box sx={{ mb: 2 }}>
             <Typography variant="subtitle1" gutterBottom>
-              {currentEmotion ? (
+              {matchMode === 'affect' && query ? (
+                `Matching your valence and arousal: ${query}`
+              ) : currentEmotion ? (
                 getEmotionMusicDescription(currentEmotion)
               ) : (
                 'Select an emotion to get personalized music'
               )}
             </Typography>
             
+            {prediction?.uncertain && (
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                Mood unclear right now, keeping the current music
+              </Typography>
+            )}
+            
             <Typography variant="h6" noWrap>
               {currentTrack ? currentTrack.title : 'No track selected'}
             </Typography>
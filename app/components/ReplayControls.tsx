@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  Button,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Slider,
+  Switch,
+  TextField,
+  Typography
+} from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import PauseIcon from '@mui/icons-material/Pause';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { EegRecording, importRecording } from '../utils/sessionImport';
+import { ReplayEegSource, ReplayState, REPLAY_SPEEDS } from '../utils/replayEegSource';
+
+interface ReplayControlsProps {
+  recording: EegRecording | null;
+  onRecordingLoaded: (recording: EegRecording) => void;
+  // The active replay source, once connected
+  source: ReplayEegSource | null;
+}
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  const minutes = Math.floor(whole / 60);
+  const rest = whole % 60;
+  return `${minutes}:${rest < 10 ? '0' : ''}${rest}`;
+};
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({ recording, onRecordingLoaded, source }) => {
+  const [state, setState] = useState<ReplayState | null>(null);
+  const [seekPosition, setSeekPosition] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!source) {
+      setState(null);
+      return;
+    }
+
+    setState(source.state);
+    return source.onReplay(setState);
+  }, [source]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setError(null);
+      onRecordingLoaded(importRecording(file.name, await file.arrayBuffer()));
+    } catch (err: any) {
+      setError(`Could not load ${file.name}: ${err.message}`);
+    }
+  };
+
+  const duration = recording ? recording.samples.length / recording.montage.sampleRate : 0;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mb: 2 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={<UploadFileIcon />}
+          onClick={() => fileInput.current?.click()}
+          disabled={!!source}
+        >
+          Load recording
+        </Button>
+        <Typography variant="caption" color="text.secondary" noWrap>
+          {recording
+            ? `${recording.name} · ${formatTime(duration)} · ${recording.montage.channels.length} ch @ ${recording.montage.sampleRate} Hz`
+            : 'EDF+, session CSV or Unicorn Recorder CSV'}
+        </Typography>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".edf,.csv"
+          style={{ display: 'none' }}
+          onChange={handleFile}
+        />
+      </Box>
+
+      {recording && recording.droppedSamples > 0 && (
+        <Typography variant="caption" color="warning.main">
+          {`${recording.droppedSamples} samples were dropped during recording, in ${recording.annotations.length} gap${recording.annotations.length === 1 ? '' : 's'}`}
+        </Typography>
+      )}
+
+      {error && (
+        <Typography variant="caption" color="error">
+          {error}
+        </Typography>
+      )}
+
+      {source && state && (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <IconButton
+              size="small"
+              color="primary"
+              onClick={() => (state.isPlaying ? source.pause() : source.play())}
+            >
+              {state.isPlaying ? <PauseIcon /> : <PlayArrowIcon />}
+            </IconButton>
+            <Slider
+              size="small"
+              min={0}
+              max={state.duration}
+              step={0.1}
+              value={seekPosition ?? state.position}
+              onChange={(_event, value) => setSeekPosition(value as number)}
+              onChangeCommitted={(_event, value) => {
+                source.seek(value as number);
+                setSeekPosition(null);
+              }}
+            />
+            <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+              {formatTime(seekPosition ?? state.position)} / {formatTime(state.duration)}
+            </Typography>
+          </Box>
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <TextField
+              select
+              size="small"
+              label="Speed"
+              value={state.speed}
+              onChange={(e) => source.setSpeed(Number(e.target.value))}
+              sx={{ minWidth: 90 }}
+            >
+              {REPLAY_SPEEDS.map(speed => (
+                <MenuItem key={speed} value={speed}>{speed}x</MenuItem>
+              ))}
+            </TextField>
+            <FormControlLabel
+              control={
+                <Switch
+                  size="small"
+                  checked={state.loop}
+                  onChange={(e) => source.setLoop(e.target.checked)}
+                />
+              }
+              label="Loop"
+            />
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Button, TextField, MenuItem, Typography } from '@mui/material';
+import { EMOTIONS } from '../utils/emotionClassifier';
+import { formatConfidence } from '../utils/emotionPrediction';
+import { selfReportAgreement } from '../utils/emotionStore';
+import { useEmotionState, useEmotionStore } from '../hooks/useEmotionStore';
+
+// Override durations in minutes; 0 pins the self-report until it is cleared
+const DURATION_OPTIONS = [1, 5, 15, 60, 0];
+
+const capitalize = (label: string) => label.charAt(0).toUpperCase() + label.slice(1);
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+const SelfReportPanel: React.FC = () => {
+  const emotionStore = useEmotionStore();
+  const selfReport = useEmotionState(state => state.selfReport);
+  const history = useEmotionState(state => state.history);
+  const [emotion, setEmotion] = useState('neutral');
+  const [durationMinutes, setDurationMinutes] = useState(5);
+
+  const agreement = useMemo(() => selfReportAgreement(history), [history]);
+
+  const report = () => {
+    emotionStore.setSelfReport(emotion, durationMinutes > 0 ? durationMinutes * 60 * 1000 : null);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Typography variant="subtitle2">
+        Self-Report
+      </Typography>
+      <Typography variant="caption" color="text.secondary">
+        Override the detected emotion, or set it directly when no headset is connected. Chat tone and music follow the self-report while it is in force.
+      </Typography>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <TextField
+          select
+          size="small"
+          label="I feel"
+          value={emotion}
+          onChange={(e) => setEmotion(e.target.value)}
+          sx={{ minWidth: 120 }}
+        >
+          {EMOTIONS.map(label => (
+            <MenuItem key={label} value={label}>{capitalize(label)}</MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="For"
+          value={durationMinutes}
+          onChange={(e) => setDurationMinutes(Number(e.target.value))}
+          sx={{ minWidth: 110 }}
+        >
+          {DURATION_OPTIONS.map(minutes => (
+            <MenuItem key={minutes} value={minutes}>
+              {minutes === 0 ? 'Until cleared' : minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Button size="small" variant="outlined" onClick={report}>
+          {selfReport ? 'Update' : 'Report'}
+        </Button>
+        {selfReport && (
+          <Button size="small" color="inherit" onClick={() => emotionStore.clearSelfReport()}>
+            Clear
+          </Button>
+        )}
+      </Box>
+
+      {selfReport && (
+        <Typography variant="caption">
+          Reporting {selfReport.emotion}
+          {selfReport.until === null ? ' until cleared' : ` until ${formatTime(selfReport.until)}`}
+        </Typography>
+      )}
+
+      {agreement.compared + agreement.uncertain > 0 && (
+        <Typography variant="caption" color="text.secondary">
+          {agreement.compared > 0
+            ? `Detected emotion agreed with the self-report in ${agreement.agreed} of ${agreement.compared} epochs (${formatConfidence(agreement.agreed / agreement.compared)})`
+            : 'No confident detections during self-reports yet'}
+          {agreement.uncertain > 0 && `; ${agreement.uncertain} uncertain`}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default SelfReportPanel;
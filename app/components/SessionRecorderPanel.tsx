@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Button, TextField, MenuItem, Typography } from '@mui/material';
+import FiberManualRecordIcon from '@mui/icons-material/FiberManualRecord';
+import StopIcon from '@mui/icons-material/Stop';
+import { SessionRecorder } from '../utils/sessionRecorder';
+import {
+  ExportSignal,
+  sessionToEdf,
+  sessionToCsv,
+  sessionEventsToCsv,
+  sessionFileName
+} from '../utils/sessionExport';
+import { downloadFile } from '../utils/download';
+
+interface SessionRecorderPanelProps {
+  recorder: SessionRecorder;
+  // Recording only makes sense while a source is delivering samples
+  canRecord: boolean;
+}
+
+const SessionRecorderPanel: React.FC<SessionRecorderPanelProps> = ({ recorder, canRecord }) => {
+  const [isRecording, setIsRecording] = useState(recorder.isRecording);
+  const [counts, setCounts] = useState({ samples: recorder.sampleCount, events: recorder.eventCount });
+  const [edfSignal, setEdfSignal] = useState<ExportSignal>('raw');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => recorder.onChange(setIsRecording), [recorder]);
+
+  // Refresh the counters once a second while recording
+  useEffect(() => {
+    const refresh = () => setCounts({ samples: recorder.sampleCount, events: recorder.eventCount });
+    refresh();
+    if (!isRecording) return;
+
+    const interval = setInterval(refresh, 1000);
+    return () => clearInterval(interval);
+  }, [recorder, isRecording]);
+
+  const toggleRecording = () => {
+    try {
+      setError(null);
+      if (recorder.isRecording) {
+        recorder.stop();
+      } else {
+        recorder.start();
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const exportSession = (format: 'edf' | 'csv' | 'events') => {
+    try {
+      setError(null);
+      const session = recorder.getSession();
+      const name = sessionFileName(session);
+
+      if (format === 'edf') {
+        downloadFile(`${name}-${edfSignal}.edf`, sessionToEdf(session, edfSignal), 'application/octet-stream');
+      } else if (format === 'csv') {
+        downloadFile(`${name}-eeg.csv`, sessionToCsv(session), 'text/csv');
+      } else {
+        downloadFile(`${name}-events.csv`, sessionEventsToCsv(session), 'text/csv');
+      }
+    } catch (err: any) {
+      setError(`Export failed: ${err.message}`);
+    }
+  };
+
+  const canExport = !isRecording && counts.samples > 0;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Typography variant="subtitle2">
+        Session Recording
+      </Typography>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Button
+          variant={isRecording ? 'contained' : 'outlined'}
+          color={isRecording ? 'error' : 'primary'}
+          size="small"
+          startIcon={isRecording ? <StopIcon /> : <FiberManualRecordIcon />}
+          onClick={toggleRecording}
+          disabled={!isRecording && !canRecord}
+        >
+          {isRecording ? 'Stop' : 'Record'}
+        </Button>
+        <Typography variant="caption" color="text.secondary">
+          {counts.samples} samples, {counts.events} events
+        </Typography>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <TextField
+          select
+          size="small"
+          label="EDF signal"
+          value={edfSignal}
+          onChange={(e) => setEdfSignal(e.target.value as ExportSignal)}
+          sx={{ minWidth: 110 }}
+        >
+          <MenuItem value="raw">Raw</MenuItem>
+          <MenuItem value="filtered">Filtered</MenuItem>
+        </TextField>
+        <Button size="small" onClick={() => exportSession('edf')} disabled={!canExport}>
+          EDF+
+        </Button>
+        <Button size="small" onClick={() => exportSession('csv')} disabled={!canExport}>
+          CSV
+        </Button>
+        <Button size="small" onClick={() => exportSession('events')} disabled={!canExport}>
+          Events
+        </Button>
+      </Box>
+
+      {error && (
+        <Typography variant="caption" color="error">
+          {error}
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default SessionRecorderPanel;
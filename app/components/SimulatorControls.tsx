@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Box, FormControlLabel, MenuItem, Switch, TextField } from '@mui/material';
+import { SimulatedEegSource } from '../utils/eegSource';
+import { EMOTION_COORDINATES } from '../utils/circumplex';
+import { TYPICAL_ARTIFACTS } from '../utils/syntheticEeg';
+
+interface SimulatorControlsProps {
+  source: SimulatedEegSource;
+}
+
+const SimulatorControls: React.FC<SimulatorControlsProps> = ({ source }) => {
+  const [emotion, setEmotion] = useState('neutral');
+  const [blinks, setBlinks] = useState(false);
+  const [muscle, setMuscle] = useState(false);
+  const [lineNoise, setLineNoise] = useState(false);
+
+  const handleEmotionChange = (value: string) => {
+    setEmotion(value);
+    source.setTarget(value);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+      <TextField
+        select
+        size="small"
+        label="Simulated emotion"
+        value={emotion}
+        onChange={(e) => handleEmotionChange(e.target.value)}
+        sx={{ minWidth: 160 }}
+      >
+        {Object.keys(EMOTION_COORDINATES).map(option => (
+          <MenuItem key={option} value={option}>
+            {option.charAt(0).toUpperCase() + option.slice(1)}
+          </MenuItem>
+        ))}
+      </TextField>
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={blinks}
+            onChange={(e) => {
+              setBlinks(e.target.checked);
+              source.setArtifacts({ blinkRate: e.target.checked ? TYPICAL_ARTIFACTS.blinkRate : 0 });
+            }}
+          />
+        }
+        label="Blinks"
+      />
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={muscle}
+            onChange={(e) => {
+              setMuscle(e.target.checked);
+              source.setArtifacts({ muscleRate: e.target.checked ? TYPICAL_ARTIFACTS.muscleRate : 0 });
+            }}
+          />
+        }
+        label="Muscle"
+      />
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={lineNoise}
+            onChange={(e) => {
+              setLineNoise(e.target.checked);
+              source.setArtifacts({ lineNoise: e.target.checked ? TYPICAL_ARTIFACTS.lineNoise : null });
+            }}
+          />
+        }
+        label="Line noise"
+      />
+    </Box>
+  );
+};
+
+export default SimulatorControls;
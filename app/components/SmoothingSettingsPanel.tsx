@@ -0,0 +1,84 @@
+import React from 'react';
+import {
+  Box,
+  TextField,
+  MenuItem,
+  Typography
+} from '@mui/material';
+import { SmoothingMethod, SmoothingSettings } from '../utils/emotionSmoothing';
+import { CLASSIFY_INTERVAL_SECONDS } from '../workers/eegPipelineProtocol';
+
+interface SmoothingSettingsPanelProps {
+  settings: SmoothingSettings;
+  onChange: (settings: SmoothingSettings) => void;
+}
+
+const SmoothingSettingsPanel: React.FC<SmoothingSettingsPanelProps> = ({ settings, onChange }) => {
+  const parseProbability = (value: string, fallback: number) => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) || parsed <= 0 || parsed > 1 ? fallback : parsed;
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Typography variant="subtitle2">
+        Emotion Smoothing
+      </Typography>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <TextField
+          select
+          size="small"
+          label="Method"
+          value={settings.method}
+          onChange={(e) => onChange({ ...settings, method: e.target.value as SmoothingMethod })}
+          sx={{ flex: 1 }}
+        >
+          <MenuItem value="none">None</MenuItem>
+          <MenuItem value="ema">Moving average</MenuItem>
+          <MenuItem value="hmm">Hidden Markov model</MenuItem>
+        </TextField>
+        {settings.method === 'ema' && (
+          <TextField
+            size="small"
+            type="number"
+            label="Alpha"
+            value={settings.emaAlpha}
+            inputProps={{ min: 0.05, max: 1, step: 0.05 }}
+            onChange={(e) => onChange({ ...settings, emaAlpha: parseProbability(e.target.value, settings.emaAlpha) })}
+            sx={{ width: 110 }}
+          />
+        )}
+        {settings.method === 'hmm' && (
+          <TextField
+            size="small"
+            type="number"
+            label="Stay prob."
+            value={settings.hmmStayProbability}
+            inputProps={{ min: 0.05, max: 0.99, step: 0.01 }}
+            onChange={(e) => onChange({
+              ...settings,
+              hmmStayProbability: parseProbability(e.target.value, settings.hmmStayProbability)
+            })}
+            sx={{ width: 110 }}
+          />
+        )}
+      </Box>
+
+      <TextField
+        size="small"
+        type="number"
+        label="Minimum dwell (epochs)"
+        value={settings.minDwellEpochs}
+        inputProps={{ min: 1, max: 30, step: 1 }}
+        onChange={(e) => onChange({
+          ...settings,
+          minDwellEpochs: Math.max(1, Math.min(30, parseInt(e.target.value, 10) || 1))
+        })}
+        helperText={`A new emotion must lead for ${settings.minDwellEpochs * CLASSIFY_INTERVAL_SECONDS} s before it is committed`}
+      />
+    </Box>
+  );
+};
+
+export default SmoothingSettingsPanel;
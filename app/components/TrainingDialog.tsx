@@ -0,0 +1,379 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  LinearProgress,
+  TextField,
+  MenuItem,
+  Alert,
+  Box,
+  Chip,
+  Divider
+} from '@mui/material';
+import { Montage } from '../utils/montage';
+import { CalibrationProfile } from '../utils/calibration';
+import { EMOTIONS, profileNormalization } from '../utils/emotionClassifier';
+import { ClassifierTrainingOptions, DEFAULT_TRAINING_OPTIONS, parseHiddenLayers } from '../utils/classifierBackend';
+import { getClassifierBackend, trainingContextLength } from '../utils/classifierBackendRegistry';
+import { EmotionModelFile, saveEmotionModel } from '../utils/emotionModel';
+import {
+  DatasetCollector,
+  STIMULUS_PROTOCOL,
+  countLabels,
+  createDataset,
+  datasetToRows,
+  parseDataset
+} from '../utils/trainingDataset';
+import { downloadFile } from '../utils/download';
+import { useModelTraining } from '../hooks/useModelTraining';
+import ClassifierBackendFields from './ClassifierBackendFields';
+
+interface TrainingDialogProps {
+  open: boolean;
+  montage: Montage;
+  collector: DatasetCollector;
+  // Features are normalized against this baseline when training
+  profile: CalibrationProfile | null;
+  // Labeling needs live epochs from a connected source
+  canCollect: boolean;
+  onClose: () => void;
+  // Receives the stored models and the id of the one just saved
+  onModelSaved: (models: EmotionModelFile[], id: string) => void;
+}
+
+const ITERATION_OPTIONS = [100, 200, 500, 1000, 2000, 5000, 10000];
+
+const capitalize = (label: string) => label.charAt(0).toUpperCase() + label.slice(1);
+
+const TrainingDialog: React.FC<TrainingDialogProps> = ({
+  open,
+  montage,
+  collector,
+  profile,
+  canCollect,
+  onClose,
+  onModelSaved
+}) => {
+  const [, setRevision] = useState(0);
+  const [selfReportLabel, setSelfReportLabel] = useState('neutral');
+  // -1: no prompted session running, otherwise the current STIMULUS_PROTOCOL step
+  const [stimulusIndex, setStimulusIndex] = useState(-1);
+  const [elapsed, setElapsed] = useState(0);
+  const [name, setName] = useState('');
+  const [options, setOptions] = useState<ClassifierTrainingOptions>(DEFAULT_TRAINING_OPTIONS);
+  const [hiddenLayers, setHiddenLayers] = useState(DEFAULT_TRAINING_OPTIONS.hiddenLayers.join(', '));
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const training = useModelTraining();
+
+  const dataset = collector.current;
+  const counts = dataset ? countLabels(dataset) : {};
+  const labelCount = Object.keys(counts).length;
+  const stimulus = stimulusIndex >= 0 ? STIMULUS_PROTOCOL[stimulusIndex] : null;
+  const isTraining = training.status === 'training';
+  const backend = getClassifierBackend(options.backend);
+
+  // Re-render whenever the collector labels an epoch or changes label
+  useEffect(() => collector.onChange(() => setRevision(prev => prev + 1)), [collector]);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    if (!collector.current || collector.current.montageId !== montage.id) {
+      collector.startSession(montage);
+    }
+  }, [open, collector, montage]);
+
+  // Step through the prompted session, labeling each step with its emotion
+  useEffect(() => {
+    if (!stimulus) return;
+
+    collector.setLabel(stimulus.label, 'stimulus');
+    setElapsed(0);
+
+    let seconds = 0;
+    const intervalId = setInterval(() => {
+      seconds += 1;
+      setElapsed(seconds);
+
+      if (seconds >= stimulus.durationSeconds) {
+        clearInterval(intervalId);
+        setStimulusIndex(prevIndex => prevIndex + 1 < STIMULUS_PROTOCOL.length ? prevIndex + 1 : -1);
+      }
+    }, 1000);
+
+    return () => {
+      clearInterval(intervalId);
+      collector.setLabel(null);
+    };
+  }, [stimulus, collector]);
+
+  // A prompted session cannot outlive the dialog or the connection
+  useEffect(() => {
+    if (!open || !canCollect) setStimulusIndex(-1);
+  }, [open, canCollect]);
+
+  const toggleSelfReport = () => {
+    collector.setLabel(collector.activeLabel ? null : selfReportLabel, 'self-report');
+  };
+
+  const handleOptionsChange = (next: ClassifierTrainingOptions) => {
+    if (next.backend !== options.backend) setHiddenLayers(next.hiddenLayers.join(', '));
+    setOptions(next);
+  };
+
+  const handleTrain = () => {
+    if (!dataset) return;
+
+    const layers = parseHiddenLayers(hiddenLayers);
+    if (backend.neural && !layers) {
+      setError('Hidden layers must be a comma separated list of positive sizes, e.g. "10, 10"');
+      return;
+    }
+
+    const trainingOptions = { ...options, hiddenLayers: layers || options.hiddenLayers };
+    setError(null);
+    training.train({
+      name: name.trim() || `Personal model ${new Date().toLocaleString()}`,
+      montage,
+      normalization: profileNormalization(profile),
+      rows: datasetToRows(dataset, dataset.epochs, trainingContextLength(trainingOptions)),
+      options: trainingOptions
+    });
+  };
+
+  const handleSave = () => {
+    if (!training.model) return;
+    onModelSaved(saveEmotionModel(training.model), training.model.metadata.id);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setError(null);
+      collector.replaceDataset(parseDataset(await file.text()));
+    } catch (err: any) {
+      setError(`Could not import ${file.name}: ${err.message}`);
+    }
+  };
+
+  const handleExport = () => {
+    if (!dataset) return;
+    downloadFile(`emotion-dataset-${montage.id}.json`, JSON.stringify(dataset), 'application/json');
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Delete all labeled epochs for this headset?')) {
+      collector.replaceDataset(createDataset(montage));
+    }
+  };
+
+  const lastProgress = training.progress[training.progress.length - 1];
+  const maxError = Math.max(1e-6, ...training.progress.map(point => point.error));
+
+  return (
+    <Dialog open={open} onClose={stimulus || isTraining ? undefined : onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Personal Model Training</DialogTitle>
+
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="subtitle2" gutterBottom>
+          Labeled data for the {montage.name}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {dataset ? `${dataset.epochs.length} clean epochs from ${dataset.sessions.length} sessions` : 'No data yet'}
+        </Typography>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 1 }}>
+          {EMOTIONS.map(label => (
+            <Chip key={label} size="small" label={`${capitalize(label)}: ${counts[label] || 0}`} />
+          ))}
+        </Box>
+        <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+          <Button size="small" onClick={() => fileInput.current?.click()} disabled={!!stimulus}>
+            Import
+          </Button>
+          <Button size="small" onClick={handleExport} disabled={!dataset || dataset.epochs.length === 0}>
+            Export
+          </Button>
+          <Button size="small" color="error" onClick={handleClear} disabled={!!stimulus || !dataset?.epochs.length}>
+            Clear
+          </Button>
+          {/* Opens in a new tab so the live session keeps running */}
+          <Button size="small" href="/evaluation" target="_blank" disabled={labelCount < 2}>
+            Evaluate
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,application/json"
+            style={{ display: 'none' }}
+            onChange={handleImport}
+          />
+        </Box>
+
+        <Divider sx={{ mb: 2 }} />
+
+        <Typography variant="subtitle2" gutterBottom>
+          Label what you feel
+        </Typography>
+        {!canCollect && (
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            Connect an EEG source to collect labeled epochs.
+          </Typography>
+        )}
+        <Box sx={{ display: 'flex', gap: 1, mb: 1 }}>
+          <TextField
+            select
+            size="small"
+            label="Self-report"
+            value={collector.activeSource === 'self-report' ? collector.activeLabel : selfReportLabel}
+            onChange={(e) => setSelfReportLabel(e.target.value)}
+            disabled={!canCollect || !!collector.activeLabel}
+            sx={{ minWidth: 140 }}
+          >
+            {EMOTIONS.map(label => (
+              <MenuItem key={label} value={label}>{capitalize(label)}</MenuItem>
+            ))}
+          </TextField>
+          <Button
+            variant={collector.activeSource === 'self-report' ? 'contained' : 'outlined'}
+            onClick={toggleSelfReport}
+            disabled={!canCollect || !!stimulus}
+          >
+            {collector.activeSource === 'self-report' ? 'Stop labeling' : 'Start labeling'}
+          </Button>
+          <Button
+            variant="outlined"
+            onClick={() => setStimulusIndex(stimulus ? -1 : 0)}
+            disabled={!canCollect || collector.activeSource === 'self-report'}
+          >
+            {stimulus ? 'Stop prompts' : 'Prompted session'}
+          </Button>
+        </Box>
+
+        {stimulus && (
+          <Box sx={{ mb: 1 }}>
+            <Typography variant="body2" gutterBottom>
+              Prompt {stimulusIndex + 1} of {STIMULUS_PROTOCOL.length} ({stimulus.label}): {stimulus.prompt}
+            </Typography>
+            <LinearProgress variant="determinate" value={(elapsed / stimulus.durationSeconds) * 100} />
+          </Box>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        <Typography variant="subtitle2" gutterBottom>
+          Train
+        </Typography>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <TextField
+            size="small"
+            label="Model name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={isTraining}
+          />
+          <ClassifierBackendFields options={options} onChange={handleOptionsChange} disabled={isTraining} />
+          {backend.neural && (
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <TextField
+                size="small"
+                label="Hidden layers"
+                value={hiddenLayers}
+                onChange={(e) => setHiddenLayers(e.target.value)}
+                disabled={isTraining}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                select
+                size="small"
+                label="Iterations"
+                value={options.iterations}
+                onChange={(e) => setOptions({ ...options, iterations: Number(e.target.value) })}
+                disabled={isTraining}
+                sx={{ flex: 1 }}
+              >
+                {ITERATION_OPTIONS.map(option => (
+                  <MenuItem key={option} value={option}>{option}</MenuItem>
+                ))}
+              </TextField>
+            </Box>
+          )}
+          <Typography variant="caption" color="text.secondary">
+            {profile ? `Features are scaled against the baseline "${profile.name}"` : 'Features use fixed-range normalization'}
+          </Typography>
+
+          {training.status !== 'idle' && (
+            <Box>
+              <LinearProgress
+                variant={lastProgress ? 'determinate' : 'indeterminate'}
+                value={lastProgress ? Math.min(100, (lastProgress.iterations / (backend.neural ? options.iterations : 1)) * 100) : 0}
+                sx={{ mb: 1 }}
+              />
+              <Typography variant="caption" color="text.secondary">
+                {lastProgress
+                  ? `Iteration ${lastProgress.iterations}, training error ${lastProgress.error.toFixed(4)}`
+                  : 'Starting...'}
+                {training.status === 'done' && training.model &&
+                  ` · finished after ${training.model.metadata.training.iterations} iterations`}
+              </Typography>
+              {training.progress.length > 1 && (
+                <Box sx={{ height: 100, mt: 1, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+                  <svg width="100%" height="100%" viewBox="0 0 100 100" preserveAspectRatio="none">
+                    <polyline
+                      points={training.progress.map((point, i) =>
+                        `${i * (100 / (training.progress.length - 1))},${100 - (point.error / maxError) * 95}`
+                      ).join(' ')}
+                      stroke="#1976d2"
+                      strokeWidth="1"
+                      fill="none"
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  </svg>
+                </Box>
+              )}
+            </Box>
+          )}
+
+          {training.error && (
+            <Alert severity="error">
+              {training.error}
+            </Alert>
+          )}
+        </Box>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} disabled={!!stimulus || isTraining}>
+          Close
+        </Button>
+        {isTraining ? (
+          <Button onClick={training.cancel}>
+            Cancel training
+          </Button>
+        ) : (
+          <Button onClick={handleTrain} disabled={!!stimulus || labelCount < 2}>
+            Train
+          </Button>
+        )}
+        <Button variant="contained" onClick={handleSave} disabled={training.status !== 'done'}>
+          Save Model
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default TrainingDialog;
@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { EvaluationReport } from '../utils/classifierEvaluation';
+import { EvaluateMessage, TrainingEvent } from '../workers/modelTrainingProtocol';
+
+export type EvaluationStatus = 'idle' | 'running' | 'done' | 'error';
+
+export interface ClassifierEvaluationHook {
+  evaluate: (request: Omit<EvaluateMessage, 'type'>) => void;
+  cancel: () => void;
+  status: EvaluationStatus;
+  completedFolds: number;
+  totalFolds: number;
+  report: EvaluationReport | null;
+  error: string | null;
+}
+
+/**
+ * Custom hook cross-validating classifier settings in the model training
+ * worker, one network per fold
+ */
+export function useClassifierEvaluation(): ClassifierEvaluationHook {
+  const [status, setStatus] = useState<EvaluationStatus>('idle');
+  const [completedFolds, setCompletedFolds] = useState(0);
+  const [totalFolds, setTotalFolds] = useState(0);
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const worker = useRef<Worker | null>(null);
+
+  const stopWorker = useCallback(() => {
+    worker.current?.terminate();
+    worker.current = null;
+  }, []);
+
+  useEffect(() => stopWorker, [stopWorker]);
+
+  const evaluate = useCallback((request: Omit<EvaluateMessage, 'type'>) => {
+    stopWorker();
+    setStatus('running');
+    setCompletedFolds(0);
+    setTotalFolds(0);
+    setReport(null);
+    setError(null);
+
+    const evaluationWorker = new Worker(new URL('../workers/modelTraining.worker.ts', import.meta.url));
+    evaluationWorker.onmessage = (event: MessageEvent<TrainingEvent>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'fold':
+          setCompletedFolds(message.completed);
+          setTotalFolds(message.total);
+          break;
+        case 'evaluation':
+          setReport(message.report);
+          setStatus('done');
+          stopWorker();
+          break;
+        case 'error':
+          setError(message.message);
+          setStatus('error');
+          stopWorker();
+          break;
+      }
+    };
+
+    worker.current = evaluationWorker;
+    evaluationWorker.postMessage({ type: 'evaluate', ...request });
+  }, [stopWorker]);
+
+  const cancel = useCallback(() => {
+    stopWorker();
+    setStatus('idle');
+  }, [stopWorker]);
+
+  return {
+    evaluate,
+    cancel,
+    status,
+    completedFolds,
+    totalFolds,
+    report,
+    error
+  };
+}
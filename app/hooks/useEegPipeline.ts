@@ -0,0 +1,221 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { EegChannelData } from '../utils/eegProcessor';
+import { Montage } from '../utils/montage';
+import { FilterSettings } from '../utils/eegFilters';
+import { ArtifactReport } from '../utils/artifactDetector';
+import { PackedSamples } from '../utils/ringBuffer';
+import { EmotionModelFile, EmotionModelMetadata } from '../utils/emotionModel';
+import { SmoothingSettings } from '../utils/emotionSmoothing';
+import {
+  ClassifierSource,
+  ClassifierStatus,
+  EpochResultMessage,
+  PipelineEvent,
+  PipelineRequest,
+  packSamples
+} from '../workers/eegPipelineProtocol';
+
+export interface PlotTraces {
+  raw: number[];
+  filtered: number[];
+}
+
+export interface EpochAnalysis {
+  report: ArtifactReport | null;
+  features: Record<string, number> | null;
+}
+
+export interface EegPipelineOptions {
+  montage: Montage;
+  classifier: ClassifierSource;
+  filterSettings: FilterSettings;
+  // Probability below which predictions are reported as uncertain
+  confidenceThreshold: number;
+  smoothing: SmoothingSettings;
+  // Called for every screened epoch, automatic or requested
+  onEpoch: (result: EpochResultMessage) => void;
+  // Called with the most recent filtered value of every channel
+  onLatest?: (values: number[]) => void;
+  onError?: (message: string) => void;
+  // Called with a freshly trained prototype model
+  onModelTrained?: (model: EmotionModelFile) => void;
+}
+
+export interface EegPipelineHook {
+  // Forward a batch; with returnFiltered the filtered batch is resolved once processed
+  pushSamples: (samples: EegChannelData[], returnFiltered?: boolean) => Promise<PackedSamples> | null;
+  reset: () => void;
+  classifyNow: () => void;
+  analyzeLatestEpoch: () => Promise<EpochAnalysis>;
+  plot: PlotTraces;
+  classifierStatus: ClassifierStatus;
+  // Metadata of the loaded model
+  activeModel: EmotionModelMetadata | null;
+  classifierError: string | null;
+  isTraining: boolean;
+  isReady: boolean;
+}
+
+const EMPTY_PLOT: PlotTraces = { raw: [], filtered: [] };
+
+/**
+ * Custom hook running the EEG processing pipeline in a Web Worker.
+ * Filtering, artifact screening, feature extraction and classification all
+ * happen in the worker; the component only receives results and decimated
+ * plot traces.
+ */
+export function useEegPipeline({
+  montage,
+  classifier,
+  filterSettings,
+  confidenceThreshold,
+  smoothing,
+  onEpoch,
+  onLatest,
+  onError,
+  onModelTrained
+}: EegPipelineOptions): EegPipelineHook {
+  const [plot, setPlot] = useState<PlotTraces>(EMPTY_PLOT);
+  const [classifierStatus, setClassifierStatus] = useState<ClassifierStatus>('idle');
+  const [activeModel, setActiveModel] = useState<EmotionModelMetadata | null>(null);
+  const [classifierError, setClassifierError] = useState<string | null>(null);
+  const worker = useRef<Worker | null>(null);
+  const seq = useRef(0);
+  const pendingFiltered = useRef(new Map<number, (samples: PackedSamples) => void>());
+  const pendingAnalyses = useRef(new Map<number, (analysis: EpochAnalysis) => void>());
+  const callbacks = useRef({ onEpoch, onLatest, onError, onModelTrained });
+  const channelCount = useRef(montage.channels.length);
+
+  callbacks.current = { onEpoch, onLatest, onError, onModelTrained };
+  channelCount.current = montage.channels.length;
+
+  const post = useCallback((message: PipelineRequest, transfer: Transferable[] = []) => {
+    worker.current?.postMessage(message, transfer);
+  }, []);
+
+  // Start the worker once; configuration is sent by the effects below
+  useEffect(() => {
+    const pipelineWorker = new Worker(new URL('../workers/eegPipeline.worker.ts', import.meta.url));
+    const filteredRequests = pendingFiltered.current;
+    const analysisRequests = pendingAnalyses.current;
+
+    pipelineWorker.onmessage = (event: MessageEvent<PipelineEvent>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'classifier':
+          setClassifierStatus(message.status);
+          setActiveModel(message.model || null);
+          setClassifierError(message.status === 'error' ? message.error || 'Unknown classifier error' : null);
+          break;
+        case 'model':
+          callbacks.current.onModelTrained?.(message.model);
+          break;
+        case 'plot':
+          setPlot({ raw: message.raw, filtered: message.filtered });
+          if (message.latest.length > 0) callbacks.current.onLatest?.(message.latest);
+          break;
+        case 'epoch':
+          callbacks.current.onEpoch(message);
+          break;
+        case 'filtered': {
+          const resolve = filteredRequests.get(message.seq);
+          filteredRequests.delete(message.seq);
+          resolve?.({ timestamps: message.timestamps, values: message.values });
+          break;
+        }
+        case 'epochAnalysis': {
+          const resolve = analysisRequests.get(message.requestId);
+          analysisRequests.delete(message.requestId);
+          resolve?.({ report: message.report, features: message.features });
+          break;
+        }
+        case 'error':
+          callbacks.current.onError?.(message.message);
+          break;
+      }
+    };
+
+    worker.current = pipelineWorker;
+
+    return () => {
+      pipelineWorker.terminate();
+      worker.current = null;
+      filteredRequests.clear();
+      analysisRequests.forEach(resolve => resolve({ report: null, features: null }));
+      analysisRequests.clear();
+    };
+  }, []);
+
+  // Sent together so the worker never pairs a model with the wrong montage
+  useEffect(() => {
+    post({ type: 'configure', montage, classifier });
+  }, [post, montage, classifier]);
+
+  useEffect(() => {
+    setPlot(EMPTY_PLOT);
+  }, [montage]);
+
+  useEffect(() => {
+    post({ type: 'configure', filterSettings });
+  }, [post, filterSettings]);
+
+  useEffect(() => {
+    post({ type: 'configure', confidenceThreshold });
+  }, [post, confidenceThreshold]);
+
+  useEffect(() => {
+    post({ type: 'configure', smoothing });
+  }, [post, smoothing]);
+
+  const pushSamples = useCallback((samples: EegChannelData[], returnFiltered = false) => {
+    if (!worker.current || samples.length === 0) return null;
+
+    const batchSeq = ++seq.current;
+    const packed = packSamples(samples, channelCount.current);
+    const filtered = returnFiltered
+      ? new Promise<PackedSamples>(resolve => pendingFiltered.current.set(batchSeq, resolve))
+      : null;
+
+    post(
+      { type: 'samples', seq: batchSeq, returnFiltered, ...packed },
+      [packed.timestamps.buffer, packed.values.buffer]
+    );
+
+    return filtered;
+  }, [post]);
+
+  // Drop buffered signal and filter state, e.g. after a replay seeks or loops
+  const reset = useCallback(() => {
+    post({ type: 'reset' });
+    setPlot(EMPTY_PLOT);
+  }, [post]);
+
+  const classifyNow = useCallback(() => post({ type: 'classify' }), [post]);
+
+  const analyzeLatestEpoch = useCallback(() => {
+    const requestId = ++seq.current;
+    return new Promise<EpochAnalysis>(resolve => {
+      if (!worker.current) {
+        resolve({ report: null, features: null });
+        return;
+      }
+
+      pendingAnalyses.current.set(requestId, resolve);
+      post({ type: 'analyzeEpoch', requestId });
+    });
+  }, [post]);
+
+  return {
+    pushSamples,
+    reset,
+    classifyNow,
+    analyzeLatestEpoch,
+    plot,
+    classifierStatus,
+    activeModel,
+    classifierError,
+    isTraining: classifierStatus === 'training',
+    isReady: classifierStatus === 'ready'
+  };
+}
@@ -0,0 +1,29 @@
+import { createContext, useCallback, useContext, useSyncExternalStore } from 'react';
+import { EmotionState, EmotionStore } from '../utils/emotionStore';
+
+// Provided once at the page level; components read and update the shared emotion state through it
+export const EmotionStoreContext = createContext<EmotionStore | null>(null);
+
+/**
+ * The emotion store of the surrounding EmotionStoreContext provider
+ */
+export function useEmotionStore(): EmotionStore {
+  const store = useContext(EmotionStoreContext);
+  if (!store) {
+    throw new Error('useEmotionStore must be used inside an EmotionStoreContext provider');
+  }
+  return store;
+}
+
+/**
+ * Custom hook subscribing to a slice of the emotion state. The component
+ * re-renders only when the selected value changes, so selectors should
+ * return parts of the state (or primitives) rather than build new objects.
+ */
+export function useEmotionState<T>(selector: (state: EmotionState) => T): T {
+  const store = useEmotionStore();
+  const subscribe = useCallback((listener: () => void) => store.onChange(listener), [store]);
+  const getSnapshot = () => selector(store.getState());
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
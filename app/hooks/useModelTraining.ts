@@ -0,0 +1,82 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { EmotionModelFile } from '../utils/emotionModel';
+import { TrainingProgress } from '../utils/classifierBackend';
+import { TrainMessage, TrainingEvent } from '../workers/modelTrainingProtocol';
+
+export type TrainingStatus = 'idle' | 'training' | 'done' | 'error';
+
+export interface ModelTrainingHook {
+  train: (request: Omit<TrainMessage, 'type'>) => void;
+  cancel: () => void;
+  status: TrainingStatus;
+  // Training error reported every few iterations, for the loss curve
+  progress: TrainingProgress[];
+  model: EmotionModelFile | null;
+  error: string | null;
+}
+
+/**
+ * Custom hook training a personal emotion model in a Web Worker, exposing
+ * progress as it happens
+ */
+export function useModelTraining(): ModelTrainingHook {
+  const [status, setStatus] = useState<TrainingStatus>('idle');
+  const [progress, setProgress] = useState<TrainingProgress[]>([]);
+  const [model, setModel] = useState<EmotionModelFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const worker = useRef<Worker | null>(null);
+
+  const stopWorker = useCallback(() => {
+    worker.current?.terminate();
+    worker.current = null;
+  }, []);
+
+  // Never leave a training run going after unmount
+  useEffect(() => stopWorker, [stopWorker]);
+
+  const train = useCallback((request: Omit<TrainMessage, 'type'>) => {
+    stopWorker();
+    setStatus('training');
+    setProgress([]);
+    setModel(null);
+    setError(null);
+
+    const trainingWorker = new Worker(new URL('../workers/modelTraining.worker.ts', import.meta.url));
+    trainingWorker.onmessage = (event: MessageEvent<TrainingEvent>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'progress':
+          setProgress(prev => [...prev, { iterations: message.iterations, error: message.error }]);
+          break;
+        case 'done':
+          setModel(message.model);
+          setStatus('done');
+          stopWorker();
+          break;
+        case 'error':
+          setError(message.message);
+          setStatus('error');
+          stopWorker();
+          break;
+      }
+    };
+
+    worker.current = trainingWorker;
+    trainingWorker.postMessage({ type: 'train', ...request });
+  }, [stopWorker]);
+
+  const cancel = useCallback(() => {
+    stopWorker();
+    setStatus('idle');
+  }, [stopWorker]);
+
+  return {
+    train,
+    cancel,
+    status,
+    progress,
+    model,
+    error
+  };
+}
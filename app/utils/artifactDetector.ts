@@ -0,0 +1,210 @@
+/**
+ * Artifact Detector Utility
+ *
+ * This module screens EEG epochs for non-neural contamination before they
+ * reach feature extraction. Each epoch is checked for excessive amplitude and
+ * electrode pops, clipping, flat channels, high-frequency muscle power and the
+ * frontal shape of eye blinks, and is flagged with the reasons it failed.
+ * Clipping is judged on the unfiltered signal against the amplifier's input
+ * range, since filtering removes the saturated plateaus. Amplitude, flatline
+ * and blink checks use the unfiltered signal with its electrode offset and
+ * linear drift removed, which keeps the blink waveform intact; the muscle
+ * check uses the filtered one.
+ */
+
+import { EegEpoch, epochChannel, epochSize } from './ringBuffer';
+import { welchPsd, bandPower } from './spectralAnalysis';
+import { Montage, getChannelsInRegion } from './montage';
+
+export type ArtifactReason = 'amplitude' | 'clipping' | 'flatline' | 'muscle' | 'blink';
+
+export interface ArtifactThresholds {
+  // Maximum peak-to-peak amplitude per channel in µV
+  peakToPeak: number;
+  // Maximum jump between consecutive samples in µV (electrode pops)
+  maxStep: number;
+  // Share of the montage's input range treated as amplifier saturation
+  clipFraction: number;
+  // Minimum standard deviation in µV before a channel counts as flat
+  minStdDev: number;
+  // Maximum share of 20-45 Hz power in the 1-45 Hz total
+  muscleRatio: number;
+  // Minimum frontal deflection in µV for a blink
+  blinkAmplitude: number;
+}
+
+export const DEFAULT_ARTIFACT_THRESHOLDS: ArtifactThresholds = {
+  peakToPeak: 150,
+  maxStep: 100,
+  clipFraction: 0.95,
+  minStdDev: 0.5,
+  muscleRatio: 0.5,
+  blinkAmplitude: 70
+};
+
+export interface ArtifactReport {
+  rejected: boolean;
+  reasons: ArtifactReason[];
+  // Labels of the channels that triggered each reason
+  channels: Partial<Record<ArtifactReason, string[]>>;
+}
+
+/**
+ * The signal minus its least-squares straight line: removes the electrode
+ * offset and slow drift that would otherwise dominate amplitude measures
+ */
+function detrend(signal: number[]): number[] {
+  const n = signal.length;
+  const meanX = (n - 1) / 2;
+  const meanY = signal.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  signal.forEach((value, i) => {
+    covariance += (i - meanX) * (value - meanY);
+    varianceX += (i - meanX) ** 2;
+  });
+  const slope = varianceX > 0 ? covariance / varianceX : 0;
+  return signal.map((value, i) => value - meanY - slope * (i - meanX));
+}
+
+/**
+ * Largest absolute deviation from the channel median and the number of
+ * samples spent above half of that deviation
+ */
+function measureDeflection(signal: number[]): { peak: number; width: number } {
+  const sorted = [...signal].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const deviations = signal.map(value => Math.abs(value - median));
+  const peak = Math.max(...deviations);
+  const width = deviations.filter(value => value >= peak / 2).length;
+  return { peak, width };
+}
+
+/**
+ * Check a single epoch of EEG samples for artifacts. `raw` holds the
+ * unfiltered samples for the same time span; without it the filtered epoch
+ * is used for every check. Clipping is only checked when the montage states
+ * its input range.
+ */
+export function detectArtifacts(
+  epoch: EegEpoch,
+  montage: Montage,
+  thresholds: ArtifactThresholds = DEFAULT_ARTIFACT_THRESHOLDS,
+  raw: EegEpoch = epoch
+): ArtifactReport {
+  const { sampleRate } = montage;
+  const channels: Partial<Record<ArtifactReason, string[]>> = {};
+  const flag = (reason: ArtifactReason, channel: string) => {
+    channels[reason] = [...(channels[reason] || []), channel];
+  };
+
+  if (epochSize(epoch) < 2 || epochSize(raw) < 2) {
+    return { rejected: false, reasons: [], channels };
+  }
+
+  const signals: Record<string, number[]> = {};
+  const clipLevel = montage.inputRange !== undefined ? montage.inputRange * thresholds.clipFraction : Infinity;
+
+  montage.channels.forEach((channel, index) => {
+    const unfiltered = Array.from(epochChannel(raw, index));
+    const signal = detrend(unfiltered);
+    signals[channel] = signal;
+
+    const min = Math.min(...signal);
+    const max = Math.max(...signal);
+    let maxStep = 0;
+    for (let i = 1; i < signal.length; i++) {
+      maxStep = Math.max(maxStep, Math.abs(signal[i] - signal[i - 1]));
+    }
+
+    if (max - min > thresholds.peakToPeak || maxStep > thresholds.maxStep) {
+      flag('amplitude', channel);
+    }
+
+    if (unfiltered.some(value => Math.abs(value) >= clipLevel)) {
+      flag('clipping', channel);
+    }
+
+    // The detrended signal has zero mean
+    const variance = signal.reduce((sum, value) => sum + value ** 2, 0) / signal.length;
+    if (Math.sqrt(variance) < thresholds.minStdDev) {
+      flag('flatline', channel);
+    }
+
+    // Muscle power lives above 20 Hz, so it needs a sample rate that can see it
+    if (sampleRate / 2 > 45) {
+      const filtered = Array.from(epochChannel(epoch, index));
+      const spectrum = welchPsd(filtered, sampleRate, { segmentLength: Math.min(filtered.length, sampleRate) });
+      const total = bandPower(spectrum, 1, 45);
+      const highFrequency = bandPower(spectrum, 20, 45);
+      if (total > 0 && highFrequency / total > thresholds.muscleRatio) {
+        flag('muscle', channel);
+      }
+    }
+  });
+
+  // Blinks: a large, slow (100-500 ms) deflection on the frontal channels
+  // that is much weaker over the back of the head
+  const frontalChannels = getChannelsInRegion(montage, ['frontal']);
+  const posteriorChannels = getChannelsInRegion(montage, ['parietal', 'occipital']);
+  const posteriorPeak = posteriorChannels.length
+    ? Math.max(...posteriorChannels.map(channel => measureDeflection(signals[channel]).peak))
+    : 0;
+  const minWidth = Math.max(1, Math.round(0.1 * sampleRate));
+  const maxWidth = Math.max(minWidth, Math.round(0.5 * sampleRate));
+
+  frontalChannels.forEach(channel => {
+    const { peak, width } = measureDeflection(signals[channel]);
+    if (
+      peak > thresholds.blinkAmplitude &&
+      posteriorPeak < peak / 2 &&
+      width >= minWidth &&
+      width <= maxWidth
+    ) {
+      flag('blink', channel);
+    }
+  });
+
+  const reasons = Object.keys(channels) as ArtifactReason[];
+
+  return {
+    rejected: reasons.length > 0,
+    reasons,
+    channels
+  };
+}
+
+export interface ArtifactStats {
+  total: number;
+  rejected: number;
+  reasonCounts: Record<ArtifactReason, number>;
+}
+
+export const EMPTY_ARTIFACT_STATS: ArtifactStats = {
+  total: 0,
+  rejected: 0,
+  reasonCounts: { amplitude: 0, clipping: 0, flatline: 0, muscle: 0, blink: 0 }
+};
+
+/**
+ * Fold an epoch report into running rejection statistics
+ */
+export function updateArtifactStats(stats: ArtifactStats, report: ArtifactReport): ArtifactStats {
+  const reasonCounts = { ...stats.reasonCounts };
+  report.reasons.forEach(reason => {
+    reasonCounts[reason] += 1;
+  });
+
+  return {
+    total: stats.total + 1,
+    rejected: stats.rejected + (report.rejected ? 1 : 0),
+    reasonCounts
+  };
+}
+
+/**
+ * Fraction of epochs rejected so far (0-1)
+ */
+export function getRejectionRate(stats: ArtifactStats): number {
+  return stats.total > 0 ? stats.rejected / stats.total : 0;
+}
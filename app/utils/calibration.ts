@@ -0,0 +1,203 @@
+/**
+ * Calibration Utility
+ *
+ * This module handles per-user baseline calibration. A short guided resting
+ * recording (eyes open, then eyes closed) yields per-feature statistics, and
+ * features are then normalized against that baseline with z-score or robust
+ * (median/IQR) scaling instead of a fixed range. Profiles are kept in the
+ * browser's localStorage so they survive reloads and can be picked when
+ * connecting.
+ */
+
+import { getFeatureLayout } from './eegProcessor';
+import { Montage } from './montage';
+
+export type CalibrationPhase = 'eyes-open' | 'eyes-closed';
+
+export type NormalizationMethod = 'zscore' | 'robust';
+
+export interface CalibrationStep {
+  phase: CalibrationPhase;
+  durationSeconds: number;
+  instruction: string;
+}
+
+// Guided resting-state baseline, about three minutes in total
+export const CALIBRATION_PROTOCOL: CalibrationStep[] = [
+  {
+    phase: 'eyes-open',
+    durationSeconds: 90,
+    instruction: 'Sit still, relax and keep your eyes open, looking at a fixed point.'
+  },
+  {
+    phase: 'eyes-closed',
+    durationSeconds: 90,
+    instruction: 'Keep sitting still and relaxed, now with your eyes closed.'
+  }
+];
+
+export interface FeatureStatistics {
+  mean: number;
+  std: number;
+  median: number;
+  iqr: number;
+}
+
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  montageId: string;
+  method: NormalizationMethod;
+  // Feature layout the statistics were computed for
+  featureLayout: string[];
+  statistics: Record<string, FeatureStatistics>;
+  // Number of clean epochs recorded in each phase
+  epochCounts: Record<CalibrationPhase, number>;
+}
+
+const STORAGE_KEY = 'emotion-app.calibration-profiles';
+
+/**
+ * Value at quantile q (0-1) of an ascending sorted array, linearly interpolated
+ */
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Compute per-feature statistics over a set of feature records
+ */
+export function computeFeatureStatistics(
+  rows: Record<string, number>[],
+  layout: string[]
+): Record<string, FeatureStatistics> {
+  const statistics: Record<string, FeatureStatistics> = {};
+
+  layout.forEach(key => {
+    const values = rows.map(row => row[key]).filter(value => Number.isFinite(value));
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, values.length - 1);
+
+    statistics[key] = {
+      mean,
+      std: Math.sqrt(variance),
+      median: quantile(sorted, 0.5),
+      iqr: quantile(sorted, 0.75) - quantile(sorted, 0.25)
+    };
+  });
+
+  return statistics;
+}
+
+/**
+ * Build a calibration profile from the feature records collected in each phase
+ */
+export function buildCalibrationProfile(
+  name: string,
+  montage: Montage,
+  featuresByPhase: Record<CalibrationPhase, Record<string, number>[]>,
+  method: NormalizationMethod = 'robust'
+): CalibrationProfile {
+  const rows = [...featuresByPhase['eyes-open'], ...featuresByPhase['eyes-closed']];
+
+  if (rows.length < 2) {
+    throw new Error('Not enough clean epochs were recorded to build a baseline');
+  }
+
+  const featureLayout = getFeatureLayout(montage);
+
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    createdAt: Date.now(),
+    montageId: montage.id,
+    method,
+    featureLayout,
+    statistics: computeFeatureStatistics(rows, featureLayout),
+    epochCounts: {
+      'eyes-open': featuresByPhase['eyes-open'].length,
+      'eyes-closed': featuresByPhase['eyes-closed'].length
+    }
+  };
+}
+
+/**
+ * Check that a profile was recorded for the same feature layout as the montage
+ */
+export function isProfileCompatible(profile: CalibrationProfile, montage: Montage): boolean {
+  const layout = getFeatureLayout(montage);
+  return profile.montageId === montage.id &&
+    profile.featureLayout.length === layout.length &&
+    profile.featureLayout.every((key, index) => key === layout[index]);
+}
+
+/**
+ * Normalize features against a calibration baseline.
+ *
+ * Each feature is scaled to a z-score (or a robust score using median and
+ * IQR) and squashed through a logistic so the network still sees 0-1 inputs,
+ * with the user's resting baseline sitting at 0.5.
+ */
+export function normalizeWithProfile(
+  features: Record<string, number>,
+  profile: CalibrationProfile
+): Record<string, number> {
+  const normalized: Record<string, number> = {};
+  const epsilon = 1e-6;
+
+  Object.keys(features).forEach(key => {
+    const stats = profile.statistics[key];
+    if (!stats) {
+      normalized[key] = 0.5;
+      return;
+    }
+
+    // 1.349 * sigma is the IQR of a normal distribution
+    const score = profile.method === 'robust'
+      ? (features[key] - stats.median) / (stats.iqr / 1.349 + epsilon)
+      : (features[key] - stats.mean) / (stats.std + epsilon);
+
+    normalized[key] = 1 / (1 + Math.exp(-score));
+  });
+
+  return normalized;
+}
+
+/**
+ * Load all stored calibration profiles
+ */
+export function loadCalibrationProfiles(): CalibrationProfile[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading calibration profiles:', error);
+    return [];
+  }
+}
+
+/**
+ * Store a calibration profile, replacing any profile with the same id
+ */
+export function saveCalibrationProfile(profile: CalibrationProfile): CalibrationProfile[] {
+  const profiles = [...loadCalibrationProfiles().filter(p => p.id !== profile.id), profile];
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+/**
+ * Remove a stored calibration profile
+ */
+export function deleteCalibrationProfile(id: string): CalibrationProfile[] {
+  const profiles = loadCalibrationProfiles().filter(p => p.id !== id);
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+}
@@ -0,0 +1,155 @@
+/**
+ * Chat Client Utility
+ *
+ * This module sends chat turns from the browser to the /api/chat route
+ * (see chatProtocol.ts), trimming the conversation to what the route accepts:
+ * the oldest messages are dropped until the request fits the route's size
+ * limit. Replies come back whole, or streamed as they are generated.
+ */
+
+import axios from 'axios';
+import { EmotionPrediction } from './emotionPrediction';
+import {
+  CHAT_API_PATH,
+  ChatMessage,
+  ChatReply,
+  ChatRequest,
+  ChatStreamEvent,
+  MAX_CHAT_MESSAGES,
+  MAX_CHAT_MESSAGE_LENGTH,
+  MAX_CHAT_REQUEST_BYTES
+} from './chatProtocol';
+import { SseParser } from './serverSentEvents';
+
+// Status of the route when no LLM API key is configured on the server
+const NOT_CONFIGURED_STATUS = 503;
+
+/**
+ * Request for the conversation, trimmed to the route's limits. Long assistant
+ * replies are shortened, as they only serve as context; user messages are
+ * sent whole, so one over the length limit is rejected by the route rather
+ * than answered in part. The newest message is always kept; within the length
+ * limit it is far below the size limit.
+ */
+function trimRequest(messages: ChatMessage[], prediction: EmotionPrediction | null, stream: boolean = false): ChatRequest {
+  const request: ChatRequest = {
+    messages: messages
+      .slice(-MAX_CHAT_MESSAGES)
+      .map(message => ({
+        role: message.role,
+        content: message.role === 'assistant' ? message.content.slice(0, MAX_CHAT_MESSAGE_LENGTH) : message.content
+      })),
+    prediction,
+    stream
+  };
+
+  const encoder = new TextEncoder();
+  while (request.messages.length > 1 && encoder.encode(JSON.stringify(request)).length > MAX_CHAT_REQUEST_BYTES) {
+    request.messages = request.messages.slice(1);
+  }
+  return request;
+}
+
+/**
+ * Message for a failed request, preferring the server's own explanation
+ */
+function describeFailure(status: number, serverError?: string): string {
+  if (status === 413) return 'The message history is too long for the server';
+
+  const reason = serverError || `status ${status}`;
+  return status >= 500 ? `Server error: ${reason}` : `The server rejected the message: ${reason}`;
+}
+
+/**
+ * Ask the server for the assistant's reply to the conversation.
+ * Throws with the server's error message if the request fails.
+ */
+export async function requestChatReply(
+  messages: ChatMessage[],
+  prediction: EmotionPrediction | null
+): Promise<string> {
+  try {
+    const response = await axios.post<ChatReply>(CHAT_API_PATH, trimRequest(messages, prediction));
+    return response.data.text;
+  } catch (error: any) {
+    throw new Error(error.response?.data?.error || error.message || 'Chat request failed');
+  }
+}
+
+/**
+ * Ask the server for the assistant's reply as a stream, calling onText with
+ * the reply so far as pieces arrive. Resolves with the complete reply, which
+ * is the same text the non-streaming request returns, or with null if the
+ * server has no LLM configured. Rejects with a message fit to show the user
+ * if the request fails, the stream breaks off or the signal aborts it;
+ * whatever onText last received is the part of the reply that arrived.
+ */
+export async function streamChatReply(
+  messages: ChatMessage[],
+  prediction: EmotionPrediction | null,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string | null> {
+  let response: Response;
+  try {
+    response = await fetch(CHAT_API_PATH, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(trimRequest(messages, prediction, true)),
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new Error('Could not reach the chat server');
+  }
+
+  if (response.status === NOT_CONFIGURED_STATUS) return null;
+
+  if (!response.ok || !response.body) {
+    let serverError: string | undefined;
+    try {
+      serverError = (await response.json()).error;
+    } catch (error) {
+      // Not a JSON error body; describe the status alone
+    }
+    throw new Error(describeFailure(response.status, serverError));
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SseParser();
+  let text = '';
+  let reply: string | null = null;
+
+  const handleData = (data: string) => {
+    let event: ChatStreamEvent;
+    try {
+      event = JSON.parse(data);
+    } catch (error) {
+      console.warn('Skipping malformed chat stream event');
+      return;
+    }
+
+    if (event.type === 'token') {
+      text += event.text;
+      onText(text);
+    } else if (event.type === 'done') {
+      reply = event.text;
+    } else if (event.type === 'error') {
+      throw new Error(event.error);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true })).forEach(handleData);
+  }
+  parser.push(decoder.decode());
+  parser.flush().forEach(handleData);
+
+  if (reply === null) {
+    throw new Error('The reply stream ended before it was complete');
+  }
+  return reply;
+}
@@ -0,0 +1,148 @@
+/**
+ * Chat Protocol
+ *
+ * This module defines the JSON exchanged with the /api/chat route. The
+ * browser sends the conversation so far and the emotion prediction the
+ * reply's tone should follow; the server adds the emotion-aware system
+ * prompt, calls the LLM with its own API key and returns the reply text,
+ * either as one JSON response or, for streaming requests, as server-sent
+ * events (see serverSentEvents.ts):
+ *
+ * token (repeated): the next piece of the reply
+ * done:             the complete reply, identical to the non-streaming response
+ * error:            the provider failed; carries the reply received so far
+ *
+ * Requests are validated and size-limited here so the route never forwards
+ * arbitrary payloads or prompt text to the provider.
+ */
+
+import { EmotionPrediction } from './emotionPrediction';
+
+export const CHAT_API_PATH = '/api/chat';
+
+// Messages beyond this are dropped from the start of the conversation by the client
+export const MAX_CHAT_MESSAGES = 40;
+
+export const MAX_CHAT_MESSAGE_LENGTH = 4000;
+
+// Largest request body the route accepts; the client drops the oldest messages to stay below it
+export const MAX_CHAT_REQUEST_BYTES = 64 * 1024;
+
+// Emotion labels end up in the system prompt, so only short plain words are accepted
+const LABEL_PATTERN = /^[a-z][a-z -]{0,31}$/i;
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  // Oldest first, ending with the user's new message
+  messages: ChatMessage[];
+  // Emotion the reply's tone should follow, or null if there is none yet
+  prediction: EmotionPrediction | null;
+  // Stream the reply as server-sent events instead of one JSON response
+  stream?: boolean;
+}
+
+export interface ChatReply {
+  text: string;
+}
+
+export interface ChatError {
+  error: string;
+}
+
+export type ChatResponse = ChatReply | ChatError;
+
+export interface ChatTokenEvent {
+  type: 'token';
+  text: string;
+}
+
+export interface ChatDoneEvent {
+  type: 'done';
+  text: string;
+}
+
+export interface ChatErrorEvent {
+  type: 'error';
+  error: string;
+  // The part of the reply received before the failure
+  text: string;
+}
+
+export type ChatStreamEvent = ChatTokenEvent | ChatDoneEvent | ChatErrorEvent;
+
+const isUnitNumber = (value: unknown, min: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= 1;
+
+const isLabel = (value: unknown) => typeof value === 'string' && LABEL_PATTERN.test(value);
+
+/**
+ * Check that a value is a structurally valid prediction with plain labels
+ */
+function isPrediction(value: any): value is EmotionPrediction {
+  if (!value || typeof value !== 'object') return false;
+
+  const { probabilities, affect } = value;
+  return isLabel(value.emotion) &&
+    isLabel(value.likelyEmotion) &&
+    isLabel(value.affectLabel) &&
+    isUnitNumber(value.confidence, 0) &&
+    typeof value.uncertain === 'boolean' &&
+    !!probabilities &&
+    typeof probabilities === 'object' &&
+    Object.keys(probabilities).length <= 32 &&
+    Object.entries(probabilities).every(([label, probability]) => isLabel(label) && isUnitNumber(probability, 0)) &&
+    !!affect &&
+    isUnitNumber(affect.valence, -1) &&
+    isUnitNumber(affect.arousal, -1);
+}
+
+/**
+ * Validate a parsed request body.
+ * Throws with a descriptive message if the request is malformed.
+ */
+export function parseChatRequest(body: any): ChatRequest {
+  if (!body || typeof body !== 'object') {
+    throw new Error('Request body must be a JSON object');
+  }
+
+  const { messages, prediction, stream } = body;
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new Error('messages must be a non-empty array');
+  }
+  if (messages.length > MAX_CHAT_MESSAGES) {
+    throw new Error(`At most ${MAX_CHAT_MESSAGES} messages can be sent`);
+  }
+
+  messages.forEach((message: any, index: number) => {
+    if (!message || (message.role !== 'user' && message.role !== 'assistant')) {
+      throw new Error(`messages[${index}].role must be "user" or "assistant"`);
+    }
+    if (typeof message.content !== 'string' || !message.content.trim()) {
+      throw new Error(`messages[${index}].content must be a non-empty string`);
+    }
+    if (message.content.length > MAX_CHAT_MESSAGE_LENGTH) {
+      throw new Error(`messages[${index}].content is longer than ${MAX_CHAT_MESSAGE_LENGTH} characters`);
+    }
+  });
+
+  if (messages[messages.length - 1].role !== 'user') {
+    throw new Error('The last message must be from the user');
+  }
+  if (prediction !== null && prediction !== undefined && !isPrediction(prediction)) {
+    throw new Error('prediction is not a valid emotion prediction');
+  }
+  if (stream !== undefined && typeof stream !== 'boolean') {
+    throw new Error('stream must be a boolean');
+  }
+
+  return {
+    // Only the known fields are forwarded
+    messages: messages.map((message: ChatMessage) => ({ role: message.role, content: message.content })),
+    prediction: prediction || null,
+    stream: stream === true
+  };
+}
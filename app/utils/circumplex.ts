@@ -0,0 +1,96 @@
+/**
+ * Circumplex Utility
+ *
+ * This module places the discrete emotion labels on Russell's circumplex
+ * model of affect: valence (unpleasant to pleasant) and arousal (deactivated
+ * to activated), both on a -1 to 1 scale. Continuous estimates can be
+ * mapped back to a label by the region of the plane they fall in.
+ */
+
+export interface AffectCoordinates {
+  valence: number;
+  arousal: number;
+}
+
+// Approximate positions of each label on the valence/arousal plane
+export const EMOTION_COORDINATES: Record<string, AffectCoordinates> = {
+  happy: { valence: 0.8, arousal: 0.5 },
+  sad: { valence: -0.7, arousal: -0.5 },
+  angry: { valence: -0.6, arousal: 0.8 },
+  calm: { valence: 0.4, arousal: -0.7 },
+  fear: { valence: -0.8, arousal: 0.6 },
+  surprise: { valence: 0.2, arousal: 0.9 },
+  neutral: { valence: 0, arousal: 0 }
+};
+
+/**
+ * Valence/arousal of an emotion label, neutral for unknown labels
+ */
+export function emotionToAffect(emotion: string): AffectCoordinates {
+  return EMOTION_COORDINATES[emotion] || EMOTION_COORDINATES.neutral;
+}
+
+// Points closer than this to the origin fall in the neutral region
+const NEUTRAL_RADIUS = 0.25;
+
+export function clampAffect({ valence, arousal }: AffectCoordinates): AffectCoordinates {
+  return {
+    valence: Math.max(-1, Math.min(1, valence)),
+    arousal: Math.max(-1, Math.min(1, arousal))
+  };
+}
+
+/**
+ * Probability-weighted position of a distribution over emotion labels
+ */
+export function weightedAffect(probabilities: Record<string, number>): AffectCoordinates {
+  let valence = 0;
+  let arousal = 0;
+  let total = 0;
+
+  Object.keys(probabilities).forEach(label => {
+    const point = emotionToAffect(label);
+    valence += probabilities[label] * point.valence;
+    arousal += probabilities[label] * point.arousal;
+    total += probabilities[label];
+  });
+
+  return total > 0 ? { valence: valence / total, arousal: arousal / total } : { valence: 0, arousal: 0 };
+}
+
+/**
+ * Categorical label for a region of the plane: neutral near the origin,
+ * otherwise the label whose direction is closest to the point's
+ */
+export function affectRegion(point: AffectCoordinates): string {
+  if (Math.hypot(point.valence, point.arousal) < NEUTRAL_RADIUS) return 'neutral';
+
+  const angle = Math.atan2(point.arousal, point.valence);
+  let region = 'neutral';
+  let closest = Infinity;
+
+  Object.keys(EMOTION_COORDINATES).forEach(label => {
+    const target = EMOTION_COORDINATES[label];
+    if (label === 'neutral') return;
+
+    const difference = Math.abs(angle - Math.atan2(target.arousal, target.valence));
+    const distance = Math.min(difference, 2 * Math.PI - difference);
+    if (distance < closest) {
+      closest = distance;
+      region = label;
+    }
+  });
+
+  return region;
+}
+
+/**
+ * Map a -1 to 1 coordinate into the 0-1 range of a sigmoid network output, and back
+ */
+export function affectToUnit(value: number): number {
+  return (value + 1) / 2;
+}
+
+export function unitToAffect(value: number): number {
+  return value * 2 - 1;
+}
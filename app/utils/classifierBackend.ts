@@ -0,0 +1,122 @@
+/**
+ * Classifier Backend Utility
+ *
+ * This module defines the interface every emotion classifier backend
+ * implements. A backend is trained from labeled samples of normalized
+ * features, scores each label plus the valence/arousal outputs, and
+ * serializes to the parameters stored in a model file. Snapshot backends
+ * look at the current epoch only; sequential ones score the last few
+ * consecutive epochs. EmotionClassifier handles normalization, label sets
+ * and predictions on top, so training, evaluation and inference work the
+ * same way whichever backend a model uses.
+ */
+
+export type ClassifierBackendId = 'feedforward' | 'lstm' | 'gru' | 'lda' | 'knn';
+
+// Outputs holding the valence/arousal estimate, scaled to 0-1
+export const AFFECT_OUTPUTS = { valence: 'valence', arousal: 'arousal' };
+
+// Longest run of consecutive epochs a sequential backend can look at
+export const MAX_SEQUENCE_LENGTH = 10;
+
+// Epochs further apart than this are not consecutive (epochs normally arrive every 2 s)
+export const MAX_CONTEXT_GAP_MS = 5000;
+
+export interface ClassifierTrainingOptions {
+  backend: ClassifierBackendId;
+  // Neural backends only
+  hiddenLayers: number[];
+  iterations: number;
+  errorThresh: number;
+  learningRate: number;
+  // Consecutive epochs a sequential backend sees, the current one included
+  sequenceLength: number;
+  // Nearest neighbours voting in kNN
+  neighbors: number;
+}
+
+export const DEFAULT_TRAINING_OPTIONS: ClassifierTrainingOptions = {
+  backend: 'feedforward',
+  hiddenLayers: [10, 10],
+  iterations: 2000,
+  errorThresh: 0.005,
+  learningRate: 0.3,
+  sequenceLength: 5,
+  neighbors: 7
+};
+
+export interface TrainingProgress {
+  iterations: number;
+  error: number;
+}
+
+// One labeled training example
+export interface BackendSample {
+  // Normalized feature records of consecutive epochs, oldest first, ending with the labeled one
+  sequence: Record<string, number>[];
+  label: string;
+  // Valence/arousal targets scaled to 0-1
+  valence: number;
+  arousal: number;
+}
+
+// Inputs and outputs a backend is trained for (model metadata satisfies this)
+export interface BackendLayout {
+  featureLayout: string[];
+  labels: string[];
+  // Whether the backend also scores AFFECT_OUTPUTS; models from before they existed do not
+  affectOutputs?: boolean;
+}
+
+export interface ClassifierBackend {
+  // Epochs scored at once, 1 for snapshot backends
+  readonly sequenceLength: number;
+  // Score every label (plus AFFECT_OUTPUTS) from normalized feature records, oldest first
+  score(sequence: Record<string, number>[]): Record<string, number>;
+  // Parameters stored in the model file
+  toJSON(): unknown;
+}
+
+export interface TrainedBackend {
+  backend: ClassifierBackend;
+  iterations: number;
+  // Final training error
+  error: number;
+}
+
+export interface ClassifierBackendDescriptor {
+  id: ClassifierBackendId;
+  label: string;
+  description: string;
+  // Trained by gradient descent, so hidden layers and iterations apply
+  neural: boolean;
+  // Scores a run of consecutive epochs rather than a single snapshot
+  sequential: boolean;
+  // Overrides of DEFAULT_TRAINING_OPTIONS that suit this backend
+  defaults: Partial<ClassifierTrainingOptions>;
+  train: (
+    samples: BackendSample[],
+    layout: BackendLayout,
+    options: ClassifierTrainingOptions,
+    onProgress?: (progress: TrainingProgress) => void
+  ) => Promise<TrainedBackend>;
+  fromJSON: (parameters: any, layout: BackendLayout) => ClassifierBackend;
+  // Explain why stored parameters do not fit the layout, or null if they do
+  validate: (parameters: any, layout: BackendLayout) => string | null;
+}
+
+/**
+ * Feature record as an array in featureLayout order
+ */
+export function featureVector(features: Record<string, number>, featureLayout: string[]): number[] {
+  return featureLayout.map(key => features[key] || 0);
+}
+
+/**
+ * Parse a comma separated list of hidden layer sizes, e.g. "10, 10",
+ * or return null if it is not one
+ */
+export function parseHiddenLayers(text: string): number[] | null {
+  const layers = text.split(',').map(value => parseInt(value.trim(), 10));
+  return layers.some(size => !Number.isFinite(size) || size < 1) ? null : layers;
+}
@@ -0,0 +1,78 @@
+/**
+ * Classifier Backend Registry
+ *
+ * This module lists the classifier backends a model can be trained with.
+ * Model files name their backend in the metadata, and the registry is how
+ * they are looked up again when a model is loaded or imported.
+ */
+
+import {
+  ClassifierBackendDescriptor,
+  ClassifierTrainingOptions,
+  DEFAULT_TRAINING_OPTIONS
+} from './classifierBackend';
+import { feedforwardBackend } from './feedforwardBackend';
+import { gruBackend, lstmBackend } from './recurrentBackend';
+import { ldaBackend } from './ldaBackend';
+import { knnBackend } from './knnBackend';
+
+export const CLASSIFIER_BACKENDS: ClassifierBackendDescriptor[] = [
+  feedforwardBackend,
+  lstmBackend,
+  gruBackend,
+  ldaBackend,
+  knnBackend
+];
+
+/**
+ * Look up a backend by id, or return null if there is none
+ */
+export function findClassifierBackend(id: string): ClassifierBackendDescriptor | null {
+  return CLASSIFIER_BACKENDS.find(backend => backend.id === id) || null;
+}
+
+/**
+ * Look up a backend by id, throwing for unknown ids
+ */
+export function getClassifierBackend(id: string): ClassifierBackendDescriptor {
+  const backend = findClassifierBackend(id);
+  if (!backend) {
+    throw new Error(`Unknown classifier backend "${id}"`);
+  }
+  return backend;
+}
+
+/**
+ * Training options for a backend, with its own defaults applied
+ */
+export function defaultTrainingOptions(backend: ClassifierBackendDescriptor): ClassifierTrainingOptions {
+  return { ...DEFAULT_TRAINING_OPTIONS, ...backend.defaults, backend: backend.id };
+}
+
+/**
+ * Preceding epochs a training row needs as context for these options
+ */
+export function trainingContextLength(options: ClassifierTrainingOptions): number {
+  return getClassifierBackend(options.backend).sequential ? options.sequenceLength - 1 : 0;
+}
+
+/**
+ * Short summary of training options, e.g. "LSTM, hidden [20], 200 iterations, 5-epoch sequences"
+ */
+export function describeTrainingOptions(options: ClassifierTrainingOptions): string {
+  // Reports from before backends were selectable always used the feedforward network
+  const backend = findClassifierBackend(options.backend) || CLASSIFIER_BACKENDS[0];
+  const parts = [backend.label];
+
+  if (backend.neural) {
+    parts.push(`hidden [${options.hiddenLayers.join(', ')}]`, `${options.iterations} iterations`);
+  }
+  if (backend.sequential) {
+    parts.push(`${options.sequenceLength}-epoch sequences`);
+  }
+  if (backend.id === 'knn') {
+    parts.push(`k = ${options.neighbors}`);
+  }
+
+  return parts.join(', ');
+}
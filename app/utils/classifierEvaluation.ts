@@ -0,0 +1,399 @@
+/**
+ * Classifier Evaluation Utility
+ *
+ * This module cross-validates the emotion classifier on a labeled training
+ * dataset. Epochs are split either into stratified k folds or by recording
+ * session (leave-one-session-out, which shows how well a model carries over
+ * to a new day), a classifier with the chosen backend is trained on each
+ * training split and scored on the held-out epochs. Sequential backends see
+ * the preceding epochs' features as context, which with k-fold may include
+ * held-out epochs' features (never their labels). The pooled predictions
+ * give per-class precision and recall, a confusion matrix over the EMOTIONS
+ * label set and calibration curves. Reports are plain JSON so runs with
+ * different model settings can be exported and compared.
+ */
+
+import { Montage } from './montage';
+import { createRandom } from './random';
+import { ModelNormalization } from './emotionModel';
+import { ClassifierTrainingOptions } from './classifierBackend';
+import { trainingContextLength } from './classifierBackendRegistry';
+import { EMOTIONS, EmotionClassifier } from './emotionClassifier';
+import { LabeledEpoch, TrainingDataset, countLabels, datasetToRows } from './trainingDataset';
+
+export const EVALUATION_REPORT_FORMAT = 'eeg-emotion-evaluation';
+
+export const EVALUATION_REPORT_VERSION = 1;
+
+// Confidence range [0, 1] is split into this many calibration bins
+const CALIBRATION_BINS = 10;
+
+export type EvaluationMethod = 'k-fold' | 'leave-one-session-out';
+
+export interface EvaluationOptions {
+  // Shown in reports so runs can be told apart, e.g. "v2, 20 hidden units"
+  name: string;
+  method: EvaluationMethod;
+  // Number of folds for k-fold (ignored when leaving sessions out)
+  folds: number;
+  // Seed for the k-fold shuffle
+  seed: number;
+  normalization: ModelNormalization;
+  training: ClassifierTrainingOptions;
+}
+
+export interface EvaluationPrediction {
+  fold: number;
+  label: string;
+  predicted: string;
+  // Prediction probabilities over the EMOTIONS label set (zero for labels the fold's model lacks)
+  probabilities: Record<string, number>;
+}
+
+export interface FoldResult {
+  fold: number;
+  // Session held out (leave-one-session-out only)
+  sessionId?: string;
+  trainSize: number;
+  testSize: number;
+  accuracy: number | null;
+  // Why the fold could not be evaluated, e.g. too few labels to train on
+  skipped?: string;
+}
+
+export interface ClassMetrics {
+  label: string;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  // Number of held-out epochs with this label
+  support: number;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number | null;
+  // Observed frequency of the event among predictions in the bin
+  accuracy: number | null;
+}
+
+export interface EvaluationReport {
+  format: typeof EVALUATION_REPORT_FORMAT;
+  version: number;
+  name: string;
+  createdAt: number;
+  dataset: {
+    montageId: string;
+    montageName: string;
+    epochs: number;
+    sessions: number;
+    labelCounts: Record<string, number>;
+  };
+  method: EvaluationMethod;
+  folds: FoldResult[];
+  seed: number;
+  normalization: { method: ModelNormalization['method']; profileName?: string };
+  training: ClassifierTrainingOptions;
+  // Rows and columns of the confusion matrix, always EMOTIONS
+  labels: string[];
+  // confusionMatrix[true][predicted], in labels order
+  confusionMatrix: number[][];
+  perClass: ClassMetrics[];
+  accuracy: number | null;
+  // Mean F1 over labels present in the held-out data
+  macroF1: number | null;
+  // Top-label confidence against accuracy
+  calibration: CalibrationBin[];
+  // One-vs-rest probability against observed frequency, per label
+  classCalibration: Record<string, CalibrationBin[]>;
+  expectedCalibrationError: number | null;
+  predictions: EvaluationPrediction[];
+}
+
+export type EvaluationProgressCallback = (completedFolds: number, totalFolds: number) => void;
+
+/**
+ * Split epoch indices into test folds
+ */
+export function createFolds(
+  dataset: TrainingDataset,
+  method: EvaluationMethod,
+  folds: number,
+  seed: number
+): { sessionId?: string; test: number[] }[] {
+  if (method === 'leave-one-session-out') {
+    const sessionIds = Array.from(new Set(dataset.epochs.map(epoch => epoch.sessionId)));
+    if (sessionIds.length < 2) {
+      throw new Error('Leave-one-session-out needs epochs from at least two sessions');
+    }
+
+    return sessionIds.map(sessionId => ({
+      sessionId,
+      test: dataset.epochs
+        .map((epoch, index) => epoch.sessionId === sessionId ? index : -1)
+        .filter(index => index >= 0)
+    }));
+  }
+
+  const k = Math.min(folds, dataset.epochs.length);
+  if (k < 2) {
+    throw new Error('K-fold cross-validation needs at least two folds and two epochs');
+  }
+
+  // Stratified: shuffle each label's epochs and deal them out across the folds
+  const random = createRandom(seed);
+  const result = Array.from({ length: k }, () => ({ test: [] as number[] }));
+  let next = 0;
+
+  EMOTIONS.concat(Object.keys(countLabels(dataset)).filter(label => !EMOTIONS.includes(label))).forEach(label => {
+    const indices = dataset.epochs
+      .map((epoch, index) => epoch.label === label ? index : -1)
+      .filter(index => index >= 0);
+
+    for (let i = indices.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+
+    indices.forEach(index => {
+      result[next].test.push(index);
+      next = (next + 1) % k;
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Cross-validate a classifier configuration on a labeled dataset
+ */
+export async function evaluateClassifier(
+  dataset: TrainingDataset,
+  montage: Montage,
+  options: EvaluationOptions,
+  onProgress?: EvaluationProgressCallback
+): Promise<EvaluationReport> {
+  if (dataset.epochs.length === 0) {
+    throw new Error('The dataset has no labeled epochs');
+  }
+
+  const folds = createFolds(dataset, options.method, options.folds, options.seed);
+  const contextLength = trainingContextLength(options.training);
+  const foldResults: FoldResult[] = [];
+  const predictions: EvaluationPrediction[] = [];
+
+  for (let fold = 0; fold < folds.length; fold++) {
+    const testSet = new Set(folds[fold].test);
+    const trainEpochs: LabeledEpoch[] = [];
+    const testEpochs: LabeledEpoch[] = [];
+    dataset.epochs.forEach((epoch, index) => (testSet.has(index) ? testEpochs : trainEpochs).push(epoch));
+
+    const result: FoldResult = {
+      fold,
+      sessionId: folds[fold].sessionId,
+      trainSize: trainEpochs.length,
+      testSize: testEpochs.length,
+      accuracy: null
+    };
+
+    if (new Set(trainEpochs.map(epoch => epoch.label)).size < 2) {
+      result.skipped = 'Training split has fewer than two labels';
+    } else if (testEpochs.length === 0) {
+      result.skipped = 'No held-out epochs';
+    } else {
+      const classifier = await EmotionClassifier.train(
+        datasetToRows(dataset, trainEpochs, contextLength),
+        montage,
+        options.normalization,
+        { name: `${options.name} (fold ${fold + 1})`, origin: 'personal' },
+        options.training
+      );
+
+      let correct = 0;
+      datasetToRows(dataset, testEpochs, contextLength).forEach(row => {
+        // Scored on the most likely label; the uncertain threshold is a deployment choice
+        const prediction = classifier.predictFeatures(row.features, undefined, row.context);
+        const predicted = prediction.likelyEmotion;
+        if (predicted === row.label) correct++;
+
+        const probabilities: Record<string, number> = {};
+        EMOTIONS.forEach(label => {
+          probabilities[label] = prediction.probabilities[label] || 0;
+        });
+        predictions.push({ fold, label: row.label, predicted, probabilities });
+      });
+      result.accuracy = correct / testEpochs.length;
+    }
+
+    foldResults.push(result);
+    onProgress?.(fold + 1, folds.length);
+  }
+
+  return buildReport(dataset, options, foldResults, predictions);
+}
+
+/**
+ * Summarize pooled held-out predictions into a report
+ */
+export function buildReport(
+  dataset: TrainingDataset,
+  options: EvaluationOptions,
+  folds: FoldResult[],
+  predictions: EvaluationPrediction[]
+): EvaluationReport {
+  const labels = [...EMOTIONS];
+  const confusionMatrix = labels.map(() => labels.map(() => 0));
+  predictions.forEach(prediction => {
+    const row = labels.indexOf(prediction.label);
+    const column = labels.indexOf(prediction.predicted);
+    if (row >= 0 && column >= 0) confusionMatrix[row][column]++;
+  });
+
+  const perClass = labels.map((label, index): ClassMetrics => {
+    const truePositives = confusionMatrix[index][index];
+    const support = confusionMatrix[index].reduce((sum, count) => sum + count, 0);
+    const predictedCount = confusionMatrix.reduce((sum, row) => sum + row[index], 0);
+    const precision = predictedCount > 0 ? truePositives / predictedCount : null;
+    const recall = support > 0 ? truePositives / support : null;
+    const f1 = precision !== null && recall !== null
+      ? (precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0)
+      : null;
+    return { label, precision, recall, f1, support };
+  });
+
+  const scored = perClass.filter(metrics => metrics.support > 0);
+  const correct = predictions.filter(prediction => prediction.predicted === prediction.label).length;
+
+  const calibration = calibrationCurve(predictions.map(prediction => ({
+    confidence: prediction.probabilities[prediction.predicted] || 0,
+    hit: prediction.predicted === prediction.label
+  })));
+
+  const classCalibration: Record<string, CalibrationBin[]> = {};
+  scored.forEach(({ label }) => {
+    classCalibration[label] = calibrationCurve(predictions.map(prediction => ({
+      confidence: prediction.probabilities[label] || 0,
+      hit: prediction.label === label
+    })));
+  });
+
+  const { normalization } = options;
+
+  return {
+    format: EVALUATION_REPORT_FORMAT,
+    version: EVALUATION_REPORT_VERSION,
+    name: options.name,
+    createdAt: Date.now(),
+    dataset: {
+      montageId: dataset.montageId,
+      montageName: dataset.montageName,
+      epochs: dataset.epochs.length,
+      sessions: new Set(dataset.epochs.map(epoch => epoch.sessionId)).size,
+      labelCounts: countLabels(dataset)
+    },
+    method: options.method,
+    folds,
+    seed: options.seed,
+    normalization: normalization.method === 'calibration'
+      ? { method: 'calibration', profileName: normalization.profile.name }
+      : { method: 'fixed-range' },
+    training: options.training,
+    labels,
+    confusionMatrix,
+    perClass,
+    accuracy: predictions.length > 0 ? correct / predictions.length : null,
+    macroF1: scored.length > 0 ? scored.reduce((sum, metrics) => sum + (metrics.f1 || 0), 0) / scored.length : null,
+    calibration,
+    classCalibration,
+    expectedCalibrationError: expectedCalibrationError(calibration),
+    predictions
+  };
+}
+
+/**
+ * Bin predictions by confidence and compare with how often they were right
+ */
+export function calibrationCurve(points: { confidence: number; hit: boolean }[]): CalibrationBin[] {
+  const bins = Array.from({ length: CALIBRATION_BINS }, (_, i) => ({
+    lower: i / CALIBRATION_BINS,
+    upper: (i + 1) / CALIBRATION_BINS,
+    count: 0,
+    confidenceSum: 0,
+    hits: 0
+  }));
+
+  points.forEach(({ confidence, hit }) => {
+    const bin = bins[Math.min(CALIBRATION_BINS - 1, Math.floor(confidence * CALIBRATION_BINS))];
+    bin.count++;
+    bin.confidenceSum += confidence;
+    if (hit) bin.hits++;
+  });
+
+  return bins.map(bin => ({
+    lower: bin.lower,
+    upper: bin.upper,
+    count: bin.count,
+    meanConfidence: bin.count > 0 ? bin.confidenceSum / bin.count : null,
+    accuracy: bin.count > 0 ? bin.hits / bin.count : null
+  }));
+}
+
+/**
+ * Count-weighted mean gap between confidence and accuracy
+ */
+export function expectedCalibrationError(bins: CalibrationBin[]): number | null {
+  const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+  if (total === 0) return null;
+
+  return bins.reduce((sum, bin) =>
+    bin.count > 0 ? sum + (bin.count / total) * Math.abs((bin.accuracy || 0) - (bin.meanConfidence || 0)) : sum,
+  0);
+}
+
+export function serializeEvaluationReport(report: EvaluationReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * File name for an exported report, e.g. "emotion-evaluation-v2-k-fold.json"
+ */
+export function evaluationReportFileName(report: EvaluationReport): string {
+  const slug = report.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `emotion-evaluation-${slug ? `${slug}-` : ''}${report.method}.json`;
+}
+
+/**
+ * Parse and validate an exported report.
+ * Throws with a descriptive message if the file is malformed.
+ */
+export function parseEvaluationReport(text: string): EvaluationReport {
+  let report: any;
+
+  try {
+    report = JSON.parse(text);
+  } catch (error) {
+    throw new Error('Report file is not valid JSON');
+  }
+
+  if (!report || report.format !== EVALUATION_REPORT_FORMAT) {
+    throw new Error('Not an evaluation report file');
+  }
+
+  if (report.version !== EVALUATION_REPORT_VERSION) {
+    throw new Error(`Unsupported report version ${report.version} (expected ${EVALUATION_REPORT_VERSION})`);
+  }
+
+  if (
+    !Array.isArray(report.labels) ||
+    !Array.isArray(report.confusionMatrix) ||
+    !Array.isArray(report.perClass) ||
+    !Array.isArray(report.calibration) ||
+    !report.dataset
+  ) {
+    throw new Error('Report is incomplete');
+  }
+
+  return report as EvaluationReport;
+}
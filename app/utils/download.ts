@@ -0,0 +1,18 @@
+/**
+ * Download Utility
+ *
+ * This module offers generated files (exports, models, reports) to the user
+ * as browser downloads.
+ */
+
+/**
+ * Offer a file to the user as a download
+ */
+export function downloadFile(fileName: string, data: BlobPart, type: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
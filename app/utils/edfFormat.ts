@@ -0,0 +1,393 @@
+/**
+ * EDF+ Format Utility
+ *
+ * This module writes and reads European Data Format (EDF/EDF+) files: a
+ * fixed-width ASCII header followed by data records of 16-bit little-endian
+ * samples, with an "EDF Annotations" signal carrying time-stamped annotation
+ * lists (TALs). Files written here open in MNE-Python, EEGLAB and EDFbrowser.
+ */
+
+export interface EdfSignal {
+  label: string;
+  physicalDimension: string;
+  // Samples per second; must be a whole number
+  sampleRate: number;
+  transducer?: string;
+  prefiltering?: string;
+  samples: ArrayLike<number>;
+}
+
+export interface EdfAnnotation {
+  // Seconds from the start of the recording
+  onset: number;
+  // Seconds; omitted for instantaneous events
+  duration?: number;
+  text: string;
+}
+
+// A signal read back from a file, with samples in physical units
+export interface EdfSignalData extends EdfSignal {
+  samples: Float64Array;
+}
+
+export interface EdfRecording {
+  startTime: number;
+  // EDF+ patient field: code, sex, birthdate, name
+  patient?: string;
+  // Equipment name written into the recording field
+  equipment?: string;
+  signals: EdfSignal[];
+  annotations: EdfAnnotation[];
+}
+
+const ANNOTATIONS_LABEL = 'EDF Annotations';
+// EDF+ standard text marking where the signals end inside a zero-padded final record
+const RECORDING_ENDS = 'Recording ends';
+const DIGITAL_MIN = -32768;
+const DIGITAL_MAX = 32767;
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// Bytes each annotation record reserves beyond its annotations
+const TIMEKEEPING_BYTES = 16;
+
+/**
+ * Header fields only allow printable ASCII
+ */
+function toAscii(text: string): string {
+  return text
+    .replace(/µ/g, 'u')
+    .replace(/[^\x20-\x7e]/g, '_');
+}
+
+/**
+ * Left-align text in a space-padded field, truncating if needed
+ */
+function field(text: string, width: number): string {
+  const ascii = toAscii(text);
+  return ascii.length >= width ? ascii.slice(0, width) : ascii + ' '.repeat(width - ascii.length);
+}
+
+/**
+ * Format a number into at most `width` characters
+ */
+function formatNumber(value: number, width: number): string {
+  if (Number.isInteger(value) && String(value).length <= width) return String(value);
+
+  for (let precision = width; precision > 0; precision--) {
+    const text = String(parseFloat(value.toPrecision(precision)));
+    if (text.length <= width && !text.includes('e')) return text;
+  }
+
+  throw new Error(`Cannot fit ${value} into an EDF header field`);
+}
+
+function pad2(value: number): string {
+  return value < 10 ? `0${value}` : String(value);
+}
+
+/**
+ * Physical range stored in the header, rounded the way it will be parsed back
+ */
+function physicalRange(samples: ArrayLike<number>): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < samples.length; i++) {
+    if (samples[i] < min) min = samples[i];
+    if (samples[i] > max) max = samples[i];
+  }
+
+  if (!isFinite(min) || !isFinite(max)) return [-1, 1];
+  if (min === max) return [min - 1, max + 1];
+
+  // Widen slightly so rounding the header text never clips the data
+  const margin = (max - min) * 1e-4;
+  const low = parseFloat(formatNumber(Math.floor((min - margin) * 1000) / 1000, 8));
+  const high = parseFloat(formatNumber(Math.ceil((max + margin) * 1000) / 1000, 8));
+  return [low, high];
+}
+
+/**
+ * Encode one annotation as a TAL: +onset[\x15duration]\x14text\x14\x00
+ */
+function encodeTal(annotation: EdfAnnotation, encoder: TextEncoder): Uint8Array {
+  const onset = `${annotation.onset >= 0 ? '+' : ''}${annotation.onset.toFixed(3)}`;
+  const duration = annotation.duration !== undefined ? `\x15${annotation.duration.toFixed(3)}` : '';
+  const text = annotation.text.replace(/[\x00\x14\x15]/g, ' ');
+  return encoder.encode(`${onset}${duration}\x14${text}\x14\x00`);
+}
+
+/**
+ * Serialize a recording as an EDF+ (continuous) file
+ */
+export function writeEdfPlus(recording: EdfRecording): Uint8Array {
+  const { signals } = recording;
+
+  if (!signals.length) {
+    throw new Error('An EDF+ recording needs at least one signal');
+  }
+  signals.forEach(signal => {
+    if (!Number.isInteger(signal.sampleRate) || signal.sampleRate <= 0) {
+      throw new Error(`Signal ${signal.label} has a non-integer sample rate of ${signal.sampleRate} Hz`);
+    }
+  });
+
+  // One-second data records
+  const duration = Math.max(...signals.map(signal => signal.samples.length / signal.sampleRate));
+  const recordCount = Math.max(1, Math.ceil(duration));
+
+  // The final record is padded unless the signals fill it, so mark where they really end
+  const annotations = duration < recordCount
+    ? [...recording.annotations, { onset: duration, text: RECORDING_ENDS }]
+    : recording.annotations;
+
+  // Spread annotations over the records their onsets fall in
+  const encoder = new TextEncoder();
+  const talsByRecord: Uint8Array[][] = Array.from({ length: recordCount }, () => []);
+  annotations.forEach(annotation => {
+    const record = Math.min(recordCount - 1, Math.max(0, Math.floor(annotation.onset)));
+    talsByRecord[record].push(encodeTal(annotation, encoder));
+  });
+
+  const annotationBytes = Math.max(
+    ...talsByRecord.map(tals => tals.reduce((sum, tal) => sum + tal.length, TIMEKEEPING_BYTES))
+  );
+  const annotationSamples = Math.ceil(annotationBytes / 2);
+
+  const signalCount = signals.length + 1;
+  const headerBytes = 256 * (signalCount + 1);
+  const ranges = signals.map(signal => physicalRange(signal.samples));
+
+  // Fixed header
+  const start = new Date(recording.startTime);
+  const equipment = (recording.equipment || 'X').replace(/\s+/g, '_');
+  let header = '';
+  header += field('0', 8);
+  header += field(recording.patient || 'X X X X', 80);
+  header += field(
+    `Startdate ${pad2(start.getDate())}-${MONTHS[start.getMonth()]}-${start.getFullYear()} X X ${equipment}`,
+    80
+  );
+  header += field(`${pad2(start.getDate())}.${pad2(start.getMonth() + 1)}.${pad2(start.getFullYear() % 100)}`, 8);
+  header += field(`${pad2(start.getHours())}.${pad2(start.getMinutes())}.${pad2(start.getSeconds())}`, 8);
+  header += field(String(headerBytes), 8);
+  header += field('EDF+C', 44);
+  header += field(String(recordCount), 8);
+  header += field('1', 8);
+  header += field(String(signalCount), 4);
+
+  // Per-signal header, one field at a time for every signal
+  const columns = [
+    ...signals.map((signal, i) => ({
+      label: signal.label,
+      transducer: signal.transducer || '',
+      dimension: signal.physicalDimension,
+      physMin: ranges[i][0],
+      physMax: ranges[i][1],
+      prefiltering: signal.prefiltering || '',
+      samplesPerRecord: signal.sampleRate
+    })),
+    {
+      label: ANNOTATIONS_LABEL,
+      transducer: '',
+      dimension: '',
+      physMin: -1,
+      physMax: 1,
+      prefiltering: '',
+      samplesPerRecord: annotationSamples
+    }
+  ];
+
+  columns.forEach(column => { header += field(column.label, 16); });
+  columns.forEach(column => { header += field(column.transducer, 80); });
+  columns.forEach(column => { header += field(column.dimension, 8); });
+  columns.forEach(column => { header += field(formatNumber(column.physMin, 8), 8); });
+  columns.forEach(column => { header += field(formatNumber(column.physMax, 8), 8); });
+  columns.forEach(() => { header += field(String(DIGITAL_MIN), 8); });
+  columns.forEach(() => { header += field(String(DIGITAL_MAX), 8); });
+  columns.forEach(column => { header += field(column.prefiltering, 80); });
+  columns.forEach(column => { header += field(String(column.samplesPerRecord), 8); });
+  columns.forEach(() => { header += field('', 32); });
+
+  const recordBytes = columns.reduce((sum, column) => sum + column.samplesPerRecord * 2, 0);
+  const output = new Uint8Array(headerBytes + recordCount * recordBytes);
+  for (let i = 0; i < header.length; i++) {
+    output[i] = header.charCodeAt(i);
+  }
+
+  // Data records
+  const view = new DataView(output.buffer);
+  let offset = headerBytes;
+
+  for (let record = 0; record < recordCount; record++) {
+    signals.forEach((signal, i) => {
+      const [physMin, physMax] = ranges[i];
+      const scale = (DIGITAL_MAX - DIGITAL_MIN) / (physMax - physMin);
+
+      for (let s = 0; s < signal.sampleRate; s++) {
+        const index = record * signal.sampleRate + s;
+        // Pad the final record with zeros
+        const value = index < signal.samples.length ? signal.samples[index] : 0;
+        const digital = Math.round((value - physMin) * scale + DIGITAL_MIN);
+        view.setInt16(offset, Math.max(DIGITAL_MIN, Math.min(DIGITAL_MAX, digital)), true);
+        offset += 2;
+      }
+    });
+
+    // Timekeeping TAL first, then this record's annotations; the rest stays zero
+    const annotationStart = offset;
+    const timekeeping = encoder.encode(`+${record}\x14\x14\x00`);
+    output.set(timekeeping, offset);
+    offset += timekeeping.length;
+    talsByRecord[record].forEach(tal => {
+      output.set(tal, offset);
+      offset += tal.length;
+    });
+    offset = annotationStart + annotationSamples * 2;
+  }
+
+  return output;
+}
+
+/**
+ * Parse an EDF header date and time (dd.mm.yy, hh.mm.ss) as local time
+ */
+function parseStartTime(date: string, time: string): number {
+  const [day, month, year] = date.split('.').map(part => parseInt(part, 10));
+  const [hours, minutes, seconds] = time.split('.').map(part => parseInt(part, 10));
+
+  // EDF years 85-99 are 1985-1999, 00-84 are 2000-2084
+  const fullYear = year >= 85 ? 1900 + year : 2000 + year;
+  const start = new Date(fullYear, month - 1, day, hours, minutes, seconds).getTime();
+  return isNaN(start) ? 0 : start;
+}
+
+/**
+ * Decode the TALs in one annotation record
+ */
+function decodeTals(bytes: Uint8Array, decoder: TextDecoder): EdfAnnotation[] {
+  const annotations: EdfAnnotation[] = [];
+
+  decoder.decode(bytes).split('\x00').forEach(tal => {
+    if (!tal) return;
+
+    const parts = tal.split('\x14');
+    const [onset, duration] = parts[0].split('\x15');
+    const texts = parts.slice(1).filter(text => text.length > 0);
+
+    // Timekeeping TALs have no text
+    texts.forEach(text => {
+      annotations.push({
+        onset: parseFloat(onset),
+        duration: duration !== undefined ? parseFloat(duration) : undefined,
+        text
+      });
+    });
+  });
+
+  return annotations;
+}
+
+/**
+ * Read an EDF or EDF+ file. Samples are converted to physical units; records
+ * are concatenated, so EDF+D gaps are not preserved. A "Recording ends"
+ * annotation cuts off the padding of the final record.
+ */
+export function readEdf(data: ArrayBuffer | Uint8Array): EdfRecording & { signals: EdfSignalData[] } {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const ascii = (start: number, length: number) =>
+    String.fromCharCode.apply(null, Array.from(bytes.subarray(start, start + length))).trim();
+
+  if (bytes.length < 256 || ascii(0, 8) !== '0') {
+    throw new Error('Not an EDF file');
+  }
+
+  const headerBytes = parseInt(ascii(184, 8), 10);
+  const recordDuration = parseFloat(ascii(244, 8));
+  const signalCount = parseInt(ascii(252, 4), 10);
+
+  if (!signalCount || !recordDuration || bytes.length < headerBytes) {
+    throw new Error('EDF header is incomplete');
+  }
+
+  // Per-signal fields are stored one field at a time for every signal
+  let offset = 256;
+  const column = (width: number): string[] => {
+    const values = Array.from({ length: signalCount }, (_, i) => ascii(offset + i * width, width));
+    offset += width * signalCount;
+    return values;
+  };
+
+  const labels = column(16);
+  const transducers = column(80);
+  const dimensions = column(8);
+  const physMins = column(8).map(parseFloat);
+  const physMaxs = column(8).map(parseFloat);
+  const digMins = column(8).map(value => parseInt(value, 10));
+  const digMaxs = column(8).map(value => parseInt(value, 10));
+  const prefilterings = column(80);
+  const samplesPerRecord = column(8).map(value => parseInt(value, 10));
+
+  const recordBytes = samplesPerRecord.reduce((sum, count) => sum + count * 2, 0);
+  const declaredRecords = parseInt(ascii(236, 8), 10);
+  const recordCount = declaredRecords > 0
+    ? Math.min(declaredRecords, Math.floor((bytes.length - headerBytes) / recordBytes))
+    : Math.floor((bytes.length - headerBytes) / recordBytes);
+
+  const isAnnotation = labels.map(label => label === ANNOTATIONS_LABEL);
+  const signals: EdfSignalData[] = [];
+  const signalIndex: number[] = [];
+  labels.forEach((label, i) => {
+    if (isAnnotation[i]) return;
+    signalIndex[i] = signals.length;
+    signals.push({
+      label,
+      transducer: transducers[i],
+      physicalDimension: dimensions[i],
+      prefiltering: prefilterings[i],
+      sampleRate: samplesPerRecord[i] / recordDuration,
+      samples: new Float64Array(samplesPerRecord[i] * recordCount)
+    });
+  });
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const annotations: EdfAnnotation[] = [];
+  let position = headerBytes;
+
+  for (let record = 0; record < recordCount; record++) {
+    for (let i = 0; i < signalCount; i++) {
+      const count = samplesPerRecord[i];
+
+      if (isAnnotation[i]) {
+        annotations.push(...decodeTals(bytes.subarray(position, position + count * 2), decoder));
+      } else {
+        const scale = (physMaxs[i] - physMins[i]) / (digMaxs[i] - digMins[i]);
+        const target = signals[signalIndex[i]].samples;
+        for (let s = 0; s < count; s++) {
+          const digital = view.getInt16(position + s * 2, true);
+          target[record * count + s] = (digital - digMins[i]) * scale + physMins[i];
+        }
+      }
+
+      position += count * 2;
+    }
+  }
+
+  const end = annotations.find(annotation => annotation.text === RECORDING_ENDS);
+  const trimmed = end && isFinite(end.onset)
+    ? signals.map(signal => ({
+      ...signal,
+      samples: signal.samples.subarray(0, Math.max(0, Math.round(end.onset * signal.sampleRate)))
+    }))
+    : signals;
+
+  const recordingField = ascii(88, 80).split(' ');
+
+  return {
+    startTime: parseStartTime(ascii(168, 8), ascii(176, 8)),
+    patient: ascii(8, 80),
+    equipment: recordingField[0] === 'Startdate' ? recordingField[4] : undefined,
+    signals: trimmed,
+    annotations: annotations.sort((a, b) => a.onset - b.onset)
+  };
+}
@@ -0,0 +1,232 @@
+/**
+ * EEG Filter Utility
+ *
+ * This module provides streaming digital filters for raw EEG: a DC-blocking
+ * high-pass, a band-pass and a 50/60 Hz mains notch. Every filter keeps its
+ * internal state between calls, so samples can be pushed through chunk by chunk
+ * as they arrive from the device without edge artifacts at chunk boundaries.
+ */
+
+import { EegChannelData } from './eegProcessor';
+import { Montage } from './montage';
+
+export interface FilterSettings {
+  highPass: { enabled: boolean; cutoff: number };
+  bandPass: { enabled: boolean; low: number; high: number };
+  notch: { enabled: boolean; frequency: 50 | 60; quality: number };
+}
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  highPass: { enabled: true, cutoff: 0.5 },
+  bandPass: { enabled: true, low: 1, high: 45 },
+  notch: { enabled: true, frequency: 50, quality: 30 }
+};
+
+interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+type BiquadType = 'lowpass' | 'highpass' | 'notch';
+
+/**
+ * Design a second-order section using the RBJ audio EQ cookbook formulas.
+ * Returns null when the frequency cannot be represented at this sample rate,
+ * in which case the stage is bypassed.
+ */
+function designBiquad(
+  type: BiquadType,
+  frequency: number,
+  sampleRate: number,
+  q: number = Math.SQRT1_2
+): BiquadCoefficients | null {
+  if (frequency <= 0 || frequency >= sampleRate / 2) {
+    return null;
+  }
+
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cosW0 = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  let b0: number, b1: number, b2: number;
+
+  switch (type) {
+    case 'lowpass':
+      b0 = (1 - cosW0) / 2;
+      b1 = 1 - cosW0;
+      b2 = (1 - cosW0) / 2;
+      break;
+    case 'highpass':
+      b0 = (1 + cosW0) / 2;
+      b1 = -(1 + cosW0);
+      b2 = (1 + cosW0) / 2;
+      break;
+    default: // notch
+      b0 = 1;
+      b1 = -2 * cosW0;
+      b2 = 1;
+  }
+
+  const a0 = 1 + alpha;
+
+  return {
+    b0: b0 / a0,
+    b1: b1 / a0,
+    b2: b2 / a0,
+    a1: (-2 * cosW0) / a0,
+    a2: (1 - alpha) / a0
+  };
+}
+
+/**
+ * A single biquad stage with independent state per channel
+ * (transposed direct form II)
+ */
+export class BiquadFilter {
+  private readonly coefficients: BiquadCoefficients;
+  private readonly z1: Float64Array;
+  private readonly z2: Float64Array;
+
+  constructor(coefficients: BiquadCoefficients, channelCount: number) {
+    this.coefficients = coefficients;
+    this.z1 = new Float64Array(channelCount);
+    this.z2 = new Float64Array(channelCount);
+  }
+
+  process(value: number, channel: number): number {
+    const { b0, b1, b2, a1, a2 } = this.coefficients;
+    const output = b0 * value + this.z1[channel];
+    this.z1[channel] = b1 * value - a1 * output + this.z2[channel];
+    this.z2[channel] = b2 * value - a2 * output;
+    return output;
+  }
+
+  reset(): void {
+    this.z1.fill(0);
+    this.z2.fill(0);
+  }
+}
+
+/**
+ * Build the list of biquad stages described by the filter settings
+ */
+function buildStages(settings: FilterSettings, sampleRate: number, channelCount: number): BiquadFilter[] {
+  const designs: (BiquadCoefficients | null)[] = [];
+
+  if (settings.highPass.enabled) {
+    designs.push(designBiquad('highpass', settings.highPass.cutoff, sampleRate));
+  }
+
+  if (settings.bandPass.enabled) {
+    // Two cascaded Butterworth sections on each edge give a 4th order response
+    const { low, high } = settings.bandPass;
+    designs.push(designBiquad('highpass', low, sampleRate, 0.5412));
+    designs.push(designBiquad('highpass', low, sampleRate, 1.3066));
+    designs.push(designBiquad('lowpass', high, sampleRate, 0.5412));
+    designs.push(designBiquad('lowpass', high, sampleRate, 1.3066));
+  }
+
+  if (settings.notch.enabled) {
+    designs.push(designBiquad('notch', settings.notch.frequency, sampleRate, settings.notch.quality));
+  }
+
+  return designs
+    .filter((design): design is BiquadCoefficients => design !== null)
+    .map(design => new BiquadFilter(design, channelCount));
+}
+
+/**
+ * Streaming multichannel filter chain for EEG samples
+ */
+export class EegFilterChain {
+  readonly settings: FilterSettings;
+  readonly montage: Montage;
+  private readonly stages: BiquadFilter[];
+
+  constructor(settings: FilterSettings, montage: Montage) {
+    this.settings = settings;
+    this.montage = montage;
+    this.stages = buildStages(settings, montage.sampleRate, montage.channels.length);
+  }
+
+  /**
+   * Number of active stages (stages above Nyquist are bypassed)
+   */
+  get stageCount(): number {
+    return this.stages.length;
+  }
+
+  /**
+   * Filter one sample, updating the per-channel state
+   */
+  process(sample: EegChannelData): EegChannelData {
+    const channels = sample.channels.map((value, index) => {
+      for (const stage of this.stages) {
+        value = stage.process(value, index);
+      }
+      return value;
+    });
+
+    return { ...sample, channels };
+  }
+
+  /**
+   * Filter a chunk of consecutive samples
+   */
+  processBatch(samples: EegChannelData[]): EegChannelData[] {
+    return samples.map(sample => this.process(sample));
+  }
+
+  /**
+   * Filter consecutive samples whose channel values are interleaved sample by
+   * sample, returning a new array in the same layout
+   */
+  processInterleaved(values: Float32Array): Float32Array {
+    const channelCount = this.montage.channels.length;
+    const output = new Float32Array(values.length);
+
+    for (let i = 0; i < values.length; i++) {
+      let value = values[i];
+      for (const stage of this.stages) {
+        value = stage.process(value, i % channelCount);
+      }
+      output[i] = value;
+    }
+
+    return output;
+  }
+
+  /**
+   * Clear the filter state, e.g. after a reconnect or a gap in the data
+   */
+  reset(): void {
+    this.stages.forEach(stage => stage.reset());
+  }
+}
+
+/**
+ * Create a filter chain for the given montage (channel count and sample rate)
+ */
+export function createFilterChain(
+  montage: Montage,
+  settings: FilterSettings = DEFAULT_FILTER_SETTINGS
+): EegFilterChain {
+  return new EegFilterChain(settings, montage);
+}
+
+/**
+ * Summarize the enabled stages in EDF prefiltering notation, e.g. "HP:0.5Hz LP:45Hz N:50Hz"
+ */
+export function describeFilterSettings(settings: FilterSettings): string {
+  const parts: string[] = [];
+
+  if (settings.highPass.enabled) parts.push(`HP:${settings.highPass.cutoff}Hz`);
+  if (settings.bandPass.enabled) {
+    parts.push(`HP:${settings.bandPass.low}Hz`, `LP:${settings.bandPass.high}Hz`);
+  }
+  if (settings.notch.enabled) parts.push(`N:${settings.notch.frequency}Hz`);
+
+  return parts.length ? parts.join(' ') : 'None';
+}
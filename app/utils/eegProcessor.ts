@@ -6,196 +6,192 @@
  * for the neural network classifier.
  */
 
+import { BAND_NAMES, BandPowers, computeBandPowers } from './spectralAnalysis';
+import { Montage, DEFAULT_MONTAGE, resolveAsymmetryPairs } from './montage';
+import { EegEpoch, epochChannel, epochSize } from './ringBuffer';
+
+// One multichannel sample; values follow the channel order of the montage
 export interface EegChannelData {
-  eeg1: number;
-  eeg2: number;
-  eeg3: number;
-  eeg4: number;
-  eeg5: number;
-  eeg6: number;
-  eeg7: number;
-  eeg8: number;
+  channels: number[];
   timestamp: number;
 }
 
+// Band power ratios included in the feature vector (numerator, denominator)
+export const BAND_RATIOS = {
+  theta_beta: ['theta', 'beta'],
+  alpha_beta: ['alpha', 'beta'],
+  alpha_theta: ['alpha', 'theta']
+} as const;
+
+export type BandRatioName = keyof typeof BAND_RATIOS;
+
+const RATIO_NAMES = Object.keys(BAND_RATIOS) as BandRatioName[];
+
+export type FeatureKind = 'abs' | 'rel' | 'ratio' | 'asymmetry';
+
 /**
- * Extract features from raw EEG data for emotion classification
- * In a real implementation, this would perform more sophisticated feature extraction
- * like frequency domain analysis, power spectral density, etc.
+ * Stable, named layout of the feature vector for a montage. Every feature
+ * record produced by extractFeatures has exactly these keys, and
+ * featuresToVector emits values in this order, so a network trained on one
+ * layout can be fed directly.
+ *
+ * Per channel: absolute band power (log10 µV²), relative band power (0-1)
+ * and band power ratios. Then one alpha asymmetry index per left/right pair
+ * the montage can resolve.
  */
-export function extractFeatures(eegData: EegChannelData[]): Record<string, number> {
-  if (!eegData.length) {
-    throw new Error('No EEG data provided for feature extraction');
-  }
+export function getFeatureLayout(montage: Montage = DEFAULT_MONTAGE): string[] {
+  const channelFeatures = montage.channels.flatMap(channel => [
+    ...BAND_NAMES.map(band => `${channel}_${band}_abs`),
+    ...BAND_NAMES.map(band => `${channel}_${band}_rel`),
+    ...RATIO_NAMES.map(ratio => `${channel}_${ratio}`)
+  ]);
   
-  // Simple averaging of values as a placeholder
-  // In a real application, you would calculate more complex features
-  // like alpha/beta/theta/delta power ratios, asymmetry indices, etc.
-  const features = {
-    eeg1: 0, eeg2: 0, eeg3: 0, eeg4: 0, 
-    eeg5: 0, eeg6: 0, eeg7: 0, eeg8: 0
-  };
+  const asymmetryFeatures = resolveAsymmetryPairs(montage).map(pair => `${pair.name}_alpha_asymmetry`);
   
-  eegData.forEach(sample => {
-    features.eeg1 += sample.eeg1 / eegData.length;
-    features.eeg2 += sample.eeg2 / eegData.length;
-    features.eeg3 += sample.eeg3 / eegData.length;
-    features.eeg4 += sample.eeg4 / eegData.length;
-    features.eeg5 += sample.eeg5 / eegData.length;
-    features.eeg6 += sample.eeg6 / eegData.length;
-    features.eeg7 += sample.eeg7 / eegData.length;
-    features.eeg8 += sample.eeg8 / eegData.length;
-  });
+  return [...channelFeatures, ...asymmetryFeatures];
+}
+
+// Expected value range of each feature kind, used for 0-1 normalization
+export const FEATURE_RANGES: Record<FeatureKind, [number, number]> = {
+  abs: [-1, 3],
+  rel: [0, 1],
+  ratio: [0, 5],
+  asymmetry: [-2, 2]
+};
+
+/**
+ * Work out which kind of feature a layout key refers to
+ */
+export function getFeatureKind(key: string): FeatureKind {
+  if (key.endsWith('_abs')) return 'abs';
+  if (key.endsWith('_rel')) return 'rel';
+  if (key.endsWith('_asymmetry')) return 'asymmetry';
+  return 'ratio';
+}
+
+/**
+ * Compute absolute band powers for every montage channel in a window of EEG samples
+ */
+export function computeChannelBandPowers(
+  eegData: EegEpoch,
+  montage: Montage = DEFAULT_MONTAGE
+): BandPowers[] {
+  const { sampleRate } = montage;
   
-  return features;
+  return montage.channels.map((_label, index) => {
+    const signal = epochChannel(eegData, index);
+    // Two-second Welch segments give 0.5 Hz resolution, enough to split delta from theta
+    return computeBandPowers(signal, sampleRate, {
+      segmentLength: Math.min(signal.length, sampleRate * 2),
+      overlap: 0.5
+    });
+  });
 }
 
 /**
- * Normalize EEG features to a 0-1 range for the neural network
+ * Turn per-channel band powers (in montage order) into a feature record
+ * following getFeatureLayout(montage)
  */
-export function normalizeFeatures(features: Record<string, number>, min: number = -50, max: number = 50): Record<string, number> {
-  const normalized = { ...features };
+export function bandPowersToFeatures(
+  bandPowers: BandPowers[],
+  montage: Montage = DEFAULT_MONTAGE
+): Record<string, number> {
+  const features: Record<string, number> = {};
+  const epsilon = 1e-10;
   
-  Object.keys(normalized).forEach(key => {
-    const k = key as keyof typeof normalized;
-    // Map from min-max range to 0-1
-    normalized[k] = (normalized[k] - min) / (max - min);
+  montage.channels.forEach((channel, index) => {
+    const powers = bandPowers[index];
+    const total = BAND_NAMES.reduce((sum, band) => sum + powers[band], 0);
     
-    // Clamp values to 0-1 range
-    normalized[k] = Math.max(0, Math.min(1, normalized[k]));
+    BAND_NAMES.forEach(band => {
+      features[`${channel}_${band}_abs`] = Math.log10(powers[band] + epsilon);
+    });
+    
+    BAND_NAMES.forEach(band => {
+      features[`${channel}_${band}_rel`] = total > 0 ? powers[band] / total : 0;
+    });
+    
+    RATIO_NAMES.forEach(ratio => {
+      const [numerator, denominator] = BAND_RATIOS[ratio];
+      features[`${channel}_${ratio}`] = powers[numerator] / (powers[denominator] + epsilon);
+    });
   });
   
-  return normalized;
+  // Alpha asymmetry: ln(right) - ln(left). Alpha is inversely related to
+  // cortical activity, so positive values mean relatively more left activation
+  resolveAsymmetryPairs(montage).forEach(pair => {
+    const left = bandPowers[pair.leftIndex].alpha + epsilon;
+    const right = bandPowers[pair.rightIndex].alpha + epsilon;
+    features[`${pair.name}_alpha_asymmetry`] = Math.log(right) - Math.log(left);
+  });
+  
+  return features;
+}
+
+/**
+ * Extract spectral features from a window of raw EEG data for emotion classification.
+ *
+ * Computes a Welch PSD per channel, integrates delta/theta/alpha/beta/gamma
+ * band power and returns absolute power, relative power, band ratios and
+ * hemispheric alpha asymmetry keyed by getFeatureLayout(montage).
+ */
+export function extractFeatures(
+  eegData: EegEpoch,
+  montage: Montage = DEFAULT_MONTAGE
+): Record<string, number> {
+  const sampleCount = epochSize(eegData);
+  
+  if (!sampleCount) {
+    throw new Error('No EEG data provided for feature extraction');
+  }
+  
+  if (sampleCount < 2) {
+    throw new Error('At least two EEG samples are required for spectral feature extraction');
+  }
+  
+  return bandPowersToFeatures(computeChannelBandPowers(eegData, montage), montage);
 }
 
 /**
- * Generate simulated EEG data for testing
- * This would be replaced with actual data from the Unicorn API
+ * Flatten a feature record into an array ordered by the montage feature layout
  */
-export function generateSimulatedEegData(): EegChannelData {
-  return {
-    eeg1: Math.random() * 100 - 50, // Random values between -50 and 50
-    eeg2: Math.random() * 100 - 50,
-    eeg3: Math.random() * 100 - 50,
-    eeg4: Math.random() * 100 - 50,
-    eeg5: Math.random() * 100 - 50,
-    eeg6: Math.random() * 100 - 50,
-    eeg7: Math.random() * 100 - 50,
-    eeg8: Math.random() * 100 - 50,
-    timestamp: Date.now()
-  };
+export function featuresToVector(features: Record<string, number>, montage: Montage = DEFAULT_MONTAGE): number[] {
+  return getFeatureLayout(montage).map(key => features[key] ?? 0);
 }
 
 /**
- * Generate different simulated EEG patterns based on emotion
- * This is for demonstration purposes only
+ * Average each channel over a window of samples, keyed by channel label
  */
-export function generateEmotionPattern(emotion: string): EegChannelData {
-  const basePattern = {
-    timestamp: Date.now(),
-    eeg1: 0, eeg2: 0, eeg3: 0, eeg4: 0,
-    eeg5: 0, eeg6: 0, eeg7: 0, eeg8: 0
-  };
+export function averageChannels(eegData: EegChannelData[], montage: Montage = DEFAULT_MONTAGE): Record<string, number> {
+  const averages: Record<string, number> = {};
   
-  const randomize = (base: number) => base + (Math.random() * 10 - 5);
+  montage.channels.forEach((label, index) => {
+    averages[label] = eegData.reduce((sum, sample) => sum + sample.channels[index], 0) / Math.max(1, eegData.length);
+  });
   
-  switch (emotion) {
-    case 'happy':
-      // Higher activity in left frontal region (eeg1, eeg2)
-      return {
-        ...basePattern,
-        eeg1: randomize(40),
-        eeg2: randomize(30),
-        eeg3: randomize(25),
-        eeg4: randomize(20),
-        eeg5: randomize(15),
-        eeg6: randomize(15),
-        eeg7: randomize(10),
-        eeg8: randomize(10)
-      };
-      
-    case 'sad':
-      // Higher activity in right frontal region (eeg5, eeg6)
-      return {
-        ...basePattern,
-        eeg1: randomize(15),
-        eeg2: randomize(20),
-        eeg3: randomize(20),
-        eeg4: randomize(25),
-        eeg5: randomize(35),
-        eeg6: randomize(40),
-        eeg7: randomize(30),
-        eeg8: randomize(25)
-      };
-      
-    case 'angry':
-      // Higher overall activity
-      return {
-        ...basePattern,
-        eeg1: randomize(35),
-        eeg2: randomize(40),
-        eeg3: randomize(35),
-        eeg4: randomize(35),
-        eeg5: randomize(35),
-        eeg6: randomize(40),
-        eeg7: randomize(45),
-        eeg8: randomize(40)
-      };
-      
-    case 'calm':
-      // Lower overall activity, more balanced
-      return {
-        ...basePattern,
-        eeg1: randomize(15),
-        eeg2: randomize(15),
-        eeg3: randomize(20),
-        eeg4: randomize(20),
-        eeg5: randomize(15),
-        eeg6: randomize(15),
-        eeg7: randomize(15),
-        eeg8: randomize(15)
-      };
-      
-    case 'fear':
-      // High temporal and parietal activity
-      return {
-        ...basePattern,
-        eeg1: randomize(30),
-        eeg2: randomize(35),
-        eeg3: randomize(40),
-        eeg4: randomize(35),
-        eeg5: randomize(45),
-        eeg6: randomize(40),
-        eeg7: randomize(35),
-        eeg8: randomize(45)
-      };
-      
-    case 'surprise':
-      // Burst of activity
-      return {
-        ...basePattern,
-        eeg1: randomize(45),
-        eeg2: randomize(40),
-        eeg3: randomize(35),
-        eeg4: randomize(30),
-        eeg5: randomize(35),
-        eeg6: randomize(40),
-        eeg7: randomize(45),
-        eeg8: randomize(35)
-      };
-      
-    default: // neutral
-      // Balanced activity
-      return {
-        ...basePattern,
-        eeg1: randomize(25),
-        eeg2: randomize(25),
-        eeg3: randomize(25),
-        eeg4: randomize(25),
-        eeg5: randomize(25),
-        eeg6: randomize(25),
-        eeg7: randomize(25),
-        eeg8: randomize(25)
-      };
-  }
+  return averages;
+}
+
+/**
+ * Normalize EEG features to a 0-1 range for the neural network.
+ *
+ * When min/max are omitted each feature is scaled using the expected range
+ * of its kind (see FEATURE_RANGES).
+ */
+export function normalizeFeatures(features: Record<string, number>, min?: number, max?: number): Record<string, number> {
+  const normalized = { ...features };
+  
+  Object.keys(normalized).forEach(key => {
+    const [low, high] = min !== undefined && max !== undefined
+      ? [min, max]
+      : FEATURE_RANGES[getFeatureKind(key)];
+    
+    // Map from min-max range to 0-1
+    normalized[key] = (normalized[key] - low) / (high - low);
+    
+    // Clamp values to 0-1 range
+    normalized[key] = Math.max(0, Math.min(1, normalized[key]));
+  });
+  
+  return normalized;
 } 
\ No newline at end of file
@@ -0,0 +1,162 @@
+/**
+ * EEG Source Utility
+ *
+ * This module defines the EegSource interface that every provider of EEG
+ * samples implements (the simulator, file replay, a WebSocket feed or the
+ * device bridge), plus a base class that handles listener bookkeeping.
+ * Consumers only ever talk to this interface, so the Brain Wave Monitor works
+ * unchanged with any source.
+ */
+
+import { EegChannelData } from './eegProcessor';
+import { Montage } from './montage';
+import {
+  AffectTarget,
+  SyntheticArtifactOptions,
+  SyntheticEegGenerator,
+  SyntheticEegOptions
+} from './syntheticEeg';
+
+export type EegSourceStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+export type SamplesListener = (samples: EegChannelData[]) => void;
+
+export type StatusListener = (status: EegSourceStatus, message?: string) => void;
+
+export type ResetListener = () => void;
+
+export interface EegSource {
+  readonly name: string;
+  // Channel layout, sample rate and units of the delivered samples
+  readonly montage: Montage;
+  readonly sampleRate: number;
+  readonly status: EegSourceStatus;
+
+  connect(): Promise<void>;
+  disconnect(): void;
+
+  // All return an unsubscribe function
+  onSamples(listener: SamplesListener): () => void;
+  onStatus(listener: StatusListener): () => void;
+  // The stream jumped (e.g. a replay was seeked or looped); buffered samples
+  // and filter state from before the jump no longer apply
+  onReset(listener: ResetListener): () => void;
+}
+
+/**
+ * Shared listener handling for EegSource implementations
+ */
+export abstract class BaseEegSource implements EegSource {
+  abstract readonly name: string;
+  readonly montage: Montage;
+  private currentStatus: EegSourceStatus = 'disconnected';
+  private sampleListeners: SamplesListener[] = [];
+  private statusListeners: StatusListener[] = [];
+  private resetListeners: ResetListener[] = [];
+
+  constructor(montage: Montage) {
+    this.montage = montage;
+  }
+
+  get sampleRate(): number {
+    return this.montage.sampleRate;
+  }
+
+  get status(): EegSourceStatus {
+    return this.currentStatus;
+  }
+
+  abstract connect(): Promise<void>;
+  abstract disconnect(): void;
+
+  onSamples(listener: SamplesListener): () => void {
+    this.sampleListeners.push(listener);
+    return () => {
+      this.sampleListeners = this.sampleListeners.filter(l => l !== listener);
+    };
+  }
+
+  onStatus(listener: StatusListener): () => void {
+    this.statusListeners.push(listener);
+    return () => {
+      this.statusListeners = this.statusListeners.filter(l => l !== listener);
+    };
+  }
+
+  onReset(listener: ResetListener): () => void {
+    this.resetListeners.push(listener);
+    return () => {
+      this.resetListeners = this.resetListeners.filter(l => l !== listener);
+    };
+  }
+
+  protected emitSamples(samples: EegChannelData[]): void {
+    if (!samples.length) return;
+    this.sampleListeners.forEach(listener => listener(samples));
+  }
+
+  protected emitReset(): void {
+    this.resetListeners.forEach(listener => listener());
+  }
+
+  protected setStatus(status: EegSourceStatus, message?: string): void {
+    this.currentStatus = status;
+    this.statusListeners.forEach(listener => listener(status, message));
+  }
+}
+
+/**
+ * Simulated source for development and demos without a headset.
+ * Streams seeded synthetic EEG at the montage's sample rate in 100ms batches;
+ * the simulated emotion and artifacts can be changed while connected.
+ */
+export class SimulatedEegSource extends BaseEegSource {
+  readonly name = 'Simulator';
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private generator: SyntheticEegGenerator | null = null;
+  private options: SyntheticEegOptions;
+
+  constructor(montage: Montage, options: SyntheticEegOptions = {}) {
+    super(montage);
+    this.options = options;
+  }
+
+  async connect(): Promise<void> {
+    if (this.intervalId) return;
+
+    this.setStatus('connecting');
+
+    const batchMs = 100;
+    const samplesPerBatch = Math.max(1, Math.round((this.sampleRate * batchMs) / 1000));
+    const generator = new SyntheticEegGenerator(this.montage, { ...this.options, startTime: Date.now() });
+    this.generator = generator;
+
+    this.intervalId = setInterval(() => {
+      this.emitSamples(generator.generate(samplesPerBatch));
+    }, batchMs);
+
+    this.setStatus('connected');
+  }
+
+  disconnect(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.generator = null;
+    this.setStatus('disconnected');
+  }
+
+  /**
+   * Morph the simulated signal towards another emotional state
+   */
+  setTarget(target: AffectTarget, transitionSeconds?: number): void {
+    this.options = { ...this.options, target };
+    this.generator?.setTarget(target, transitionSeconds);
+  }
+
+  setArtifacts(artifacts: Partial<SyntheticArtifactOptions>): void {
+    this.options = { ...this.options, artifacts: { ...this.options.artifacts, ...artifacts } };
+    this.generator?.setArtifacts(artifacts);
+  }
+}
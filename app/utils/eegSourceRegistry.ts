@@ -0,0 +1,66 @@
+/**
+ * EEG Source Registry
+ *
+ * This module lists the EEG sources the Brain Wave Monitor can connect to.
+ * Each entry describes how to create the source and whether the user picks
+ * the montage (simulated sources) or the source declares its own. Replay
+ * sources take their montage from the loaded recording.
+ */
+
+import { EegSource, SimulatedEegSource } from './eegSource';
+import { WebSocketEegSource } from './websocketEegSource';
+import { ReplayEegSource } from './replayEegSource';
+import { EegRecording } from './sessionImport';
+import { Montage, DEFAULT_MONTAGE } from './montage';
+
+export interface EegSourceDescriptor {
+  id: string;
+  label: string;
+  description: string;
+  // Whether the user chooses the montage, or the source dictates it
+  configurableMontage: boolean;
+  defaultMontage: Montage;
+  // Plays back a recording loaded by the user instead of streaming
+  requiresRecording?: boolean;
+  create: (montage: Montage, recording?: EegRecording) => EegSource;
+}
+
+export const EEG_SOURCES: EegSourceDescriptor[] = [
+  {
+    id: 'simulator',
+    label: 'Simulator',
+    description: 'Synthetic EEG with a selectable emotional state, for testing without a headset',
+    configurableMontage: true,
+    defaultMontage: DEFAULT_MONTAGE,
+    create: montage => new SimulatedEegSource(montage)
+  },
+  {
+    id: 'websocket',
+    label: 'External stream',
+    description: 'Samples published to /api/eeg-stream by a local acquisition process',
+    configurableMontage: true,
+    defaultMontage: DEFAULT_MONTAGE,
+    create: montage => new WebSocketEegSource(montage)
+  },
+  {
+    id: 'replay',
+    label: 'Session replay',
+    description: 'Plays a recorded session (EDF+ or CSV) through the live pipeline',
+    configurableMontage: false,
+    defaultMontage: DEFAULT_MONTAGE,
+    requiresRecording: true,
+    create: (_montage, recording) => {
+      if (!recording) {
+        throw new Error('Load a recording to replay first');
+      }
+      return new ReplayEegSource(recording);
+    }
+  }
+];
+
+/**
+ * Look up a source descriptor by id, falling back to the first entry
+ */
+export function getEegSourceDescriptor(id: string): EegSourceDescriptor {
+  return EEG_SOURCES.find(source => source.id === id) || EEG_SOURCES[0];
+}
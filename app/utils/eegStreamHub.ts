@@ -0,0 +1,129 @@
+/**
+ * EEG Stream Hub (server only)
+ *
+ * This module runs the WebSocket side of /api/eeg-stream inside the Next.js
+ * server. It accepts one publisher at a time (the local acquisition process),
+ * validates its frames and fans every sample batch out to all connected
+ * browser subscribers.
+ */
+
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { Montage } from './montage';
+import {
+  EEG_STREAM_PATH,
+  MAX_STREAM_FRAME_BYTES,
+  StreamMessage,
+  parseStreamMessage
+} from './eegStreamProtocol';
+
+export interface EegStreamHubStats {
+  publisherConnected: boolean;
+  montage: Montage | null;
+  subscribers: number;
+  batchesRelayed: number;
+}
+
+export class EegStreamHub {
+  private readonly wss: WebSocketServer;
+  private publisher: WebSocket | null = null;
+  private montage: Montage | null = null;
+  private readonly subscribers = new Set<WebSocket>();
+  private batchesRelayed = 0;
+
+  constructor() {
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: MAX_STREAM_FRAME_BYTES });
+    this.wss.on('connection', socket => this.handleConnection(socket));
+  }
+
+  /**
+   * Route HTTP upgrades for the stream path to this hub
+   */
+  attach(server: Server): void {
+    server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname } = new URL(request.url || '', 'http://localhost');
+      if (pathname !== EEG_STREAM_PATH) return;
+
+      this.wss.handleUpgrade(request, socket, head, ws => {
+        this.wss.emit('connection', ws, request);
+      });
+    });
+  }
+
+  get stats(): EegStreamHubStats {
+    return {
+      publisherConnected: this.publisher !== null,
+      montage: this.montage,
+      subscribers: this.subscribers.size,
+      batchesRelayed: this.batchesRelayed
+    };
+  }
+
+  private send(socket: WebSocket, message: StreamMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  private broadcast(message: StreamMessage): void {
+    const frame = JSON.stringify(message);
+    this.subscribers.forEach(subscriber => {
+      if (subscriber.readyState === WebSocket.OPEN) {
+        subscriber.send(frame);
+      }
+    });
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    let role: 'publisher' | 'subscriber' | null = null;
+
+    socket.on('message', (data: RawData) => {
+      let message: StreamMessage;
+
+      try {
+        const channelCount = role === 'publisher' && this.montage ? this.montage.channels.length : undefined;
+        message = parseStreamMessage(data.toString(), channelCount);
+      } catch (error: any) {
+        this.send(socket, { type: 'status', publisherConnected: this.publisher !== null, message: error.message });
+        return;
+      }
+
+      if (message.type === 'hello' && role === null) {
+        if (message.role === 'publisher') {
+          if (this.publisher) {
+            this.send(socket, { type: 'status', publisherConnected: true, message: 'Another publisher is already streaming' });
+            socket.close(4409, 'Publisher already connected');
+            return;
+          }
+          role = 'publisher';
+          this.publisher = socket;
+          this.montage = message.montage || null;
+          this.broadcast({ type: 'montage', montage: this.montage });
+          this.broadcast({ type: 'status', publisherConnected: true });
+        } else {
+          role = 'subscriber';
+          this.subscribers.add(socket);
+          this.send(socket, { type: 'montage', montage: this.montage });
+          this.send(socket, { type: 'status', publisherConnected: this.publisher !== null });
+        }
+        return;
+      }
+
+      if (message.type === 'samples' && role === 'publisher') {
+        this.batchesRelayed++;
+        this.broadcast(message);
+      }
+    });
+
+    socket.on('close', () => {
+      if (role === 'publisher' && this.publisher === socket) {
+        this.publisher = null;
+        this.montage = null;
+        this.broadcast({ type: 'status', publisherConnected: false, message: 'Publisher disconnected' });
+      } else if (role === 'subscriber') {
+        this.subscribers.delete(socket);
+      }
+    });
+  }
+}
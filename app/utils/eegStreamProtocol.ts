@@ -0,0 +1,133 @@
+/**
+ * EEG Stream Protocol
+ *
+ * This module defines the JSON frames exchanged over the /api/eeg-stream
+ * WebSocket. An external acquisition process connects as a publisher,
+ * announces its montage and sends timestamped multichannel sample batches;
+ * browser clients connect as subscribers and receive the same batches.
+ *
+ * Publisher -> server:  hello (role: publisher, montage), samples
+ * Subscriber -> server: hello (role: subscriber)
+ * Server -> subscriber: montage, samples, status
+ */
+
+import { EegChannelData } from './eegProcessor';
+import { Montage } from './montage';
+
+export const EEG_STREAM_PATH = '/api/eeg-stream';
+
+// Largest frame the server accepts, in bytes
+export const MAX_STREAM_FRAME_BYTES = 1024 * 1024;
+
+export type StreamRole = 'publisher' | 'subscriber';
+
+export interface HelloMessage {
+  type: 'hello';
+  role: StreamRole;
+  // Required for publishers
+  montage?: Montage;
+}
+
+export interface SamplesMessage {
+  type: 'samples';
+  // Batch counter, incremented by the publisher for every batch
+  seq: number;
+  // One timestamp (ms since epoch) per sample
+  timestamps: number[];
+  // One row of channel values per sample, in montage order
+  samples: number[][];
+}
+
+export interface MontageMessage {
+  type: 'montage';
+  montage: Montage | null;
+}
+
+export interface StatusMessage {
+  type: 'status';
+  publisherConnected: boolean;
+  message?: string;
+}
+
+export type StreamMessage = HelloMessage | SamplesMessage | MontageMessage | StatusMessage;
+
+/**
+ * Check that a value is a structurally valid montage
+ */
+function isMontage(value: any): value is Montage {
+  return !!value &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    Array.isArray(value.channels) &&
+    value.channels.length > 0 &&
+    value.channels.every((label: unknown) => typeof label === 'string') &&
+    typeof value.sampleRate === 'number' &&
+    value.sampleRate > 0 &&
+    typeof value.units === 'string';
+}
+
+/**
+ * Parse and validate a raw stream frame.
+ * Throws with a descriptive message if the frame is malformed.
+ */
+export function parseStreamMessage(raw: string, channelCount?: number): StreamMessage {
+  let message: any;
+
+  try {
+    message = JSON.parse(raw);
+  } catch (error) {
+    throw new Error('Frame is not valid JSON');
+  }
+
+  switch (message?.type) {
+    case 'hello':
+      if (message.role !== 'publisher' && message.role !== 'subscriber') {
+        throw new Error('hello.role must be "publisher" or "subscriber"');
+      }
+      if (message.role === 'publisher' && !isMontage(message.montage)) {
+        throw new Error('Publishers must announce a valid montage');
+      }
+      return message as HelloMessage;
+
+    case 'samples': {
+      const { seq, timestamps, samples } = message;
+      if (typeof seq !== 'number' || !Array.isArray(timestamps) || !Array.isArray(samples)) {
+        throw new Error('samples frames need seq, timestamps and samples');
+      }
+      if (timestamps.length !== samples.length) {
+        throw new Error('samples and timestamps must have the same length');
+      }
+      const validRows = samples.every((row: unknown) =>
+        Array.isArray(row) &&
+        (channelCount === undefined || row.length === channelCount) &&
+        row.every(value => typeof value === 'number' && Number.isFinite(value))
+      );
+      if (!validRows || !timestamps.every((t: unknown) => typeof t === 'number')) {
+        throw new Error(`Every sample must be ${channelCount ?? 'a list of'} finite channel values`);
+      }
+      return message as SamplesMessage;
+    }
+
+    case 'montage':
+      if (message.montage !== null && !isMontage(message.montage)) {
+        throw new Error('montage frame carries an invalid montage');
+      }
+      return message as MontageMessage;
+
+    case 'status':
+      return message as StatusMessage;
+
+    default:
+      throw new Error(`Unknown frame type: ${message?.type}`);
+  }
+}
+
+/**
+ * Convert a samples frame into EegChannelData
+ */
+export function samplesMessageToEegData(message: SamplesMessage): EegChannelData[] {
+  return message.samples.map((channels, index) => ({
+    channels,
+    timestamp: message.timestamps[index]
+  }));
+}
@@ -0,0 +1,324 @@
+/**
+ * Emotion Classifier Utility
+ *
+ * This module is the single emotion classifier service: an EmotionClassifier
+ * wraps a classifier backend (see classifierBackendRegistry) together with
+ * its model metadata, is created either from a stored model file or by
+ * training, and turns feature epochs into emotion predictions. Sequential
+ * backends are given the preceding epochs as context, or keep the recent
+ * ones themselves when fed a live stream. It has no React or DOM
+ * dependencies so it can run inside the EEG pipeline worker.
+ */
+
+import {
+  bandPowersToFeatures,
+  extractFeatures,
+  getFeatureLayout,
+  normalizeFeatures
+} from './eegProcessor';
+import { BAND_NAMES, BandPowers } from './spectralAnalysis';
+import { Montage, getHemisphere } from './montage';
+import { CalibrationProfile, normalizeWithProfile } from './calibration';
+import { AffectCoordinates, affectToUnit, emotionToAffect, unitToAffect } from './circumplex';
+import { EegEpoch } from './ringBuffer';
+import {
+  AFFECT_OUTPUTS,
+  BackendSample,
+  ClassifierBackend,
+  ClassifierTrainingOptions,
+  DEFAULT_TRAINING_OPTIONS,
+  MAX_CONTEXT_GAP_MS,
+  TrainingProgress
+} from './classifierBackend';
+import { getClassifierBackend } from './classifierBackendRegistry';
+import {
+  EMOTION_MODEL_FORMAT,
+  EMOTION_MODEL_VERSION,
+  EmotionModelFile,
+  EmotionModelMetadata,
+  ModelNormalization,
+  ModelOrigin,
+  checkModelCompatibility,
+  createModelMetadata,
+  prototypeModelId
+} from './emotionModel';
+import { DEFAULT_CONFIDENCE_THRESHOLD, EmotionPrediction, createPrediction } from './emotionPrediction';
+
+export const EMOTIONS = ['happy', 'sad', 'angry', 'calm', 'fear', 'surprise', 'neutral'];
+
+// One labeled feature record, as extracted (normalization happens at training time)
+export interface TrainingRow {
+  features: Record<string, number>;
+  label: string;
+  // Valence/arousal target; defaults to the label's position on the circumplex
+  affect?: AffectCoordinates;
+  // Features of the consecutive epochs before this one, oldest first, for sequential backends
+  context?: Record<string, number>[];
+}
+
+interface EmotionBandProfile {
+  // Relative band power shape shared by all channels
+  bands: BandPowers;
+  // Overall power scale in µV²
+  scale: number;
+  // Alpha asymmetry: positive means less left alpha (more left activation)
+  asymmetry: number;
+}
+
+// Typical spectral signatures reported for each emotional state
+const EMOTION_BAND_PROFILES: Record<string, EmotionBandProfile> = {
+  happy:    { bands: { delta: 0.20, theta: 0.15, alpha: 0.35, beta: 0.22, gamma: 0.08 }, scale: 40, asymmetry: 0.3 },
+  sad:      { bands: { delta: 0.25, theta: 0.22, alpha: 0.33, beta: 0.15, gamma: 0.05 }, scale: 35, asymmetry: -0.3 },
+  angry:    { bands: { delta: 0.15, theta: 0.12, alpha: 0.18, beta: 0.38, gamma: 0.17 }, scale: 60, asymmetry: 0.2 },
+  calm:     { bands: { delta: 0.18, theta: 0.17, alpha: 0.48, beta: 0.13, gamma: 0.04 }, scale: 45, asymmetry: 0 },
+  fear:     { bands: { delta: 0.18, theta: 0.24, alpha: 0.16, beta: 0.30, gamma: 0.12 }, scale: 55, asymmetry: -0.2 },
+  surprise: { bands: { delta: 0.22, theta: 0.20, alpha: 0.20, beta: 0.26, gamma: 0.12 }, scale: 65, asymmetry: 0.1 },
+  neutral:  { bands: { delta: 0.22, theta: 0.18, alpha: 0.30, beta: 0.22, gamma: 0.08 }, scale: 40, asymmetry: 0 }
+};
+
+/**
+ * Normalize features against the calibration baseline when the model uses
+ * one, otherwise against the fixed per-kind ranges
+ */
+export function normalizeForModel(features: Record<string, number>, normalization: ModelNormalization) {
+  return normalization.method === 'calibration'
+    ? normalizeWithProfile(features, normalization.profile)
+    : normalizeFeatures(features);
+}
+
+/**
+ * Normalization a model trained against the given (optional) baseline uses
+ */
+export function profileNormalization(profile: CalibrationProfile | null): ModelNormalization {
+  return profile ? { method: 'calibration', profile } : { method: 'fixed-range' };
+}
+
+/**
+ * Build jittered feature-space training rows from the emotion band profiles
+ */
+function buildPrototypeTrainingData(rowsPerEmotion: number, montage: Montage): TrainingRow[] {
+  const jitter = () => 1 + (Math.random() * 0.2 - 0.1);
+  const rows: TrainingRow[] = [];
+
+  EMOTIONS.forEach(emotion => {
+    const bandProfile = EMOTION_BAND_PROFILES[emotion];
+
+    for (let i = 0; i < rowsPerEmotion; i++) {
+      const bandPowers = montage.channels.map(label => {
+        const powers = {} as BandPowers;
+        BAND_NAMES.forEach(band => {
+          powers[band] = bandProfile.bands[band] * bandProfile.scale * jitter();
+        });
+
+        const hemisphere = getHemisphere(label);
+        if (hemisphere === 'left') powers.alpha *= 1 - bandProfile.asymmetry;
+        if (hemisphere === 'right') powers.alpha *= 1 + bandProfile.asymmetry;
+
+        return powers;
+      });
+
+      rows.push({
+        features: bandPowersToFeatures(bandPowers, montage),
+        label: emotion
+      });
+    }
+  });
+
+  return rows;
+}
+
+/**
+ * A classifier backend together with the metadata describing its inputs and labels
+ */
+export class EmotionClassifier {
+  readonly metadata: EmotionModelMetadata;
+  private readonly backend: ClassifierBackend;
+  // Latest features of a live stream, oldest first (see predictNext)
+  private recent: Record<string, number>[] = [];
+  // Time of the latest epoch in recent, if the stream supplied one
+  private recentTimestamp: number | null = null;
+
+  private constructor(backend: ClassifierBackend, metadata: EmotionModelMetadata) {
+    this.backend = backend;
+    this.metadata = metadata;
+  }
+
+  /**
+   * Load a classifier from a model file, rejecting models built for a
+   * different feature layout than the montage produces
+   */
+  static fromModel(model: EmotionModelFile, montage: Montage): EmotionClassifier {
+    const incompatibility = checkModelCompatibility(model, montage);
+    if (incompatibility) {
+      throw new Error(incompatibility);
+    }
+
+    const backend = getClassifierBackend(model.metadata.backend).fromJSON(model.parameters, model.metadata);
+    return new EmotionClassifier(backend, model.metadata);
+  }
+
+  /**
+   * Train the built-in prototype for the feature layout of the given montage,
+   * with features normalized against the calibration profile if one is given
+   */
+  static async trainPrototype(montage: Montage, profile: CalibrationProfile | null): Promise<EmotionClassifier> {
+    // Prototype training data synthesized in feature space.
+    // In a real implementation, you would use actual EEG epochs
+    // associated with known emotional states
+    return EmotionClassifier.train(
+      buildPrototypeTrainingData(4, montage),
+      montage,
+      profileNormalization(profile),
+      {
+        name: `Prototype for ${montage.name}${profile ? ` (${profile.name})` : ''}`,
+        origin: 'prototype',
+        id: prototypeModelId(montage, profile)
+      }
+    );
+  }
+
+  /**
+   * Train a classifier on labeled feature records with the backend named in
+   * the options. The label set is every label present in the rows, in
+   * EMOTIONS order; valence and arousal are learned as two extra outputs.
+   */
+  static async train(
+    rows: TrainingRow[],
+    montage: Montage,
+    normalization: ModelNormalization,
+    details: { name: string; origin: ModelOrigin; id?: string },
+    options: ClassifierTrainingOptions = DEFAULT_TRAINING_OPTIONS,
+    onProgress?: (progress: TrainingProgress) => void
+  ): Promise<EmotionClassifier> {
+    const present = new Set(rows.map(row => row.label));
+    const labels = [
+      ...EMOTIONS.filter(label => present.has(label)),
+      ...Array.from(present).filter(label => !EMOTIONS.includes(label))
+    ];
+
+    if (labels.length < 2) {
+      throw new Error('Training needs labeled epochs for at least two emotions');
+    }
+
+    const descriptor = getClassifierBackend(options.backend);
+    const sequenceLength = descriptor.sequential ? options.sequenceLength : 1;
+
+    const samples: BackendSample[] = rows.map(row => {
+      const affect = row.affect || emotionToAffect(row.label);
+      return {
+        sequence: [...(row.context || []), row.features]
+          .slice(-sequenceLength)
+          .map(features => normalizeForModel(features, normalization)),
+        label: row.label,
+        valence: affectToUnit(affect.valence),
+        arousal: affectToUnit(affect.arousal)
+      };
+    });
+
+    const layout = { featureLayout: getFeatureLayout(montage), labels, affectOutputs: true };
+    const result = await descriptor.train(samples, layout, options, onProgress);
+
+    const metadata: EmotionModelMetadata = {
+      ...createModelMetadata(
+        details.name,
+        montage,
+        normalization,
+        labels,
+        descriptor.id,
+        { origin: details.origin, samples: rows.length, iterations: result.iterations, error: result.error },
+        details.id
+      ),
+      affectOutputs: true
+    };
+
+    return new EmotionClassifier(result.backend, metadata);
+  }
+
+  /**
+   * Epochs the backend looks at, the current one included
+   */
+  get sequenceLength(): number {
+    return this.backend.sequenceLength;
+  }
+
+  /**
+   * Score every label for a feature record (unnormalized, as extracted),
+   * plus the valence/arousal outputs if the model has them. Sequential
+   * backends also use the preceding epochs' features, oldest first.
+   */
+  scoreFeatures(features: Record<string, number>, context: Record<string, number>[] = []): Record<string, number> {
+    const sequence = [...context, features]
+      .slice(-this.backend.sequenceLength)
+      .map(record => normalizeForModel(record, this.metadata.normalization));
+    return this.backend.score(sequence);
+  }
+
+  /**
+   * Predict from a raw feature record: probabilities over the model's labels,
+   * confidence, the uncertain state below the threshold and valence/arousal
+   */
+  predictFeatures(
+    features: Record<string, number>,
+    threshold: number = DEFAULT_CONFIDENCE_THRESHOLD,
+    context: Record<string, number>[] = []
+  ): EmotionPrediction {
+    const scores = this.scoreFeatures(features, context);
+    const affect = this.metadata.affectOutputs
+      ? { valence: unitToAffect(scores[AFFECT_OUTPUTS.valence]), arousal: unitToAffect(scores[AFFECT_OUTPUTS.arousal]) }
+      : undefined;
+
+    return createPrediction(scores, this.metadata.labels, threshold, affect);
+  }
+
+  /**
+   * Predict from the next epoch of a live stream, with the stream's
+   * preceding epochs as context. Given the epoch's timestamp, context older
+   * than MAX_CONTEXT_GAP_MS (rejected epochs, a paused source) is dropped
+   * first, as it is when training rows are built.
+   */
+  predictNext(
+    features: Record<string, number>,
+    threshold: number = DEFAULT_CONFIDENCE_THRESHOLD,
+    timestamp?: number
+  ): EmotionPrediction {
+    if (timestamp !== undefined) {
+      if (this.recentTimestamp !== null && timestamp - this.recentTimestamp > MAX_CONTEXT_GAP_MS) {
+        this.recent = [];
+      }
+      this.recentTimestamp = timestamp;
+    }
+
+    const prediction = this.predictFeatures(features, threshold, this.recent);
+    // Keep just enough history for the next epoch's sequence
+    const keep = this.backend.sequenceLength - 1;
+    this.recent = keep > 0 ? [...this.recent, features].slice(-keep) : [];
+    return prediction;
+  }
+
+  /**
+   * Forget the live stream's context, e.g. when the source changes
+   */
+  resetStream(): void {
+    this.recent = [];
+    this.recentTimestamp = null;
+  }
+
+  /**
+   * Predict from a single filtered epoch
+   */
+  predict(epoch: EegEpoch, montage: Montage, threshold: number = DEFAULT_CONFIDENCE_THRESHOLD): EmotionPrediction {
+    return this.predictFeatures(extractFeatures(epoch, montage), threshold);
+  }
+
+  /**
+   * Serialize the backend and metadata as a versioned model file
+   */
+  toModel(): EmotionModelFile {
+    return {
+      format: EMOTION_MODEL_FORMAT,
+      version: EMOTION_MODEL_VERSION,
+      metadata: this.metadata,
+      parameters: this.backend.toJSON()
+    };
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Emotion Fusion Utility
+ *
+ * This module combines the emotion read from the EEG with the emotion
+ * expressed in the user's chat messages (see textEmotion.ts). The two
+ * probability distributions are averaged with configurable weights, and
+ * the fused prediction records how much each modality contributed to the
+ * winning emotion so the chat can show which one dominated. Text without
+ * any emotion cues is left out rather than pulling the result to neutral.
+ */
+
+import { DEFAULT_CONFIDENCE_THRESHOLD, EmotionPrediction, createPrediction } from './emotionPrediction';
+import { TextEmotion } from './textEmotion';
+
+export type EmotionModality = 'eeg' | 'text';
+
+export interface FusionSettings {
+  // Relative weights; they do not need to sum to one, and zero leaves a modality out
+  eegWeight: number;
+  textWeight: number;
+}
+
+export const DEFAULT_FUSION_SETTINGS: FusionSettings = {
+  eegWeight: 0.6,
+  textWeight: 0.4
+};
+
+export interface FusedEmotion {
+  prediction: EmotionPrediction;
+  // The modality that contributed most to the most likely emotion
+  dominant: EmotionModality;
+  // Share of each modality in the most likely emotion's fused probability
+  contributions: Record<EmotionModality, number>;
+}
+
+export const MODALITY_LABELS: Record<EmotionModality, string> = {
+  eeg: 'EEG',
+  text: 'Text'
+};
+
+/**
+ * Fuse the EEG prediction with a message's text emotion, or return null if
+ * neither has anything to contribute
+ */
+export function fuseEmotions(
+  eeg: EmotionPrediction | null,
+  text: TextEmotion | null,
+  settings: FusionSettings = DEFAULT_FUSION_SETTINGS,
+  threshold: number = DEFAULT_CONFIDENCE_THRESHOLD
+): FusedEmotion | null {
+  const inputs: { modality: EmotionModality; prediction: EmotionPrediction; weight: number }[] = [];
+  if (eeg && settings.eegWeight > 0) {
+    inputs.push({ modality: 'eeg', prediction: eeg, weight: settings.eegWeight });
+  }
+  if (text && text.evidence > 0 && settings.textWeight > 0) {
+    inputs.push({ modality: 'text', prediction: text.prediction, weight: settings.textWeight });
+  }
+  if (inputs.length === 0) return null;
+
+  const totalWeight = inputs.reduce((sum, input) => sum + input.weight, 0);
+  const labels = Array.from(new Set(inputs.flatMap(input => Object.keys(input.prediction.probabilities))));
+
+  const scores: Record<string, number> = {};
+  labels.forEach(label => {
+    scores[label] = inputs.reduce(
+      (sum, input) => sum + input.weight * (input.prediction.probabilities[label] || 0),
+      0
+    ) / totalWeight;
+  });
+
+  const affect = {
+    valence: inputs.reduce((sum, input) => sum + input.weight * input.prediction.affect.valence, 0) / totalWeight,
+    arousal: inputs.reduce((sum, input) => sum + input.weight * input.prediction.affect.arousal, 0) / totalWeight
+  };
+
+  const prediction = createPrediction(scores, labels, threshold, affect);
+
+  const contributions: Record<EmotionModality, number> = { eeg: 0, text: 0 };
+  const winning = scores[prediction.likelyEmotion] * totalWeight;
+  inputs.forEach(input => {
+    contributions[input.modality] = winning > 0
+      ? input.weight * (input.prediction.probabilities[prediction.likelyEmotion] || 0) / winning
+      : input.weight / totalWeight;
+  });
+
+  return {
+    prediction,
+    dominant: contributions.text > contributions.eeg ? 'text' : 'eeg',
+    contributions
+  };
+}
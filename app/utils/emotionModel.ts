@@ -0,0 +1,234 @@
+/**
+ * Emotion Model Utility
+ *
+ * This module defines the versioned file format for trained emotion
+ * classifiers: the classifier backend and its serialized parameters (e.g.
+ * a brain.js network's toJSON) together with the metadata needed to use it
+ * safely, i.e. the montage, the feature layout it expects, how features are
+ * normalized and the label set. Models are kept in the browser's
+ * localStorage and can be exported to and imported from .json files.
+ */
+
+import { getFeatureLayout } from './eegProcessor';
+import { Montage } from './montage';
+import { CalibrationProfile } from './calibration';
+import { ClassifierBackendId } from './classifierBackend';
+import { findClassifierBackend } from './classifierBackendRegistry';
+
+export const EMOTION_MODEL_FORMAT = 'eeg-emotion-model';
+
+// Bump when the file layout changes; older files are upgraded where possible
+// and rejected with a clear message otherwise
+export const EMOTION_MODEL_VERSION = 2;
+
+export type ModelNormalization =
+  | { method: 'fixed-range' }
+  | { method: 'calibration'; profile: CalibrationProfile };
+
+export type ModelOrigin = 'prototype' | 'personal';
+
+export interface ModelTrainingSummary {
+  origin: ModelOrigin;
+  // Number of training rows
+  samples: number;
+  iterations: number;
+  // Final training error
+  error: number;
+}
+
+export interface EmotionModelMetadata {
+  id: string;
+  name: string;
+  createdAt: number;
+  montage: Pick<Montage, 'id' | 'name' | 'channels' | 'sampleRate'>;
+  // Input keys, in getFeatureLayout order
+  featureLayout: string[];
+  normalization: ModelNormalization;
+  // Output labels the classifier scores
+  labels: string[];
+  backend: ClassifierBackendId;
+  // The classifier also regresses valence and arousal (AFFECT_OUTPUTS); older models do not
+  affectOutputs?: boolean;
+  training: ModelTrainingSummary;
+}
+
+export interface EmotionModelFile {
+  format: typeof EMOTION_MODEL_FORMAT;
+  version: number;
+  metadata: EmotionModelMetadata;
+  // Backend-specific, e.g. the network JSON for neural backends
+  parameters: unknown;
+}
+
+const STORAGE_KEY = 'emotion-app.emotion-models';
+
+/**
+ * Build model metadata for the given montage's feature layout
+ */
+export function createModelMetadata(
+  name: string,
+  montage: Montage,
+  normalization: ModelNormalization,
+  labels: string[],
+  backend: ClassifierBackendId,
+  training: ModelTrainingSummary,
+  id: string = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+): EmotionModelMetadata {
+  return {
+    id,
+    name,
+    createdAt: Date.now(),
+    montage: {
+      id: montage.id,
+      name: montage.name,
+      channels: [...montage.channels],
+      sampleRate: montage.sampleRate
+    },
+    featureLayout: getFeatureLayout(montage),
+    normalization,
+    labels: [...labels],
+    backend,
+    training
+  };
+}
+
+/**
+ * Id under which the built-in prototype model is cached for a montage and baseline
+ */
+export function prototypeModelId(montage: Montage, profile: CalibrationProfile | null): string {
+  return `prototype-${montage.id}-${profile ? profile.id : 'fixed-range'}`;
+}
+
+/**
+ * Bring a parsed model file up to the current version. Version 1 files
+ * always held a feedforward network under \`network\`.
+ */
+function upgradeEmotionModel(model: any): any {
+  if (model.version !== 1) return model;
+
+  const { network, ...rest } = model;
+  return {
+    ...rest,
+    version: EMOTION_MODEL_VERSION,
+    metadata: model.metadata ? { ...model.metadata, backend: 'feedforward' } : model.metadata,
+    parameters: network
+  };
+}
+
+/**
+ * Parse and validate a model file.
+ * Throws with a descriptive message if the file is malformed.
+ */
+export function parseEmotionModel(text: string): EmotionModelFile {
+  let model: any;
+
+  try {
+    model = JSON.parse(text);
+  } catch (error) {
+    throw new Error('Model file is not valid JSON');
+  }
+
+  if (!model || model.format !== EMOTION_MODEL_FORMAT) {
+    throw new Error('Not an emotion model file');
+  }
+
+  model = upgradeEmotionModel(model);
+  if (model.version !== EMOTION_MODEL_VERSION) {
+    throw new Error(`Unsupported model version ${model.version} (expected ${EMOTION_MODEL_VERSION})`);
+  }
+
+  const metadata = model.metadata;
+  if (
+    !metadata ||
+    typeof metadata.id !== 'string' ||
+    typeof metadata.name !== 'string' ||
+    !metadata.montage ||
+    !Array.isArray(metadata.montage.channels) ||
+    !Array.isArray(metadata.featureLayout) ||
+    !Array.isArray(metadata.labels) ||
+    metadata.labels.length === 0 ||
+    !metadata.normalization ||
+    !metadata.training
+  ) {
+    throw new Error('Model metadata is incomplete');
+  }
+
+  const backend = findClassifierBackend(metadata.backend);
+  if (!backend) {
+    throw new Error(`Unknown classifier backend "${metadata.backend}"`);
+  }
+
+  const invalid = backend.validate(model.parameters, metadata);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  return model as EmotionModelFile;
+}
+
+/**
+ * Explain why a model cannot be used with a montage, or null if it can
+ */
+export function checkModelCompatibility(model: EmotionModelFile, montage: Montage): string | null {
+  const layout = getFeatureLayout(montage);
+  const { featureLayout } = model.metadata;
+
+  if (featureLayout.length !== layout.length || !featureLayout.every((key, index) => key === layout[index])) {
+    return `"${model.metadata.name}" was trained for ${model.metadata.montage.name}, whose features do not match ${montage.name}`;
+  }
+
+  return null;
+}
+
+export function isModelCompatible(model: EmotionModelFile, montage: Montage): boolean {
+  return checkModelCompatibility(model, montage) === null;
+}
+
+export function serializeEmotionModel(model: EmotionModelFile): string {
+  return JSON.stringify(model);
+}
+
+/**
+ * File name for an exported model, e.g. "emotion-model-my-model.json"
+ */
+export function emotionModelFileName(model: EmotionModelFile): string {
+  const slug = model.metadata.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `emotion-model-${slug || model.metadata.id}.json`;
+}
+
+/**
+ * Load all stored models
+ */
+export function loadEmotionModels(): EmotionModelFile[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const models: any[] = stored ? JSON.parse(stored) : [];
+    // Files from versions of the app that cannot be upgraded are dropped rather than misread
+    return models
+      .map(upgradeEmotionModel)
+      .filter((model): model is EmotionModelFile => model.version === EMOTION_MODEL_VERSION);
+  } catch (error) {
+    console.error('Error loading emotion models:', error);
+    return [];
+  }
+}
+
+/**
+ * Store a model, replacing any model with the same id
+ */
+export function saveEmotionModel(model: EmotionModelFile): EmotionModelFile[] {
+  const models = [...loadEmotionModels().filter(m => m.metadata.id !== model.metadata.id), model];
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(models));
+  return models;
+}
+
+/**
+ * Remove a stored model
+ */
+export function deleteEmotionModel(id: string): EmotionModelFile[] {
+  const models = loadEmotionModels().filter(m => m.metadata.id !== id);
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(models));
+  return models;
+}
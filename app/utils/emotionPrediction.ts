@@ -0,0 +1,103 @@
+/**
+ * Emotion Prediction Utility
+ *
+ * This module turns the emotion network's per-label scores into a
+ * prediction: a probability distribution over the model's labels, the
+ * confidence in the most likely label and an explicit "uncertain" state
+ * when that confidence is below a threshold, along with a continuous
+ * valence/arousal estimate on the circumplex. Predictions flow from the
+ * pipeline worker to the Dashboard, chat tone and music selection, which
+ * hold back when the classifier is unsure instead of acting on a guess.
+ */
+
+import { AffectCoordinates, affectRegion, clampAffect, weightedAffect } from './circumplex';
+
+export const UNCERTAIN = 'uncertain';
+
+// Below this probability for the most likely label the prediction is uncertain
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.4;
+
+export interface EmotionPrediction {
+  // The most likely label, or UNCERTAIN when confidence is below the threshold
+  emotion: string;
+  // The most likely label regardless of confidence
+  likelyEmotion: string;
+  // Probability of the most likely label
+  confidence: number;
+  // Sums to one over the model's labels
+  probabilities: Record<string, number>;
+  uncertain: boolean;
+  // Continuous valence/arousal estimate, -1 to 1 on each axis
+  affect: AffectCoordinates;
+  // Label of the circumplex region the affect estimate falls in
+  affectLabel: string;
+}
+
+/**
+ * Rescale independent sigmoid scores into a distribution over the labels
+ */
+export function scoresToProbabilities(scores: Record<string, number>, labels: string[]): Record<string, number> {
+  const total = labels.reduce((sum, label) => sum + Math.max(0, scores[label] || 0), 0);
+  const probabilities: Record<string, number> = {};
+
+  labels.forEach(label => {
+    // No evidence for any label is an even split, not a vote for one of them
+    probabilities[label] = total > 0 ? Math.max(0, scores[label] || 0) / total : 1 / labels.length;
+  });
+
+  return probabilities;
+}
+
+/**
+ * Build a prediction from network scores. Without a regressed affect
+ * estimate, the position is the probability-weighted mean of the labels'.
+ */
+export function createPrediction(
+  scores: Record<string, number>,
+  labels: string[],
+  threshold: number = DEFAULT_CONFIDENCE_THRESHOLD,
+  affect?: AffectCoordinates
+): EmotionPrediction {
+  const probabilities = scoresToProbabilities(scores, labels);
+
+  let likelyEmotion = labels[0];
+  labels.forEach(label => {
+    if (probabilities[label] > probabilities[likelyEmotion]) likelyEmotion = label;
+  });
+
+  const confidence = probabilities[likelyEmotion];
+  // An even split from all-zero scores is never a confident answer, however few labels there are
+  const uncertain = confidence < threshold || labels.every(label => !(scores[label] > 0));
+  const point = clampAffect(affect || weightedAffect(probabilities));
+
+  return {
+    emotion: uncertain ? UNCERTAIN : likelyEmotion,
+    likelyEmotion,
+    confidence,
+    probabilities,
+    uncertain,
+    affect: point,
+    affectLabel: affectRegion(point)
+  };
+}
+
+/**
+ * The emotion downstream consumers should act on, or null if there is none yet
+ * or the classifier is unsure
+ */
+export function confidentEmotion(prediction: EmotionPrediction | null): string | null {
+  return prediction && !prediction.uncertain ? prediction.emotion : null;
+}
+
+export function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}%`;
+}
+
+/**
+ * Short human-readable summary, e.g. "happy (78%)" or "uncertain (sad? 31%)"
+ */
+export function describePrediction(prediction: EmotionPrediction): string {
+  return prediction.uncertain
+    ? `${UNCERTAIN} (${prediction.likelyEmotion}? ${formatConfidence(prediction.confidence)})`
+    : `${prediction.emotion} (${formatConfidence(prediction.confidence)})`;
+}
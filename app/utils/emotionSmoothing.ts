@@ -0,0 +1,185 @@
+/**
+ * Emotion Smoothing Utility
+ *
+ * This module adds a temporal model on top of the per-epoch classifier
+ * output so the detected emotion does not jump every 2 seconds. The
+ * probability distributions are first filtered over time, either with an
+ * exponential moving average or with the forward pass of a hidden Markov
+ * model whose transition matrix favours staying in the current state. A
+ * minimum-dwell hysteresis then only commits a new emotion (or the
+ * uncertain state) once it has led for several consecutive epochs. The
+ * continuous valence/arousal estimate is smoothed with the moving average.
+ */
+
+import { EmotionPrediction, UNCERTAIN } from './emotionPrediction';
+import { AffectCoordinates, affectRegion } from './circumplex';
+
+export type SmoothingMethod = 'none' | 'ema' | 'hmm';
+
+export interface SmoothingSettings {
+  method: SmoothingMethod;
+  // Weight of the newest epoch in the moving average (0-1, higher reacts faster);
+  // valence/arousal use it whenever smoothing is on
+  emaAlpha: number;
+  // HMM probability of staying in the same emotion from one epoch to the next
+  hmmStayProbability: number;
+  // Consecutive epochs a new emotion must lead before it is committed (1 commits at once)
+  minDwellEpochs: number;
+}
+
+export const DEFAULT_SMOOTHING_SETTINGS: SmoothingSettings = {
+  method: 'ema',
+  emaAlpha: 0.4,
+  hmmStayProbability: 0.9,
+  minDwellEpochs: 3
+};
+
+/**
+ * Transition matrix staying in the same state with the given probability and
+ * moving to each other state with an equal share of the rest.
+ * matrix[from][to], in labels order.
+ */
+export function transitionMatrix(labels: string[], stayProbability: number): number[][] {
+  const move = labels.length > 1 ? (1 - stayProbability) / (labels.length - 1) : 0;
+  return labels.map((_, from) => labels.map((__, to) => from === to ? stayProbability : move));
+}
+
+/**
+ * Filters classifier predictions over time and commits emotion changes
+ * only once they are stable
+ */
+export class EmotionSmoother {
+  private settings: SmoothingSettings;
+  private labels: string[] = [];
+  private transitions: number[][] = [];
+  // Filtered distribution over labels, in labels order
+  private belief: number[] | null = null;
+  private affect: AffectCoordinates | null = null;
+  private committed: string | null = null;
+  private candidate: string | null = null;
+  private candidateEpochs = 0;
+
+  constructor(settings: SmoothingSettings = DEFAULT_SMOOTHING_SETTINGS) {
+    this.settings = settings;
+  }
+
+  setSettings(settings: SmoothingSettings): void {
+    this.settings = settings;
+    this.reset();
+  }
+
+  /**
+   * Forget the history, e.g. when the source, montage or model changes
+   */
+  reset(): void {
+    this.labels = [];
+    this.transitions = [];
+    this.belief = null;
+    this.affect = null;
+    this.committed = null;
+    this.candidate = null;
+    this.candidateEpochs = 0;
+  }
+
+  /**
+   * Add the latest epoch's prediction and return the smoothed, committed one
+   */
+  update(prediction: EmotionPrediction, threshold: number): EmotionPrediction {
+    const labels = Object.keys(prediction.probabilities);
+    if (labels.length !== this.labels.length || labels.some((label, i) => label !== this.labels[i])) {
+      // A different label set means a different model; start over
+      this.reset();
+      this.labels = labels;
+      this.transitions = transitionMatrix(labels, this.settings.hmmStayProbability);
+    }
+
+    const observed = labels.map(label => prediction.probabilities[label]);
+    this.belief = this.filter(observed);
+
+    const probabilities: Record<string, number> = {};
+    labels.forEach((label, i) => {
+      probabilities[label] = this.belief ? this.belief[i] : 0;
+    });
+
+    let likelyEmotion = labels[0];
+    labels.forEach(label => {
+      if (probabilities[label] > probabilities[likelyEmotion]) likelyEmotion = label;
+    });
+
+    // Even a smoothed distribution can be too flat to act on
+    const leader = probabilities[likelyEmotion] < threshold ? UNCERTAIN : likelyEmotion;
+    const emotion = this.commit(leader);
+    const uncertain = emotion === UNCERTAIN;
+    const affect = this.filterAffect(prediction.affect);
+
+    return {
+      emotion,
+      likelyEmotion,
+      confidence: uncertain ? probabilities[likelyEmotion] : probabilities[emotion],
+      probabilities,
+      uncertain,
+      affect,
+      affectLabel: affectRegion(affect)
+    };
+  }
+
+  private filterAffect(observed: AffectCoordinates): AffectCoordinates {
+    const previous = this.affect;
+    const alpha = this.settings.emaAlpha;
+
+    this.affect = !previous || this.settings.method === 'none'
+      ? observed
+      : {
+          valence: alpha * observed.valence + (1 - alpha) * previous.valence,
+          arousal: alpha * observed.arousal + (1 - alpha) * previous.arousal
+        };
+
+    return this.affect;
+  }
+
+  private filter(observed: number[]): number[] {
+    const previous = this.belief;
+    if (!previous || this.settings.method === 'none') return observed;
+
+    if (this.settings.method === 'ema') {
+      const alpha = this.settings.emaAlpha;
+      return observed.map((value, i) => alpha * value + (1 - alpha) * previous[i]);
+    }
+
+    // HMM forward step: predict through the transition matrix, then weight
+    // by the classifier output as the emission likelihood
+    const predicted = observed.map((_, to) =>
+      previous.reduce((sum, belief, from) => sum + belief * this.transitions[from][to], 0)
+    );
+    const posterior = predicted.map((value, i) => value * observed[i]);
+    const total = posterior.reduce((sum, value) => sum + value, 0);
+
+    // Evidence that contradicts the model completely: fall back to the observation
+    return total > 0 ? posterior.map(value => value / total) : observed;
+  }
+
+  // Minimum-dwell hysteresis over the leading state
+  private commit(leader: string): string {
+    if (this.committed === null || leader === this.committed) {
+      this.committed = leader;
+      this.candidate = null;
+      this.candidateEpochs = 0;
+      return leader;
+    }
+
+    if (leader === this.candidate) {
+      this.candidateEpochs++;
+    } else {
+      this.candidate = leader;
+      this.candidateEpochs = 1;
+    }
+
+    if (this.candidateEpochs >= this.settings.minDwellEpochs) {
+      this.committed = leader;
+      this.candidate = null;
+      this.candidateEpochs = 0;
+    }
+
+    return this.committed;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Emotion Store Utility
+ *
+ * This module holds the shared emotion and session state: the current
+ * prediction with its confidence and source, a timestamped history, when
+ * the committed emotion last changed, the latest EEG values and the music
+ * playing. A self-report can override the detected emotion for a while or
+ * until cleared, which also lets chat tone and music be driven without a
+ * headset; detected entries note the self-report active when they were made,
+ * so the two can be compared. It has no React dependencies, so the session
+ * recorder follows it directly and API routes keep a server-side instance
+ * (see serverEmotionStore); components reach it through the
+ * EmotionStoreContext (see useEmotionStore). Every update replaces the
+ * state object, so listeners can compare snapshots by reference.
+ */
+
+import { EmotionPrediction, createPrediction } from './emotionPrediction';
+import { EMOTION_COORDINATES } from './circumplex';
+
+// About an hour of predictions at one every two seconds
+export const MAX_HISTORY_LENGTH = 1800;
+
+export interface EmotionEntry {
+  // Time of the epoch (or other input) the prediction was made from
+  timestamp: number;
+  // Where the prediction came from, e.g. the EEG source id ('simulator', 'replay')
+  source: string;
+  // The prediction acted on downstream (smoothed, for EEG)
+  prediction: EmotionPrediction;
+  // The epoch's own classifier output before smoothing, if there was one
+  rawPrediction?: EmotionPrediction;
+  // The self-reported emotion in force when the prediction was made
+  selfReport?: string;
+}
+
+export interface SelfReport {
+  emotion: string;
+  // Certain prediction for the reported emotion, used in place of the detected one
+  prediction: EmotionPrediction;
+  reportedAt: number;
+  // When the override ends, or null if it is pinned until cleared
+  until: number | null;
+}
+
+export interface SelfReportAgreement {
+  // Confident detected predictions made while a self-report was in force
+  compared: number;
+  // Of those, the ones that detected the reported emotion
+  agreed: number;
+  // Uncertain predictions made while a self-report was in force
+  uncertain: number;
+}
+
+export interface EmotionState {
+  current: EmotionEntry | null;
+  // When the committed emotion (or the uncertain state) last changed
+  changedAt: number | null;
+  // Oldest first, capped at MAX_HISTORY_LENGTH
+  history: EmotionEntry[];
+  // Latest value of each EEG channel
+  eegData: number[] | null;
+  musicPlaying: string | null;
+  selfReport: SelfReport | null;
+}
+
+export type EmotionStoreListener = (state: EmotionState, previous: EmotionState) => void;
+
+export const INITIAL_EMOTION_STATE: EmotionState = {
+  current: null,
+  changedAt: null,
+  history: [],
+  eegData: null,
+  musicPlaying: null,
+  selfReport: null
+};
+
+/**
+ * The prediction chat tone, music and the Dashboard act on: the self-report
+ * while one is in force, otherwise the latest detected prediction
+ */
+export function effectivePrediction(state: EmotionState): EmotionPrediction | null {
+  if (state.selfReport) return state.selfReport.prediction;
+  return state.current ? state.current.prediction : null;
+}
+
+/**
+ * Compare detected emotions with the self-reports in force when they were made
+ */
+export function selfReportAgreement(history: EmotionEntry[]): SelfReportAgreement {
+  const agreement: SelfReportAgreement = { compared: 0, agreed: 0, uncertain: 0 };
+
+  history.forEach(({ prediction, selfReport }) => {
+    if (!selfReport) return;
+    if (prediction.uncertain) {
+      agreement.uncertain++;
+      return;
+    }
+    agreement.compared++;
+    if (prediction.emotion === selfReport) agreement.agreed++;
+  });
+
+  return agreement;
+}
+
+export class EmotionStore {
+  private state: EmotionState;
+  private listeners: EmotionStoreListener[] = [];
+  private selfReportTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(state: EmotionState = INITIAL_EMOTION_STATE) {
+    this.state = state;
+  }
+
+  getState(): EmotionState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to state changes; returns an unsubscribe function
+   */
+  onChange(listener: EmotionStoreListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Record a new prediction as the current state and append it to the history
+   */
+  addEntry(entry: EmotionEntry): void {
+    const { current, changedAt, history, selfReport } = this.state;
+    const changed = !current || current.prediction.emotion !== entry.prediction.emotion;
+
+    // Note the self-report in force so detected and reported emotions can be compared
+    const recorded = selfReport && entry.selfReport === undefined
+      ? { ...entry, selfReport: selfReport.emotion }
+      : entry;
+
+    this.update({
+      current: recorded,
+      changedAt: changed ? recorded.timestamp : changedAt,
+      history: [...history, recorded].slice(-MAX_HISTORY_LENGTH)
+    });
+  }
+
+  setPrediction(
+    prediction: EmotionPrediction,
+    source: string,
+    timestamp: number = Date.now(),
+    rawPrediction?: EmotionPrediction
+  ): void {
+    this.addEntry({ timestamp, source, prediction, rawPrediction });
+  }
+
+  setEegData(eegData: number[] | null): void {
+    this.update({ eegData });
+  }
+
+  setMusicPlaying(musicPlaying: string | null): void {
+    if (musicPlaying === this.state.musicPlaying) return;
+    this.update({ musicPlaying });
+  }
+
+  /**
+   * Override the detected emotion with a self-report for durationMs, or until
+   * cleared if no duration is given. A new report replaces the previous one.
+   */
+  setSelfReport(emotion: string, durationMs: number | null = null, timestamp: number = Date.now()): void {
+    this.cancelSelfReportTimer();
+
+    const labels = Object.keys(EMOTION_COORDINATES);
+    const prediction = createPrediction({ [emotion]: 1 }, labels.includes(emotion) ? labels : [...labels, emotion]);
+    this.update({
+      selfReport: {
+        emotion,
+        prediction,
+        reportedAt: timestamp,
+        until: durationMs === null ? null : timestamp + durationMs
+      }
+    });
+
+    if (durationMs !== null) {
+      this.selfReportTimer = setTimeout(() => this.clearSelfReport(), durationMs);
+    }
+  }
+
+  /**
+   * End the self-report override and go back to the detected emotion
+   */
+  clearSelfReport(): void {
+    this.cancelSelfReportTimer();
+    if (!this.state.selfReport) return;
+    this.update({ selfReport: null });
+  }
+
+  /**
+   * Forget the current prediction and its history, e.g. for a new session
+   */
+  clearHistory(): void {
+    this.update({ current: null, changedAt: null, history: [] });
+  }
+
+  private cancelSelfReportTimer(): void {
+    if (this.selfReportTimer) {
+      clearTimeout(this.selfReportTimer);
+      this.selfReportTimer = null;
+    }
+  }
+
+  private update(changes: Partial<EmotionState>): void {
+    const previous = this.state;
+    this.state = { ...previous, ...changes };
+    this.listeners.forEach(listener => listener(this.state, previous));
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Feedforward Backend Utility
+ *
+ * This module implements the feedforward classifier backend: a brain.js
+ * multilayer perceptron that scores the labels and regresses valence and
+ * arousal from a single epoch's features. Its parameters are the network's
+ * toJSON output.
+ */
+
+import { NeuralNetwork } from 'brain.js';
+import {
+  AFFECT_OUTPUTS,
+  BackendLayout,
+  ClassifierBackend,
+  ClassifierBackendDescriptor
+} from './classifierBackend';
+
+// Feature map in, per-label scores out
+type EmotionNetwork = NeuralNetwork<Record<string, number>, Record<string, number>>;
+
+class FeedforwardBackend implements ClassifierBackend {
+  readonly sequenceLength = 1;
+  private readonly network: EmotionNetwork;
+
+  constructor(network: EmotionNetwork) {
+    this.network = network;
+  }
+
+  score(sequence: Record<string, number>[]): Record<string, number> {
+    return this.network.run(sequence[sequence.length - 1]);
+  }
+
+  toJSON() {
+    return this.network.toJSON();
+  }
+}
+
+function validateNetwork(network: any, layout: BackendLayout): string | null {
+  if (!network || !Array.isArray(network.sizes) || !network.inputLookup || !network.outputLookup) {
+    return 'Model file does not contain a network';
+  }
+
+  const inputs = Object.keys(network.inputLookup);
+  if (
+    inputs.length !== layout.featureLayout.length ||
+    !layout.featureLayout.every(key => key in network.inputLookup)
+  ) {
+    return 'Network inputs do not match the model feature layout';
+  }
+
+  if (!layout.labels.every(label => label in network.outputLookup)) {
+    return 'Network outputs do not match the model labels';
+  }
+
+  if (layout.affectOutputs && !Object.values(AFFECT_OUTPUTS).every(output => output in network.outputLookup)) {
+    return 'Network has no valence/arousal outputs';
+  }
+
+  return null;
+}
+
+export const feedforwardBackend: ClassifierBackendDescriptor = {
+  id: 'feedforward',
+  label: 'Feedforward network',
+  description: 'Multilayer perceptron on the current epoch',
+  neural: true,
+  sequential: false,
+  defaults: {},
+  train: async (samples, _layout, options, onProgress) => {
+    const network: EmotionNetwork = new NeuralNetwork({
+      hiddenLayers: options.hiddenLayers,
+      activation: 'sigmoid'
+    });
+
+    const trainData = samples.map(sample => ({
+      input: sample.sequence[sample.sequence.length - 1],
+      output: {
+        [sample.label]: 1,
+        [AFFECT_OUTPUTS.valence]: sample.valence,
+        [AFFECT_OUTPUTS.arousal]: sample.arousal
+      }
+    }));
+
+    const result = await network.trainAsync(trainData, {
+      iterations: options.iterations,
+      errorThresh: options.errorThresh,
+      learningRate: options.learningRate,
+      log: false,
+      logPeriod: 100,
+      callback: onProgress,
+      callbackPeriod: 10
+    });
+
+    return { backend: new FeedforwardBackend(network), iterations: result.iterations, error: result.error };
+  },
+  fromJSON: parameters => {
+    const network: EmotionNetwork = new NeuralNetwork();
+    network.fromJSON(parameters);
+    return new FeedforwardBackend(network);
+  },
+  validate: validateNetwork
+};
@@ -0,0 +1,167 @@
+/**
+ * kNN Backend Utility
+ *
+ * This module implements k-nearest neighbours as a classic baseline
+ * backend. Training just stores the normalized feature vectors; scoring
+ * finds the closest stored epochs by Euclidean distance and lets them
+ * vote, weighted by inverse distance. Valence/arousal is the same weighted
+ * mean of the neighbours' targets. Model files grow with the dataset.
+ */
+
+import {
+  AFFECT_OUTPUTS,
+  ClassifierBackend,
+  ClassifierBackendDescriptor,
+  featureVector
+} from './classifierBackend';
+
+// Keeps an exact match from getting infinite weight
+const DISTANCE_EPSILON = 1e-6;
+
+interface KnnParameters {
+  neighbors: number;
+  // Stored epochs: feature vectors in featureLayout order, label indices and 0-1 affect targets
+  points: number[][];
+  classes: number[];
+  valence: number[];
+  arousal: number[];
+}
+
+interface Neighbor {
+  index: number;
+  weight: number;
+}
+
+class KnnBackend implements ClassifierBackend {
+  readonly sequenceLength = 1;
+  private readonly parameters: KnnParameters;
+  private readonly featureLayout: string[];
+  private readonly labels: string[];
+
+  constructor(parameters: KnnParameters, featureLayout: string[], labels: string[]) {
+    this.parameters = parameters;
+    this.featureLayout = featureLayout;
+    this.labels = labels;
+  }
+
+  /**
+   * The k closest stored epochs, optionally leaving one out
+   */
+  nearest(x: number[], exclude = -1): Neighbor[] {
+    const distances = this.parameters.points
+      .map((point, index) => ({
+        index,
+        distance: Math.sqrt(point.reduce((sum, value, i) => sum + (value - x[i]) ** 2, 0))
+      }))
+      .filter(candidate => candidate.index !== exclude)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, this.parameters.neighbors);
+
+    return distances.map(({ index, distance }) => ({ index, weight: 1 / (distance + DISTANCE_EPSILON) }));
+  }
+
+  vote(neighbors: Neighbor[]): number[] {
+    const votes = this.labels.map(() => 0);
+    neighbors.forEach(({ index, weight }) => {
+      votes[this.parameters.classes[index]] += weight;
+    });
+    return votes;
+  }
+
+  score(sequence: Record<string, number>[]): Record<string, number> {
+    const neighbors = this.nearest(featureVector(sequence[sequence.length - 1], this.featureLayout));
+    const votes = this.vote(neighbors);
+    const total = votes.reduce((sum, value) => sum + value, 0) || 1;
+
+    const scores: Record<string, number> = {};
+    this.labels.forEach((label, k) => {
+      scores[label] = votes[k] / total;
+    });
+    scores[AFFECT_OUTPUTS.valence] =
+      neighbors.reduce((sum, { index, weight }) => sum + weight * this.parameters.valence[index], 0) / total;
+    scores[AFFECT_OUTPUTS.arousal] =
+      neighbors.reduce((sum, { index, weight }) => sum + weight * this.parameters.arousal[index], 0) / total;
+
+    return scores;
+  }
+
+  toJSON(): KnnParameters {
+    return this.parameters;
+  }
+}
+
+export const knnBackend: ClassifierBackendDescriptor = {
+  id: 'knn',
+  label: 'kNN',
+  description: 'k-nearest neighbours baseline on the current epoch',
+  neural: false,
+  sequential: false,
+  defaults: {},
+  train: async (samples, layout, options, onProgress) => {
+    const points = samples.map(sample => featureVector(sample.sequence[sample.sequence.length - 1], layout.featureLayout));
+    const classes = samples.map(sample => layout.labels.indexOf(sample.label));
+
+    const backend = new KnnBackend(
+      {
+        neighbors: Math.max(1, Math.min(options.neighbors, samples.length - 1)),
+        points,
+        classes,
+        valence: samples.map(sample => sample.valence),
+        arousal: samples.map(sample => sample.arousal)
+      },
+      layout.featureLayout,
+      layout.labels
+    );
+
+    // Leave-one-out error, since every stored epoch would trivially find itself
+    const errors = points.filter((x, n) => {
+      const votes = backend.vote(backend.nearest(x, n));
+      return votes.indexOf(Math.max(...votes)) !== classes[n];
+    }).length;
+    const error = errors / samples.length;
+    onProgress?.({ iterations: 1, error });
+
+    return { backend, iterations: 1, error };
+  },
+  fromJSON: (parameters: KnnParameters, layout) => new KnnBackend(parameters, layout.featureLayout, layout.labels),
+  validate: (parameters, layout) => {
+    if (
+      !parameters ||
+      !Array.isArray(parameters.points) ||
+      !Array.isArray(parameters.classes) ||
+      parameters.points.length === 0 ||
+      parameters.classes.length !== parameters.points.length
+    ) {
+      return 'Model file does not contain stored epochs';
+    }
+
+    if (!Number.isInteger(parameters.neighbors) || parameters.neighbors < 1) {
+      return 'Model file has an invalid neighbour count';
+    }
+
+    if (!parameters.points.every((point: unknown) => Array.isArray(point) && point.length === layout.featureLayout.length)) {
+      return 'Stored epochs do not match the model feature layout';
+    }
+
+    if (!parameters.classes.every((c: unknown) => Number.isInteger(c) && (c as number) >= 0 && (c as number) < layout.labels.length)) {
+      return 'Stored epochs do not match the model labels';
+    }
+
+    // Every stored epoch carries its own valence/arousal target
+    if (
+      !Array.isArray(parameters.valence) ||
+      !Array.isArray(parameters.arousal) ||
+      parameters.valence.length !== parameters.points.length ||
+      parameters.arousal.length !== parameters.points.length
+    ) {
+      return 'Valence/arousal targets do not match the stored epochs';
+    }
+
+    const values = [...parameters.points.flat(), ...parameters.valence, ...parameters.arousal];
+    if (!values.every((value: unknown) => typeof value === 'number' && Number.isFinite(value))) {
+      return 'Model file contains invalid stored epoch values';
+    }
+
+    return null;
+  }
+};
@@ -0,0 +1,211 @@
+/**
+ * LDA Backend Utility
+ *
+ * This module implements linear discriminant analysis as a classic
+ * baseline backend. Training is closed-form: one mean feature vector per
+ * label and a covariance matrix pooled over all labels, shrunk towards its
+ * average variance so it stays invertible with many features and few
+ * epochs. Scores are the posterior probabilities of the labels, and
+ * valence/arousal is the posterior-weighted mean of each label's targets.
+ */
+
+import {
+  AFFECT_OUTPUTS,
+  ClassifierBackend,
+  ClassifierBackendDescriptor,
+  featureVector
+} from './classifierBackend';
+
+// Weight of the scaled identity in the shrunk covariance matrix
+const SHRINKAGE = 0.1;
+
+interface LdaParameters {
+  // Per label, in labels order: discriminant weights (featureLayout order) and bias
+  weights: number[][];
+  biases: number[];
+  // Per label mean valence/arousal target, scaled to 0-1
+  valence: number[];
+  arousal: number[];
+}
+
+class LdaBackend implements ClassifierBackend {
+  readonly sequenceLength = 1;
+  private readonly parameters: LdaParameters;
+  private readonly featureLayout: string[];
+  private readonly labels: string[];
+
+  constructor(parameters: LdaParameters, featureLayout: string[], labels: string[]) {
+    this.parameters = parameters;
+    this.featureLayout = featureLayout;
+    this.labels = labels;
+  }
+
+  /**
+   * Posterior probability of every label for one feature vector
+   */
+  posteriors(x: number[]): number[] {
+    const discriminants = this.parameters.weights.map((weights, k) =>
+      weights.reduce((sum, weight, i) => sum + weight * x[i], this.parameters.biases[k])
+    );
+    // Softmax, shifted by the largest discriminant to avoid overflow
+    const max = Math.max(...discriminants);
+    const exponentials = discriminants.map(value => Math.exp(value - max));
+    const total = exponentials.reduce((sum, value) => sum + value, 0);
+    return exponentials.map(value => value / total);
+  }
+
+  score(sequence: Record<string, number>[]): Record<string, number> {
+    const posteriors = this.posteriors(featureVector(sequence[sequence.length - 1], this.featureLayout));
+
+    const scores: Record<string, number> = {};
+    this.labels.forEach((label, k) => {
+      scores[label] = posteriors[k];
+    });
+    scores[AFFECT_OUTPUTS.valence] = posteriors.reduce((sum, p, k) => sum + p * this.parameters.valence[k], 0);
+    scores[AFFECT_OUTPUTS.arousal] = posteriors.reduce((sum, p, k) => sum + p * this.parameters.arousal[k], 0);
+
+    return scores;
+  }
+
+  toJSON(): LdaParameters {
+    return this.parameters;
+  }
+}
+
+/**
+ * Solve matrix * X = columns for every right-hand side by Gauss-Jordan
+ * elimination with partial pivoting. Returns one solution per column.
+ */
+function solve(matrix: number[][], columns: number[][]): number[][] {
+  const n = matrix.length;
+  const augmented = matrix.map((row, i) => [...row, ...columns.map(column => column[i])]);
+
+  for (let pivot = 0; pivot < n; pivot++) {
+    let best = pivot;
+    for (let row = pivot + 1; row < n; row++) {
+      if (Math.abs(augmented[row][pivot]) > Math.abs(augmented[best][pivot])) best = row;
+    }
+    [augmented[pivot], augmented[best]] = [augmented[best], augmented[pivot]];
+
+    const divisor = augmented[pivot][pivot];
+    if (Math.abs(divisor) < 1e-12) {
+      throw new Error('Feature covariance is singular; LDA needs more varied training epochs');
+    }
+    for (let j = pivot; j < augmented[pivot].length; j++) augmented[pivot][j] /= divisor;
+
+    for (let row = 0; row < n; row++) {
+      const factor = augmented[row][pivot];
+      if (row === pivot || factor === 0) continue;
+      for (let j = pivot; j < augmented[row].length; j++) {
+        augmented[row][j] -= factor * augmented[pivot][j];
+      }
+    }
+  }
+
+  return columns.map((_, c) => augmented.map(row => row[n + c]));
+}
+
+export const ldaBackend: ClassifierBackendDescriptor = {
+  id: 'lda',
+  label: 'LDA',
+  description: 'Linear discriminant analysis baseline on the current epoch',
+  neural: false,
+  sequential: false,
+  defaults: {},
+  train: async (samples, layout, _options, onProgress) => {
+    const { featureLayout, labels } = layout;
+    const size = featureLayout.length;
+    const vectors = samples.map(sample => featureVector(sample.sequence[sample.sequence.length - 1], featureLayout));
+    const classes = samples.map(sample => labels.indexOf(sample.label));
+
+    const counts = labels.map((_, k) => classes.filter(c => c === k).length);
+    const means = labels.map(() => new Array(size).fill(0));
+    const valence = labels.map(() => 0);
+    const arousal = labels.map(() => 0);
+    vectors.forEach((x, n) => {
+      const k = classes[n];
+      x.forEach((value, i) => {
+        means[k][i] += value / counts[k];
+      });
+      valence[k] += samples[n].valence / counts[k];
+      arousal[k] += samples[n].arousal / counts[k];
+    });
+
+    // Pooled within-class covariance
+    const covariance = featureLayout.map(() => new Array(size).fill(0));
+    const degrees = Math.max(1, samples.length - labels.length);
+    vectors.forEach((x, n) => {
+      const mean = means[classes[n]];
+      for (let i = 0; i < size; i++) {
+        const di = x[i] - mean[i];
+        for (let j = i; j < size; j++) {
+          covariance[i][j] += (di * (x[j] - mean[j])) / degrees;
+        }
+      }
+    });
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < i; j++) covariance[i][j] = covariance[j][i];
+    }
+
+    const averageVariance = covariance.reduce((sum, row, i) => sum + row[i], 0) / size || 1;
+    const shrunk = covariance.map((row, i) =>
+      row.map((value, j) => (1 - SHRINKAGE) * value + (i === j ? SHRINKAGE * averageVariance : 0))
+    );
+
+    const weights = solve(shrunk, means);
+    const biases = labels.map((_, k) =>
+      -0.5 * weights[k].reduce((sum, weight, i) => sum + weight * means[k][i], 0) +
+      Math.log(counts[k] / samples.length)
+    );
+
+    const backend = new LdaBackend({ weights, biases, valence, arousal }, featureLayout, labels);
+
+    // Resubstitution error, reported like a network's final training error
+    const errors = vectors.filter((x, n) => {
+      const posteriors = backend.posteriors(x);
+      return posteriors.indexOf(Math.max(...posteriors)) !== classes[n];
+    }).length;
+    const error = errors / samples.length;
+    onProgress?.({ iterations: 1, error });
+
+    return { backend, iterations: 1, error };
+  },
+  fromJSON: (parameters: LdaParameters, layout) => new LdaBackend(parameters, layout.featureLayout, layout.labels),
+  validate: (parameters, layout) => {
+    if (
+      !parameters ||
+      !Array.isArray(parameters.weights) ||
+      !Array.isArray(parameters.biases) ||
+      !Array.isArray(parameters.valence) ||
+      !Array.isArray(parameters.arousal)
+    ) {
+      return 'Model file does not contain discriminant parameters';
+    }
+
+    if (
+      parameters.weights.length !== layout.labels.length ||
+      parameters.biases.length !== layout.labels.length
+    ) {
+      return 'Discriminants do not match the model labels';
+    }
+
+    if (!parameters.weights.every((weights: unknown) => Array.isArray(weights) && weights.length === layout.featureLayout.length)) {
+      return 'Discriminants do not match the model feature layout';
+    }
+
+    // Valence and arousal are weighted by the label posteriors, so they need one value per label
+    if (
+      parameters.valence.length !== layout.labels.length ||
+      parameters.arousal.length !== layout.labels.length
+    ) {
+      return 'Valence/arousal outputs do not match the model labels';
+    }
+
+    const values = [...parameters.weights.flat(), ...parameters.biases, ...parameters.valence, ...parameters.arousal];
+    if (!values.every((value: unknown) => typeof value === 'number' && Number.isFinite(value))) {
+      return 'Model file contains invalid discriminant values';
+    }
+
+    return null;
+  }
+};
@@ -3,9 +3,20 @@
  * 
  * This module provides utilities for interacting with the DeepSeek v3 model via OpenRouter.
  * It handles message formatting, API communication, and tone adaptation based on emotions.
+ * It runs on the server (see pages/api/chat.ts), where the OpenRouter key is kept;
+ * the browser talks to it through chatClient.ts.
  */
 
 import axios from 'axios';
+import { EmotionPrediction, formatConfidence } from './emotionPrediction';
+import { AffectCoordinates } from './circumplex';
+import { SseParser } from './serverSentEvents';
+
+const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const LLM_MODEL = 'deepseek/deepseek-v3-mini';
+
+// Reply used when the model returns no text, streamed or not
+const EMPTY_RESPONSE = "I'm sorry, I couldn't generate a response.";
 
 export interface Message {
   role: 'system' | 'user' | 'assistant';
@@ -30,39 +41,77 @@ export const emotionToTone = {
 
 type EmotionType = keyof typeof emotionToTone;
 
+/**
+ * System prompt adapting the assistant's tone to the detected emotion.
+ * When the classifier is unsure, the assistant is told not to assume a mood.
+ */
+export function emotionSystemPrompt(prediction: EmotionPrediction | null): string {
+  if (!prediction) {
+    return 'You are a helpful assistant. Please respond in a neutral and helpful tone. Be concise and helpful.';
+  }
+
+  const confidence = formatConfidence(prediction.confidence);
+
+  if (prediction.uncertain) {
+    return 'You are a helpful assistant. The user\'s emotional state could not be read reliably ' +
+      `(best guess ${prediction.likelyEmotion} at only ${confidence} confidence), so do not assume how they feel. ` +
+      `Please respond in a ${emotionToTone.neutral} tone. Be concise and helpful.`;
+  }
+
+  const tone = emotionToTone[prediction.emotion as EmotionType] || 'neutral and helpful';
+  const { valence, arousal } = prediction.affect;
+  return `You are a helpful assistant. The user is currently feeling ${prediction.emotion} ` +
+    `(${confidence} confidence), with valence ${valence.toFixed(2)} and arousal ${arousal.toFixed(2)} ` +
+    `on a -1 to 1 scale. Please respond in a ${tone} tone.${affectToneHint(prediction.affect)} ` +
+    'Be concise and helpful.';
+}
+
+/**
+ * Extra guidance from the continuous valence/arousal estimate
+ */
+function affectToneHint({ valence, arousal }: AffectCoordinates): string {
+  const hints: string[] = [];
+  if (valence < -0.3) hints.push(' Acknowledge how they feel before offering anything else.');
+  if (arousal > 0.3) hints.push(' Keep the reply steady and short.');
+  if (arousal < -0.3) hints.push(' Keep the pace gentle and unhurried.');
+  return hints.join('');
+}
+
+/**
+ * Request body for a chat completion, with the system message for the emotional tone
+ */
+function completionRequest(messages: Message[], prediction: EmotionPrediction | null) {
+  return {
+    model: LLM_MODEL,
+    messages: [
+      {
+        role: 'system' as const,
+        content: emotionSystemPrompt(prediction)
+      },
+      ...messages
+    ]
+  };
+}
+
 /**
  * Send a message to the DeepSeek model via OpenRouter API
  */
 export async function sendMessageToLLM(
   messages: Message[],
-  currentEmotion: string | null,
+  prediction: EmotionPrediction | null,
   apiKey: string
 ): Promise<LLMResponse> {
   if (!apiKey) {
     return { 
-      text: "API key is missing. Please set your NEXT_PUBLIC_OPENROUTER_API_KEY in .env.local", 
+      text: "API key is missing. Please set OPENROUTER_API_KEY in .env.local", 
       error: "API key missing" 
     };
   }
   
   try {
-    const tone = currentEmotion ? emotionToTone[currentEmotion as EmotionType] || 'neutral and helpful' : 'neutral and helpful';
-    
-    // Add system message with emotional tone instruction
-    const messagesWithSystem = [
-      {
-        role: 'system' as const,
-        content: `You are a helpful assistant. The user is currently feeling ${currentEmotion || 'neutral'}. Please respond in a ${tone} tone. Be concise and helpful.`
-      },
-      ...messages
-    ];
-    
     const response = await axios.post(
-      'https://openrouter.ai/api/v1/chat/completions',
-      {
-        model: 'deepseek/deepseek-v3-mini',
-        messages: messagesWithSystem
-      },
+      OPENROUTER_URL,
+      completionRequest(messages, prediction),
       {
         headers: {
           'Authorization': `Bearer ${apiKey}`,
@@ -71,7 +120,7 @@ export async function sendMessageToLLM(
       }
     );
     
-    const aiResponse = response.data.choices[0]?.message?.content || "I'm sorry, I couldn't generate a response.";
+    const aiResponse = response.data.choices[0]?.message?.content || EMPTY_RESPONSE;
     
     return { text: aiResponse };
   } catch (error: any) {
@@ -86,6 +135,123 @@ export async function sendMessageToLLM(
   }
 }
 
+/**
+ * The provider's message from the error body of a streamed request. With
+ * responseType 'stream' axios leaves the body unread, so it is collected here.
+ */
+async function streamedErrorMessage(error: any): Promise<string | null> {
+  const body = error.response?.data;
+  if (!body || typeof body.on !== 'function') return null;
+  
+  try {
+    const decoder = new TextDecoder();
+    let text = '';
+    await new Promise<void>((resolve, reject) => {
+      body.on('data', (chunk: Uint8Array) => {
+        text += decoder.decode(chunk, { stream: true });
+      });
+      body.on('end', resolve);
+      body.on('error', reject);
+    });
+    text += decoder.decode();
+    
+    return JSON.parse(text).error?.message || null;
+  } catch (readError) {
+    // Not a JSON error body; the status message has to do
+    return null;
+  }
+}
+
+/**
+ * Stream a reply from the DeepSeek model via OpenRouter, calling onToken with
+ * each piece as it arrives. On success the returned text is exactly what
+ * sendMessageToLLM would have returned; on failure it is the part received
+ * so far, with the error. Aborting the signal ends the request early.
+ */
+export async function streamMessageFromLLM(
+  messages: Message[],
+  prediction: EmotionPrediction | null,
+  apiKey: string,
+  onToken: (text: string) => void,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  if (!apiKey) {
+    return { text: '', error: 'API key missing' };
+  }
+  
+  let text = '';
+  let providerError: string | null = null;
+  
+  const handleData = (data: string) => {
+    if (data === '[DONE]') return;
+    
+    let chunk: any;
+    try {
+      chunk = JSON.parse(data);
+    } catch (error) {
+      // The chunk's piece of the reply is lost, so the reply can no longer be reported as complete
+      console.warn('Skipping malformed LLM stream chunk');
+      providerError = providerError || 'Malformed stream chunk';
+      return;
+    }
+    
+    if (chunk.error) {
+      providerError = chunk.error.message || 'Provider error';
+      return;
+    }
+    
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (typeof delta === 'string' && delta) {
+      text += delta;
+      onToken(delta);
+    }
+  };
+  
+  try {
+    const response = await axios.post(
+      OPENROUTER_URL,
+      { ...completionRequest(messages, prediction), stream: true },
+      {
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        responseType: 'stream',
+        signal
+      }
+    );
+    
+    const parser = new SseParser();
+    // Decodes multi-byte characters split across network chunks
+    const decoder = new TextDecoder();
+    
+    await new Promise<void>((resolve, reject) => {
+      response.data.on('data', (chunk: Uint8Array) => {
+        parser.push(decoder.decode(chunk, { stream: true })).forEach(handleData);
+      });
+      response.data.on('end', () => {
+        parser.push(decoder.decode());
+        parser.flush().forEach(handleData);
+        resolve();
+      });
+      response.data.on('error', reject);
+    });
+  } catch (error: any) {
+    if (!axios.isCancel(error)) {
+      console.error('Error streaming from LLM service:', error);
+    }
+    
+    // On an error status the provider explains itself in the response body
+    const errorMessage = await streamedErrorMessage(error) || error.message || 'Unknown error';
+    return { text, error: errorMessage };
+  }
+  
+  if (providerError) {
+    return { text, error: providerError };
+  }
+  return { text: text || EMPTY_RESPONSE };
+}
+
 /**
  * Get a music genre recommendation from the LLM based on the user's emotion
  */
@@ -103,7 +269,7 @@ export async function getMusicRecommendation(
       }
     ];
     
-    const response = await sendMessageToLLM(messages, 'neutral', apiKey);
+    const response = await sendMessageToLLM(messages, null, apiKey);
     
     // Clean up the response to just get the genre
     const genre = response.text
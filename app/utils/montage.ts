@@ -0,0 +1,145 @@
+/**
+ * Montage Utility
+ *
+ * This module describes EEG headsets as montages: the ordered channel labels
+ * (10-20 system names), the sample rate and the signal units. All processing
+ * works from the montage, so headsets with different channel counts can be
+ * used without touching the pipeline, and spatial features such as hemispheric
+ * asymmetry are resolved by channel name rather than by index.
+ */
+
+export interface Montage {
+  id: string;
+  name: string;
+  // Channel labels in the order samples are delivered
+  channels: string[];
+  sampleRate: number;
+  units: string;
+  // Amplifier input range (± in the montage units), where the signal saturates; unknown for some files
+  inputRange?: number;
+}
+
+// g.tec Unicorn Hybrid Black
+export const UNICORN_MONTAGE: Montage = {
+  id: 'unicorn',
+  name: 'g.tec Unicorn Hybrid Black',
+  channels: ['Fz', 'C3', 'Cz', 'C4', 'Pz', 'PO7', 'Oz', 'PO8'],
+  sampleRate: 250,
+  units: 'µV',
+  inputRange: 750000
+};
+
+// Four-channel consumer headband layout
+export const FOUR_CHANNEL_MONTAGE: Montage = {
+  id: 'four-channel',
+  name: '4-channel headband',
+  channels: ['TP9', 'AF7', 'AF8', 'TP10'],
+  sampleRate: 256,
+  units: 'µV'
+};
+
+// Sixteen-channel 10-20 cap
+export const SIXTEEN_CHANNEL_MONTAGE: Montage = {
+  id: 'sixteen-channel',
+  name: '16-channel 10-20 cap',
+  channels: ['Fp1', 'Fp2', 'F7', 'F3', 'F4', 'F8', 'C3', 'Cz', 'C4', 'T7', 'T8', 'P3', 'P4', 'O1', 'Oz', 'O2'],
+  sampleRate: 125,
+  units: 'µV',
+  inputRange: 187500
+};
+
+export const DEFAULT_MONTAGE = UNICORN_MONTAGE;
+
+export const MONTAGES: Record<string, Montage> = {
+  [UNICORN_MONTAGE.id]: UNICORN_MONTAGE,
+  [FOUR_CHANNEL_MONTAGE.id]: FOUR_CHANNEL_MONTAGE,
+  [SIXTEEN_CHANNEL_MONTAGE.id]: SIXTEEN_CHANNEL_MONTAGE
+};
+
+export type Hemisphere = 'left' | 'midline' | 'right';
+
+export type ScalpRegion = 'frontal' | 'central' | 'temporal' | 'parietal' | 'occipital';
+
+/**
+ * Hemisphere of a 10-20 label: odd numbers are left, even numbers right, 'z' midline
+ */
+export function getHemisphere(label: string): Hemisphere {
+  const match = label.match(/(\d+)$/);
+  if (!match) return 'midline';
+  return parseInt(match[1], 10) % 2 === 1 ? 'left' : 'right';
+}
+
+/**
+ * Scalp region of a 10-20 label, judged by its letter prefix
+ */
+export function getRegion(label: string): ScalpRegion {
+  const prefix = label.replace(/(\d+|z)$/i, '').toUpperCase();
+
+  if (prefix.startsWith('PO') || prefix.startsWith('O')) return 'occipital';
+  if (prefix.startsWith('TP') || prefix.startsWith('T')) return 'temporal';
+  if (prefix.startsWith('P') || prefix.startsWith('CP')) return 'parietal';
+  if (prefix.startsWith('C') || prefix.startsWith('FC')) return 'central';
+  return 'frontal';
+}
+
+/**
+ * Index of a channel label in the montage, or -1 if the headset lacks it
+ */
+export function getChannelIndex(montage: Montage, label: string): number {
+  return montage.channels.findIndex(channel => channel.toLowerCase() === label.toLowerCase());
+}
+
+/**
+ * Labels of all montage channels in the given regions
+ */
+export function getChannelsInRegion(montage: Montage, regions: ScalpRegion[]): string[] {
+  return montage.channels.filter(label => regions.includes(getRegion(label)));
+}
+
+export interface AsymmetryPair {
+  name: string;
+  // Candidate labels in order of preference; the first present in the montage is used
+  left: string[];
+  right: string[];
+}
+
+// Homologous left/right sites used for alpha asymmetry features
+export const ASYMMETRY_PAIRS: AsymmetryPair[] = [
+  { name: 'frontal', left: ['F3', 'AF7', 'F7', 'Fp1', 'AF3'], right: ['F4', 'AF8', 'F8', 'Fp2', 'AF4'] },
+  { name: 'central', left: ['C3'], right: ['C4'] },
+  { name: 'temporal', left: ['T7', 'TP9', 'TP7'], right: ['T8', 'TP10', 'TP8'] },
+  { name: 'parietal', left: ['P3', 'P7'], right: ['P4', 'P8'] },
+  { name: 'occipital', left: ['PO7', 'O1', 'PO3'], right: ['PO8', 'O2', 'PO4'] }
+];
+
+export interface ResolvedAsymmetryPair {
+  name: string;
+  left: string;
+  right: string;
+  leftIndex: number;
+  rightIndex: number;
+}
+
+/**
+ * Resolve the asymmetry pairs that the montage can actually measure
+ */
+export function resolveAsymmetryPairs(montage: Montage): ResolvedAsymmetryPair[] {
+  const resolved: ResolvedAsymmetryPair[] = [];
+
+  ASYMMETRY_PAIRS.forEach(pair => {
+    const left = pair.left.find(label => getChannelIndex(montage, label) >= 0);
+    const right = pair.right.find(label => getChannelIndex(montage, label) >= 0);
+
+    if (left && right) {
+      resolved.push({
+        name: pair.name,
+        left,
+        right,
+        leftIndex: getChannelIndex(montage, left),
+        rightIndex: getChannelIndex(montage, right)
+      });
+    }
+  });
+
+  return resolved;
+}
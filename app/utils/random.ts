@@ -0,0 +1,37 @@
+/**
+ * Random Utility
+ *
+ * This module provides a small seeded pseudo-random number generator so
+ * simulations and data splits can be reproduced exactly from a seed.
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Create a seeded generator (mulberry32) returning values in [0, 1)
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample via the Box-Muller transform
+ */
+export function gaussian(random: RandomSource): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Uniform sample in [min, max)
+ */
+export function uniform(random: RandomSource, min: number, max: number): number {
+  return min + (max - min) * random();
+}
@@ -0,0 +1,177 @@
+/**
+ * Recurrent Backend Utility
+ *
+ * This module implements the LSTM and GRU classifier backends on brain.js
+ * time-step networks, which see the features of the last few consecutive
+ * epochs instead of a single snapshot. brain.js time-step networks forecast
+ * the next step of a sequence with the same width as its inputs, so every
+ * step is laid out as [features, label scores, valence, arousal]: the input
+ * steps carry the features with zeroed outputs, and the network is trained
+ * to forecast a final step carrying the one-hot label and the valence and
+ * arousal targets. Scoring reads that forecast back.
+ */
+
+import { recurrent } from 'brain.js';
+import {
+  AFFECT_OUTPUTS,
+  BackendLayout,
+  ClassifierBackend,
+  ClassifierBackendDescriptor,
+  ClassifierBackendId,
+  MAX_SEQUENCE_LENGTH,
+  featureVector
+} from './classifierBackend';
+
+type TimeStepNetwork = InstanceType<typeof recurrent.RNNTimeStep>;
+
+type TimeStepNetworkClass = typeof recurrent.LSTMTimeStep | typeof recurrent.GRUTimeStep;
+
+interface RecurrentParameters {
+  sequenceLength: number;
+  network: ReturnType<TimeStepNetwork['toJSON']>;
+}
+
+// Width of every step: features, one score per label, valence and arousal
+const stepSize = (layout: BackendLayout) => layout.featureLayout.length + layout.labels.length + 2;
+
+class RecurrentBackend implements ClassifierBackend {
+  readonly sequenceLength: number;
+  private readonly network: TimeStepNetwork;
+  private readonly layout: BackendLayout;
+
+  constructor(network: TimeStepNetwork, layout: BackendLayout, sequenceLength: number) {
+    this.network = network;
+    this.layout = layout;
+    this.sequenceLength = sequenceLength;
+  }
+
+  score(sequence: Record<string, number>[]): Record<string, number> {
+    const steps = sequence
+      .slice(-this.sequenceLength)
+      .map(features => inputStep(features, this.layout));
+    const forecast = this.network.run(steps) as ArrayLike<number>;
+
+    const offset = this.layout.featureLayout.length;
+    const scores: Record<string, number> = {};
+    this.layout.labels.forEach((label, i) => {
+      scores[label] = forecast[offset + i];
+    });
+    scores[AFFECT_OUTPUTS.valence] = forecast[offset + this.layout.labels.length];
+    scores[AFFECT_OUTPUTS.arousal] = forecast[offset + this.layout.labels.length + 1];
+
+    return scores;
+  }
+
+  toJSON(): RecurrentParameters {
+    return { sequenceLength: this.sequenceLength, network: this.network.toJSON() };
+  }
+}
+
+function inputStep(features: Record<string, number>, layout: BackendLayout): number[] {
+  return [...featureVector(features, layout.featureLayout), ...layout.labels.map(() => 0), 0, 0];
+}
+
+function targetStep(label: string, valence: number, arousal: number, layout: BackendLayout): number[] {
+  return [
+    ...layout.featureLayout.map(() => 0),
+    ...layout.labels.map(candidate => (candidate === label ? 1 : 0)),
+    valence,
+    arousal
+  ];
+}
+
+function createRecurrentBackend(
+  id: ClassifierBackendId,
+  label: string,
+  description: string,
+  Network: TimeStepNetworkClass
+): ClassifierBackendDescriptor {
+  return {
+    id,
+    label,
+    description,
+    neural: true,
+    sequential: true,
+    // Wide steps need a far lower learning rate than the feedforward net to
+    // converge, and each iteration runs whole sequences, so fewer are affordable
+    defaults: { hiddenLayers: [20], iterations: 200, learningRate: 0.001 },
+    train: async (samples, layout, options, onProgress) => {
+      const size = stepSize(layout);
+      const sequenceLength = Math.max(1, Math.min(MAX_SEQUENCE_LENGTH, options.sequenceLength));
+      const network: TimeStepNetwork = new Network({
+        inputSize: size,
+        outputSize: size,
+        hiddenLayers: options.hiddenLayers
+      });
+
+      const trainData = samples.map(sample => ({
+        input: sample.sequence.slice(-sequenceLength).map(features => inputStep(features, layout)),
+        output: [targetStep(sample.label, sample.valence, sample.arousal, layout)]
+      }));
+
+      // Time-step networks only train synchronously; this runs in a worker
+      const result = network.train(trainData, {
+        iterations: options.iterations,
+        errorThresh: options.errorThresh,
+        learningRate: options.learningRate,
+        log: false,
+        callback: onProgress,
+        callbackPeriod: 10
+      });
+
+      return {
+        backend: new RecurrentBackend(network, layout, sequenceLength),
+        iterations: result.iterations,
+        error: result.error
+      };
+    },
+    fromJSON: (parameters: RecurrentParameters, layout) => {
+      const network: TimeStepNetwork = new Network();
+      network.fromJSON(parameters.network);
+      return new RecurrentBackend(network, layout, parameters.sequenceLength);
+    },
+    validate: (parameters, layout) => {
+      if (
+        !parameters ||
+        !parameters.network ||
+        !parameters.network.options ||
+        !Array.isArray(parameters.network.hiddenLayers)
+      ) {
+        return 'Model file does not contain a recurrent network';
+      }
+
+      if (
+        !Number.isInteger(parameters.sequenceLength) ||
+        parameters.sequenceLength < 1 ||
+        parameters.sequenceLength > MAX_SEQUENCE_LENGTH
+      ) {
+        return `Sequence length must be a whole number from 1 to ${MAX_SEQUENCE_LENGTH}`;
+      }
+
+      if (parameters.network.options.inputSize !== stepSize(layout)) {
+        return 'Network inputs do not match the model feature layout and labels';
+      }
+
+      // Scores are read from the forecast by position, one slot per feature, label and affect output
+      if (parameters.network.options.outputSize !== stepSize(layout)) {
+        return 'Network outputs do not match the model feature layout and labels';
+      }
+
+      return null;
+    }
+  };
+}
+
+export const lstmBackend = createRecurrentBackend(
+  'lstm',
+  'LSTM',
+  'Long short-term memory network over the last few epochs',
+  recurrent.LSTMTimeStep
+);
+
+export const gruBackend = createRecurrentBackend(
+  'gru',
+  'GRU',
+  'Gated recurrent unit network over the last few epochs',
+  recurrent.GRUTimeStep
+);
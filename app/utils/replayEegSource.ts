@@ -0,0 +1,163 @@
+/**
+ * Replay EEG Source
+ *
+ * This module plays a recorded session back as an EegSource, so recordings
+ * drive the Brain Wave Monitor, Dashboard, chat and music exactly like a live
+ * headset. Playback supports pause, seek, 0.5x-10x speed and looping.
+ *
+ * Samples are always delivered in recorded order with their recorded
+ * timestamps; only the batch sizes depend on timer jitter. Because the
+ * pipeline counts samples rather than wall-clock time, two replays of the
+ * same recording with the same classifier produce the same emotion timeline.
+ */
+
+import { BaseEegSource } from './eegSource';
+import { EegRecording } from './sessionImport';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 5, 10];
+
+export interface ReplayState {
+  // Seconds into the recording
+  position: number;
+  duration: number;
+  isPlaying: boolean;
+  speed: number;
+  loop: boolean;
+}
+
+export type ReplayListener = (state: ReplayState) => void;
+
+// Interval between delivered batches
+const TICK_MS = 100;
+
+export class ReplayEegSource extends BaseEegSource {
+  readonly name = 'Session replay';
+  readonly recording: EegRecording;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private index = 0;
+  // Fractional samples owed from previous ticks, so non-integer rates don't drift
+  private carry = 0;
+  private playing = false;
+  private playbackSpeed = 1;
+  private looping = true;
+  private replayListeners: ReplayListener[] = [];
+
+  constructor(recording: EegRecording) {
+    super(recording.montage);
+    this.recording = recording;
+  }
+
+  get state(): ReplayState {
+    return {
+      position: this.index / this.sampleRate,
+      duration: this.recording.samples.length / this.sampleRate,
+      isPlaying: this.playing,
+      speed: this.playbackSpeed,
+      loop: this.looping
+    };
+  }
+
+  /**
+   * Subscribe to playback position and control changes; returns an unsubscribe function
+   */
+  onReplay(listener: ReplayListener): () => void {
+    this.replayListeners.push(listener);
+    return () => {
+      this.replayListeners = this.replayListeners.filter(l => l !== listener);
+    };
+  }
+
+  async connect(): Promise<void> {
+    if (this.intervalId) return;
+
+    if (!this.recording.samples.length) {
+      throw new Error('The recording holds no samples');
+    }
+
+    this.setStatus('connecting');
+    this.intervalId = setInterval(() => this.tick(), TICK_MS);
+    this.setStatus('connected');
+    this.play();
+  }
+
+  disconnect(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.playing = false;
+    this.setStatus('disconnected');
+    this.notify();
+  }
+
+  play(): void {
+    // Restart from the top when playback had stopped at the end
+    if (this.index >= this.recording.samples.length) {
+      this.index = 0;
+      this.emitReset();
+    }
+    this.playing = true;
+    this.notify();
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.carry = 0;
+    this.notify();
+  }
+
+  /**
+   * Jump to a position in seconds; consumers are told to drop buffered state
+   */
+  seek(seconds: number): void {
+    const target = Math.round(seconds * this.sampleRate);
+    this.index = Math.max(0, Math.min(this.recording.samples.length, target));
+    this.carry = 0;
+    this.emitReset();
+    this.notify();
+  }
+
+  setSpeed(speed: number): void {
+    this.playbackSpeed = Math.max(REPLAY_SPEEDS[0], Math.min(REPLAY_SPEEDS[REPLAY_SPEEDS.length - 1], speed));
+    this.notify();
+  }
+
+  setLoop(loop: boolean): void {
+    this.looping = loop;
+    this.notify();
+  }
+
+  private tick(): void {
+    if (!this.playing) return;
+
+    const { samples } = this.recording;
+    this.carry += (this.sampleRate * this.playbackSpeed * TICK_MS) / 1000;
+    let due = Math.floor(this.carry);
+    this.carry -= due;
+
+    while (due > 0 && this.playing) {
+      const end = Math.min(samples.length, this.index + due);
+      this.emitSamples(samples.slice(this.index, end));
+      due -= end - this.index;
+      this.index = end;
+
+      if (this.index >= samples.length) {
+        if (this.looping) {
+          // The wrap is a discontinuity, just like a seek to the start
+          this.index = 0;
+          this.emitReset();
+        } else {
+          this.playing = false;
+          this.carry = 0;
+        }
+      }
+    }
+
+    this.notify();
+  }
+
+  private notify(): void {
+    const state = this.state;
+    this.replayListeners.forEach(listener => listener(state));
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Ring Buffer Utility
+ *
+ * This module stores multichannel EEG in preallocated typed arrays: one
+ * Float32Array per channel plus a Float64Array of timestamps, so appending
+ * samples never allocates. Reads return windows that are zero-copy subarray
+ * views of the storage whenever the range does not wrap around the end of
+ * the ring (and are copied only when it does). Views stay valid until the
+ * ring overwrites the samples they cover.
+ *
+ * The same buffer backs the pipeline worker's classification history and
+ * plot traces and the session recorder.
+ */
+
+import { EegChannelData } from './eegProcessor';
+
+export interface SampleWindow {
+  // Index of the first sample, counted from the last clear
+  start: number;
+  timestamps: Float64Array;
+  // One array per channel, in montage order
+  channels: Float32Array[];
+}
+
+// Timestamps plus channel values interleaved sample by sample
+export interface PackedSamples {
+  timestamps: Float64Array;
+  values: Float32Array;
+}
+
+// Either a plain list of samples or a window read from a ring buffer
+export type EegEpoch = EegChannelData[] | SampleWindow;
+
+export interface RingBufferOptions {
+  // Grow (by doubling) up to this many samples before overwriting the oldest
+  maxCapacity?: number;
+}
+
+export class SampleRingBuffer {
+  readonly channelCount: number;
+  private maxCapacity: number;
+  private timestamps: Float64Array;
+  private data: Float32Array[];
+  // Samples written since the last clear
+  private written = 0;
+
+  constructor(channelCount: number, capacity: number, options: RingBufferOptions = {}) {
+    if (channelCount < 1 || capacity < 1) {
+      throw new Error('A ring buffer needs at least one channel and one sample of capacity');
+    }
+
+    this.channelCount = channelCount;
+    this.maxCapacity = Math.max(capacity, options.maxCapacity || capacity);
+    this.timestamps = new Float64Array(capacity);
+    this.data = Array.from({ length: channelCount }, () => new Float32Array(capacity));
+  }
+
+  get capacity(): number {
+    return this.timestamps.length;
+  }
+
+  // Samples currently held
+  get length(): number {
+    return Math.min(this.written, this.capacity);
+  }
+
+  // Index of the next sample to be written
+  get end(): number {
+    return this.written;
+  }
+
+  // Index of the oldest sample still held
+  get start(): number {
+    return this.written - this.length;
+  }
+
+  // True once the buffer has reached its largest size and will overwrite
+  get isFull(): boolean {
+    return this.length >= this.maxCapacity;
+  }
+
+  push(timestamp: number, values: ArrayLike<number>): void {
+    if (this.written === this.capacity && this.capacity < this.maxCapacity) {
+      this.grow();
+    }
+
+    const position = this.written % this.capacity;
+    this.timestamps[position] = timestamp;
+    for (let ch = 0; ch < this.channelCount; ch++) {
+      this.data[ch][position] = values[ch];
+    }
+    this.written++;
+  }
+
+  pushSamples(samples: EegChannelData[]): void {
+    samples.forEach(sample => this.push(sample.timestamp, sample.channels));
+  }
+
+  pushPacked({ timestamps, values }: PackedSamples): void {
+    for (let i = 0; i < timestamps.length; i++) {
+      const offset = i * this.channelCount;
+      this.push(timestamps[i], values.subarray(offset, offset + this.channelCount));
+    }
+  }
+
+  clear(): void {
+    this.written = 0;
+  }
+
+  /**
+   * Read `count` samples starting at index `from`, clamped to the samples still held
+   */
+  window(from: number, count: number): SampleWindow {
+    const first = Math.max(from, this.start);
+    const last = Math.min(from + count, this.end);
+    const size = Math.max(0, last - first);
+    const offset = first % this.capacity;
+
+    // Contiguous ranges are returned as views of the storage
+    if (offset + size <= this.capacity) {
+      return {
+        start: first,
+        timestamps: this.timestamps.subarray(offset, offset + size),
+        channels: this.data.map(channel => channel.subarray(offset, offset + size))
+      };
+    }
+
+    const head = this.capacity - offset;
+    const join = <T extends Float32Array | Float64Array>(source: T, target: T): T => {
+      target.set(source.subarray(offset));
+      target.set(source.subarray(0, size - head), head);
+      return target;
+    };
+
+    return {
+      start: first,
+      timestamps: join(this.timestamps, new Float64Array(size)),
+      channels: this.data.map(channel => join(channel, new Float32Array(size)))
+    };
+  }
+
+  /**
+   * The most recent `count` samples (or fewer, if the buffer holds fewer)
+   */
+  latest(count: number): SampleWindow {
+    return this.window(this.end - count, count);
+  }
+
+  /**
+   * Every sample still held, oldest first
+   */
+  all(): SampleWindow {
+    return this.window(this.start, this.length);
+  }
+
+  private grow(): void {
+    // Only called while the ring has not wrapped, so positions stay valid
+    const capacity = Math.min(this.capacity * 2, this.maxCapacity);
+    const timestamps = new Float64Array(capacity);
+    timestamps.set(this.timestamps);
+    this.timestamps = timestamps;
+    this.data = this.data.map(channel => {
+      const grown = new Float32Array(capacity);
+      grown.set(channel);
+      return grown;
+    });
+  }
+}
+
+/**
+ * Cuts epochs of `length` samples every `step` samples of a ring buffer, so
+ * consecutive epochs overlap by length - step samples. Counting samples rather
+ * than wall-clock time keeps the epochs independent of how batches arrive.
+ */
+export class EpochCutter {
+  private nextEnd: number;
+
+  constructor(
+    private buffer: SampleRingBuffer,
+    readonly length: number,
+    readonly step: number
+  ) {
+    if (length < 1 || step < 1) {
+      throw new Error('Epoch length and step must be at least one sample');
+    }
+    this.nextEnd = buffer.end + step;
+  }
+
+  /**
+   * Epochs completed since the last call, oldest first. Early epochs are
+   * shorter than `length` while the buffer is still filling.
+   */
+  take(): SampleWindow[] {
+    const epochs: SampleWindow[] = [];
+
+    while (this.nextEnd <= this.buffer.end) {
+      const from = Math.max(0, this.nextEnd - this.length);
+      epochs.push(this.buffer.window(from, this.nextEnd - from));
+      this.nextEnd += this.step;
+    }
+
+    return epochs;
+  }
+
+  /**
+   * Restart counting from the buffer's current end, e.g. after it was cleared
+   */
+  reset(): void {
+    this.nextEnd = this.buffer.end + this.step;
+  }
+}
+
+/**
+ * Number of samples in an epoch
+ */
+export function epochSize(epoch: EegEpoch): number {
+  return Array.isArray(epoch) ? epoch.length : epoch.timestamps.length;
+}
+
+/**
+ * One channel of an epoch; a view (not a copy) for ring buffer windows
+ */
+export function epochChannel(epoch: EegEpoch, index: number): ArrayLike<number> {
+  return Array.isArray(epoch) ? epoch.map(sample => sample.channels[index]) : epoch.channels[index];
+}
+
+/**
+ * Timestamp of the last sample of a non-empty epoch
+ */
+export function epochEndTime(epoch: EegEpoch): number {
+  return Array.isArray(epoch)
+    ? epoch[epoch.length - 1].timestamp
+    : epoch.timestamps[epoch.timestamps.length - 1];
+}
+
+/**
+ * Convert a window back into per-sample records
+ */
+export function windowToSamples(window: SampleWindow): EegChannelData[] {
+  return Array.from(window.timestamps, (timestamp, i) => ({
+    timestamp,
+    channels: window.channels.map(channel => channel[i])
+  }));
+}
@@ -0,0 +1,36 @@
+/**
+ * Server Emotion Store Utility
+ *
+ * This module gives API routes an EmotionStore of their own. The browser's
+ * store stays the source of truth; /api/chat records the prediction each
+ * request carries into the server store, so server-side code can read the
+ * emotion timeline of the conversation. Like the EEG stream hub, the store
+ * is kept on the HTTP server, so it survives API route reloads in development.
+ */
+
+import type { NextApiResponse } from 'next';
+import type { Server } from 'http';
+import type { Socket } from 'net';
+import { EmotionStore } from './emotionStore';
+
+type ServerWithStore = Server & { emotionStore?: EmotionStore };
+
+// Next.js hands API routes the Node socket, which references the HTTP server
+interface SocketWithServer extends Socket {
+  server?: ServerWithStore;
+}
+
+/**
+ * The server's emotion store, created on first use, or null if the route
+ * has no HTTP server to keep it on
+ */
+export function getServerEmotionStore(res: NextApiResponse): EmotionStore | null {
+  const socket = res.socket as SocketWithServer | null;
+  const server = socket?.server;
+  if (!server) return null;
+
+  if (!server.emotionStore) {
+    server.emotionStore = new EmotionStore();
+  }
+  return server.emotionStore;
+}
@@ -0,0 +1,55 @@
+/**
+ * Server-Sent Events Utility
+ *
+ * This module reads and writes text/event-stream bodies. Network chunks
+ * rarely line up with events, so the parser buffers partial lines and only
+ * hands out the data of events whose terminating blank line has arrived.
+ * The server uses it to read the LLM provider's stream and the browser to
+ * read the stream relayed by /api/chat.
+ */
+
+export class SseParser {
+  private buffer = '';
+
+  /**
+   * Add a chunk of the stream; returns the data of every event it completes
+   */
+  push(chunk: string): string[] {
+    this.buffer += chunk;
+
+    const blocks = this.buffer.split(/\r?\n\r?\n/);
+    // The last block is incomplete until a blank line follows it
+    this.buffer = blocks.pop() || '';
+
+    return blocks.map(parseEventData).filter((data): data is string => data !== null);
+  }
+
+  /**
+   * Data of a final event the stream ended without terminating, if any
+   */
+  flush(): string[] {
+    const data = parseEventData(this.buffer);
+    this.buffer = '';
+    return data === null ? [] : [data];
+  }
+}
+
+/**
+ * Data lines of one event joined by newlines, or null if it has none
+ * (comments, keep-alives and events carrying only a name or id)
+ */
+function parseEventData(block: string): string | null {
+  const lines = block
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(line.startsWith('data: ') ? 6 : 5));
+
+  return lines.length > 0 ? lines.join('\n') : null;
+}
+
+/**
+ * One event carrying a JSON value
+ */
+export function formatSseData(data: unknown): string {
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
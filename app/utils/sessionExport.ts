@@ -0,0 +1,98 @@
+/**
+ * Session Export Utility
+ *
+ * This module turns a RecordedSession into files for offline analysis:
+ * EDF+ with the session events as annotations, a CSV of the raw and filtered
+ * samples, and a CSV of the events.
+ */
+
+import { RecordedSession } from './sessionRecorder';
+import { writeEdfPlus } from './edfFormat';
+
+export type ExportSignal = 'raw' | 'filtered';
+
+/**
+ * Seconds from the start of the session
+ */
+function sessionSeconds(session: RecordedSession, timestamp: number): number {
+  return (timestamp - session.startTime) / 1000;
+}
+
+/**
+ * Quote a CSV cell when it contains separators, quotes or line breaks
+ */
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Export the raw or filtered EEG as EDF+, with every session event as an annotation
+ */
+export function sessionToEdf(session: RecordedSession, signal: ExportSignal = 'raw'): Uint8Array {
+  const window = signal === 'raw' ? session.raw : session.filtered;
+  const { montage } = session;
+
+  return writeEdfPlus({
+    startTime: session.startTime,
+    equipment: montage.name,
+    signals: montage.channels.map((label, channel) => ({
+      label: `EEG ${label}`,
+      physicalDimension: montage.units,
+      sampleRate: montage.sampleRate,
+      prefiltering: signal === 'filtered' ? session.prefiltering : '',
+      samples: window.channels[channel]
+    })),
+    // Events from before the first sample are pinned to the start
+    annotations: session.events.map(event => ({
+      onset: Math.max(0, sessionSeconds(session, event.timestamp)),
+      text: event.label
+    }))
+  });
+}
+
+/**
+ * Export the EEG as CSV: one row per sample with raw and filtered columns
+ */
+export function sessionToCsv(session: RecordedSession): string {
+  const { channels } = session.montage;
+  const header = [
+    'time_s',
+    'timestamp',
+    ...channels.map(label => `${label}_raw`),
+    ...channels.map(label => `${label}_filtered`)
+  ];
+
+  const { raw, filtered } = session;
+  // Sample times keep their fractional milliseconds: at rates that do not
+  // divide 1000 (e.g. 256 Hz), whole milliseconds would distort the spacing
+  const rows = Array.from(raw.timestamps, (timestamp, index) => [
+    sessionSeconds(session, timestamp).toFixed(6),
+    timestamp.toFixed(3),
+    ...raw.channels.map(channel => channel[index].toFixed(3)),
+    ...filtered.channels.map(channel => channel[index].toFixed(3))
+  ].join(','));
+
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * Export the session events (classifications, chat, music, filter changes) as CSV
+ */
+export function sessionEventsToCsv(session: RecordedSession): string {
+  const rows = session.events.map(event => [
+    sessionSeconds(session, event.timestamp).toFixed(3),
+    String(Math.round(event.timestamp)),
+    event.type,
+    csvCell(event.label),
+    csvCell(event.detail || '')
+  ].join(','));
+
+  return ['time_s,timestamp,type,label,detail', ...rows].join('\n') + '\n';
+}
+
+/**
+ * File name stem for a session export, e.g. "session-2024-05-01T14-03-22"
+ */
+export function sessionFileName(session: RecordedSession): string {
+  return `session-${new Date(session.startTime).toISOString().slice(0, 19).replace(/:/g, '-')}`;
+}
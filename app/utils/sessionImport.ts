@@ -0,0 +1,177 @@
+/**
+ * Session Import Utility
+ *
+ * This module loads recorded EEG back into memory for replay: EDF/EDF+ files
+ * (including the app's own exports), the app's session CSV and Unicorn
+ * Recorder CSV files. Channel labels are matched against the known montages
+ * so replayed data runs through the same montage-aware pipeline as live data.
+ */
+
+import { EegChannelData } from './eegProcessor';
+import { Montage, MONTAGES, UNICORN_MONTAGE } from './montage';
+import { EdfAnnotation, readEdf } from './edfFormat';
+import { UNICORN_COLUMNS, parseUnicornCsv } from './unicornFormat';
+
+export interface EegRecording {
+  name: string;
+  montage: Montage;
+  samples: EegChannelData[];
+  // Annotations stored with the recording (EDF+), or the sample gaps of a Unicorn Recorder file
+  annotations: EdfAnnotation[];
+  // Samples the device counter shows were lost during recording (Unicorn Recorder only)
+  droppedSamples: number;
+}
+
+/**
+ * Use a known montage when the channel labels match one, otherwise describe the file's own layout
+ */
+function montageForChannels(channels: string[], sampleRate: number, units: string, name: string): Montage {
+  const known = Object.values(MONTAGES).find(montage =>
+    montage.channels.length === channels.length &&
+    montage.channels.every((label, index) => label.toLowerCase() === channels[index].toLowerCase())
+  );
+
+  if (known) return { ...known, sampleRate };
+  return { id: 'recording', name, channels, sampleRate, units };
+}
+
+/**
+ * Load the EEG signals of an EDF/EDF+ file
+ */
+function importEdf(name: string, data: ArrayBuffer): EegRecording {
+  const edf = readEdf(data);
+
+  // Keep the signals at the dominant sample rate; auxiliary channels often differ
+  const rateCounts: Record<number, number> = {};
+  edf.signals.forEach(signal => {
+    rateCounts[signal.sampleRate] = (rateCounts[signal.sampleRate] || 0) + 1;
+  });
+  const sampleRate = Number(Object.keys(rateCounts).sort((a, b) => rateCounts[Number(b)] - rateCounts[Number(a)])[0]);
+  const signals = edf.signals.filter(signal => signal.sampleRate === sampleRate);
+
+  if (!signals.length) {
+    throw new Error('EDF file has no signals');
+  }
+  if (!Number.isInteger(sampleRate)) {
+    throw new Error(`Unsupported sample rate of ${sampleRate} Hz`);
+  }
+
+  const channels = signals.map(signal => signal.label.replace(/^EEG\s+/i, ''));
+  const units = signals[0].physicalDimension === 'uV' ? 'µV' : signals[0].physicalDimension;
+  const length = Math.min(...signals.map(signal => signal.samples.length));
+
+  const samples: EegChannelData[] = [];
+  for (let i = 0; i < length; i++) {
+    samples.push({
+      channels: signals.map(signal => signal.samples[i]),
+      timestamp: edf.startTime + (i * 1000) / sampleRate
+    });
+  }
+
+  return {
+    name,
+    montage: montageForChannels(channels, sampleRate, units, name),
+    samples,
+    annotations: edf.annotations,
+    droppedSamples: 0
+  };
+}
+
+/**
+ * Load the raw channels of a session CSV exported by the app
+ */
+function importSessionCsv(name: string, lines: string[]): EegRecording {
+  const header = lines[0].split(',').map(cell => cell.trim());
+  const timestampColumn = header.indexOf('timestamp');
+  const rawColumns = header
+    .map((cell, index) => ({ cell, index }))
+    .filter(({ cell }) => cell.endsWith('_raw'));
+
+  if (timestampColumn < 0 || !rawColumns.length) {
+    throw new Error('CSV is neither a session export nor a Unicorn Recorder file');
+  }
+
+  const samples: EegChannelData[] = lines.slice(1).map((line, row) => {
+    const cells = line.split(',');
+    const sample = {
+      channels: rawColumns.map(({ index }) => parseFloat(cells[index])),
+      timestamp: parseFloat(cells[timestampColumn])
+    };
+
+    if (isNaN(sample.timestamp) || sample.channels.some(value => isNaN(value))) {
+      throw new Error(`Invalid value on CSV data row ${row + 1}`);
+    }
+    return sample;
+  });
+
+  if (samples.length < 2) {
+    throw new Error('CSV holds too few samples to replay');
+  }
+
+  // The export carries timestamps rather than a rate. Average the steps near
+  // the median, leaving out gaps: older exports rounded timestamps to whole
+  // milliseconds, so single steps alternate (3 and 4 ms at 256 Hz)
+  const steps = samples.slice(1).map((sample, i) => sample.timestamp - samples[i].timestamp);
+  const median = [...steps].sort((a, b) => a - b)[Math.floor(steps.length / 2)];
+  const regular = steps.filter(step => step > 0 && step <= median * 1.5);
+  const spacing = regular.reduce((sum, step) => sum + step, 0) / regular.length;
+  const sampleRate = Math.round(1000 / spacing);
+
+  if (!isFinite(sampleRate) || sampleRate <= 0) {
+    throw new Error('Could not determine the sample rate from the CSV timestamps');
+  }
+
+  const channels = rawColumns.map(({ cell }) => cell.replace(/_raw$/, ''));
+
+  return {
+    name,
+    montage: montageForChannels(channels, sampleRate, 'µV', name),
+    samples,
+    annotations: [],
+    droppedSamples: 0
+  };
+}
+
+/**
+ * Load a Unicorn Recorder CSV, keeping its counter gaps as annotations
+ */
+function importUnicornCsv(name: string, text: string): EegRecording {
+  const { samples, droppedSamples, gaps } = parseUnicornCsv(text);
+  const firstCounter = samples.length ? samples[0].auxiliary.counter : 0;
+  const { sampleRate } = UNICORN_MONTAGE;
+
+  return {
+    name,
+    montage: UNICORN_MONTAGE,
+    samples: samples.map(({ channels, timestamp }) => ({ channels, timestamp })),
+    annotations: gaps.map(gap => ({
+      onset: (gap.afterCounter + 1 - firstCounter) / sampleRate,
+      duration: gap.missing / sampleRate,
+      text: `Dropped ${gap.missing} sample${gap.missing === 1 ? '' : 's'}`
+    })),
+    droppedSamples
+  };
+}
+
+/**
+ * Load a recorded session from an EDF/EDF+ or CSV file
+ */
+export function importRecording(name: string, data: ArrayBuffer): EegRecording {
+  if (/\.(edf|rec)$/i.test(name)) {
+    return importEdf(name, data);
+  }
+
+  const text = new TextDecoder().decode(data);
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+
+  if (!lines.length) {
+    throw new Error('File is empty');
+  }
+
+  // Unicorn Recorder files carry the device's own column names
+  if (lines[0].includes(UNICORN_COLUMNS[0])) {
+    return importUnicornCsv(name, text);
+  }
+
+  return importSessionCsv(name, lines);
+}
@@ -0,0 +1,233 @@
+/**
+ * Session Recorder Utility
+ *
+ * This module captures everything that happens during a session: raw and
+ * filtered EEG samples, classifier outputs, self-reported emotions, rejected
+ * epochs, chat messages, music changes and filter setting changes, each with a timestamp. A finished session can be
+ * exported as EDF+ or CSV (see sessionExport.ts) for offline analysis.
+ * Classifications, self-reports and music changes are picked up from the
+ * emotion store
+ * (see followEmotionStore).
+ */
+
+import { EegChannelData } from './eegProcessor';
+import { Montage } from './montage';
+import { FilterSettings, describeFilterSettings } from './eegFilters';
+import { PackedSamples, SampleRingBuffer, SampleWindow } from './ringBuffer';
+import { EmotionStore } from './emotionStore';
+import { formatConfidence } from './emotionPrediction';
+
+// Storage starts at one minute and grows up to this length
+const MAX_RECORDING_SECONDS = 2 * 60 * 60;
+
+export type SessionEventType = 'classification' | 'self-report' | 'artifact' | 'chat' | 'music' | 'filter';
+
+export interface SessionEvent {
+  timestamp: number;
+  type: SessionEventType;
+  // Short text used for EDF annotations, e.g. "Emotion: calm"
+  label: string;
+  detail?: string;
+}
+
+export interface RecordedSession {
+  montage: Montage;
+  // Timestamp of the first recorded sample (or of the start, if none arrived)
+  startTime: number;
+  endTime: number;
+  // Filter settings in force when recording started
+  prefiltering: string;
+  // Raw and filtered samples share the same timestamps
+  raw: SampleWindow;
+  filtered: SampleWindow;
+  events: SessionEvent[];
+}
+
+export type RecorderListener = (isRecording: boolean) => void;
+
+export class SessionRecorder {
+  private montage: Montage | null = null;
+  private filterDescription = 'None';
+  private initialFilterDescription = 'None';
+  private recording = false;
+  private startedAt = 0;
+  private stoppedAt = 0;
+  private raw: SampleRingBuffer | null = null;
+  private filtered: SampleRingBuffer | null = null;
+  private events: SessionEvent[] = [];
+  private listeners: RecorderListener[] = [];
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  get sampleCount(): number {
+    return this.raw ? this.raw.length : 0;
+  }
+
+  get eventCount(): number {
+    return this.events.length;
+  }
+
+  get hasData(): boolean {
+    return this.sampleCount > 0;
+  }
+
+  /**
+   * Subscribe to recording start/stop; returns an unsubscribe function
+   */
+  onChange(listener: RecorderListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Set the channel layout of the incoming samples (called when a source connects)
+   */
+  setMontage(montage: Montage): void {
+    if (this.recording && this.montage && this.montage.channels.length !== montage.channels.length) {
+      // A session file can only hold one channel layout
+      this.stop();
+    }
+    this.montage = montage;
+  }
+
+  setFilterSettings(settings: FilterSettings): void {
+    const description = describeFilterSettings(settings);
+    if (description === this.filterDescription) return;
+
+    this.filterDescription = description;
+    this.addEvent('filter', `Filters: ${description}`);
+  }
+
+  /**
+   * Start a new recording, discarding the previous one
+   */
+  start(): void {
+    if (!this.montage) {
+      throw new Error('Connect an EEG source before recording');
+    }
+
+    const { channels, sampleRate } = this.montage;
+    const options = { maxCapacity: sampleRate * MAX_RECORDING_SECONDS };
+    this.raw = new SampleRingBuffer(channels.length, sampleRate * 60, options);
+    this.filtered = new SampleRingBuffer(channels.length, sampleRate * 60, options);
+    this.events = [];
+    this.initialFilterDescription = this.filterDescription;
+    this.startedAt = Date.now();
+    this.stoppedAt = 0;
+    this.recording = true;
+    this.notify();
+  }
+
+  stop(): void {
+    if (!this.recording) return;
+
+    this.recording = false;
+    this.stoppedAt = Date.now();
+    this.notify();
+  }
+
+  /**
+   * Append a batch of raw samples and their filtered counterparts.
+   * Recording stops once the maximum length has been reached.
+   */
+  addSamples(raw: EegChannelData[], filtered: PackedSamples): void {
+    if (!this.recording || !this.raw || !this.filtered) return;
+
+    const channelCount = this.raw.channelCount;
+    if (filtered.timestamps.length !== raw.length || raw.some(sample => sample.channels.length !== channelCount)) {
+      return;
+    }
+
+    this.raw.pushSamples(raw);
+    this.filtered.pushPacked(filtered);
+
+    if (this.raw.isFull) this.stop();
+  }
+
+  /**
+   * Record a classifier output at the time of the epoch it was computed from
+   */
+  addClassification(emotion: string, timestamp: number, detail?: string): void {
+    this.addEvent('classification', `Emotion: ${emotion}`, detail, timestamp);
+  }
+
+  addEvent(type: SessionEventType, label: string, detail?: string, timestamp: number = Date.now()): void {
+    if (!this.recording) return;
+    this.events.push({ timestamp, type, label, detail });
+  }
+
+  /**
+   * Log the predictions, self-reports and music changes published to an
+   * emotion store while recording; returns a function that stops following it
+   */
+  followEmotionStore(store: EmotionStore): () => void {
+    return store.onChange((state, previous) => {
+      if (state.current && state.current !== previous.current) {
+        // The committed (smoothed) emotion is logged with the epoch's own output
+        const { prediction, rawPrediction, timestamp, selfReport } = state.current;
+        const output = rawPrediction || prediction;
+        const probabilities = Object.entries(output.probabilities)
+          .map(([label, probability]) => `${label} ${probability.toFixed(2)}`)
+          .join(', ');
+        this.addClassification(
+          prediction.emotion,
+          timestamp,
+          `epoch: ${output.likelyEmotion} at ${formatConfidence(output.confidence)}; ${probabilities}` +
+            (selfReport ? `; self-report: ${selfReport}` : '')
+        );
+      }
+
+      if (state.selfReport !== previous.selfReport) {
+        const report = state.selfReport;
+        if (report) {
+          const duration = report.until === null
+            ? 'pinned'
+            : `for ${Math.round((report.until - report.reportedAt) / 1000)} s`;
+          this.addEvent('self-report', `Self-report: ${report.emotion}`, duration, report.reportedAt);
+        } else {
+          this.addEvent('self-report', 'Self-report: cleared');
+        }
+      }
+
+      if (state.musicPlaying !== previous.musicPlaying) {
+        this.addEvent('music', state.musicPlaying ? `Music: ${state.musicPlaying}` : 'Music: paused');
+      }
+    });
+  }
+
+  /**
+   * Snapshot of the current (or last) recording
+   */
+  getSession(): RecordedSession {
+    if (!this.montage || !this.raw || !this.filtered) {
+      throw new Error('Nothing has been recorded yet');
+    }
+
+    // Views into the recorder's storage; valid until the next recording starts
+    const raw = this.raw.all();
+    const filtered = this.filtered.all();
+    const sampleCount = raw.timestamps.length;
+    const startTime = sampleCount ? raw.timestamps[0] : this.startedAt;
+    const endTime = sampleCount
+      ? raw.timestamps[sampleCount - 1]
+      : this.stoppedAt || Date.now();
+
+    return {
+      montage: this.montage,
+      startTime,
+      endTime,
+      prefiltering: this.initialFilterDescription,
+      raw,
+      filtered,
+      events: [...this.events].sort((a, b) => a.timestamp - b.timestamp)
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.recording));
+  }
+}
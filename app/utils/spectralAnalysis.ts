@@ -0,0 +1,212 @@
+/**
+ * Spectral Analysis Utility
+ *
+ * This module provides the frequency-domain building blocks used by the EEG
+ * feature pipeline: a radix-2 FFT, Welch power spectral density estimation
+ * and band power integration over the classic EEG frequency bands.
+ */
+
+// Classic EEG frequency bands in Hz, [low, high)
+export const FREQUENCY_BANDS = {
+  delta: [1, 4],
+  theta: [4, 8],
+  alpha: [8, 13],
+  beta: [13, 30],
+  gamma: [30, 45]
+} as const;
+
+export type BandName = keyof typeof FREQUENCY_BANDS;
+
+export const BAND_NAMES = Object.keys(FREQUENCY_BANDS) as BandName[];
+
+export type BandPowers = Record<BandName, number>;
+
+export interface PowerSpectrum {
+  frequencies: number[];
+  psd: number[];
+}
+
+export interface WelchOptions {
+  segmentLength?: number;
+  overlap?: number;
+}
+
+/**
+ * Smallest power of two greater than or equal to n
+ */
+export function nextPowerOfTwo(n: number): number {
+  let power = 1;
+  while (power < n) {
+    power *= 2;
+  }
+  return power;
+}
+
+/**
+ * In-place iterative radix-2 FFT. Both arrays must have the same
+ * power-of-two length.
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  if (n !== im.length || (n & (n - 1)) !== 0) {
+    throw new Error('FFT input length must be a matching power of two');
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  // Butterflies
+  for (let size = 2; size <= n; size *= 2) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Hann window of the given length
+ */
+function hannWindow(length: number): Float64Array {
+  const window = new Float64Array(length);
+  if (length === 1) {
+    window[0] = 1;
+    return window;
+  }
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+  }
+  return window;
+}
+
+/**
+ * Estimate the one-sided power spectral density of a signal using Welch's
+ * method (Hann-windowed, mean-detrended, overlapping segments).
+ *
+ * The result is in signal units squared per Hz (µV²/Hz for EEG).
+ */
+export function welchPsd(
+  signal: ArrayLike<number>,
+  sampleRate: number,
+  options: WelchOptions = {}
+): PowerSpectrum {
+  if (signal.length < 2) {
+    throw new Error('At least two samples are required to estimate a spectrum');
+  }
+
+  const segmentLength = Math.min(options.segmentLength ?? 256, signal.length);
+  const overlap = Math.max(0, Math.min(0.9, options.overlap ?? 0.5));
+  const step = Math.max(1, Math.round(segmentLength * (1 - overlap)));
+  const nfft = nextPowerOfTwo(segmentLength);
+  const bins = nfft / 2 + 1;
+
+  const window = hannWindow(segmentLength);
+  let windowPower = 0;
+  for (let i = 0; i < segmentLength; i++) {
+    windowPower += window[i] * window[i];
+  }
+
+  const psd = new Array<number>(bins).fill(0);
+  const re = new Float64Array(nfft);
+  const im = new Float64Array(nfft);
+  let segments = 0;
+
+  for (let start = 0; start + segmentLength <= signal.length; start += step) {
+    let mean = 0;
+    for (let i = 0; i < segmentLength; i++) {
+      mean += signal[start + i];
+    }
+    mean /= segmentLength;
+
+    re.fill(0);
+    im.fill(0);
+    for (let i = 0; i < segmentLength; i++) {
+      re[i] = (signal[start + i] - mean) * window[i];
+    }
+
+    fft(re, im);
+
+    for (let k = 0; k < bins; k++) {
+      psd[k] += re[k] * re[k] + im[k] * im[k];
+    }
+    segments++;
+  }
+
+  const scale = 1 / (sampleRate * windowPower * segments);
+  const frequencies = new Array<number>(bins);
+
+  for (let k = 0; k < bins; k++) {
+    // One-sided spectrum: double everything except DC and Nyquist
+    const oneSided = k === 0 || k === bins - 1 ? 1 : 2;
+    psd[k] *= scale * oneSided;
+    frequencies[k] = (k * sampleRate) / nfft;
+  }
+
+  return { frequencies, psd };
+}
+
+/**
+ * Integrate a power spectrum over a [low, high) frequency range
+ */
+export function bandPower(spectrum: PowerSpectrum, low: number, high: number): number {
+  const { frequencies, psd } = spectrum;
+  const resolution = frequencies.length > 1 ? frequencies[1] - frequencies[0] : 0;
+  let power = 0;
+
+  for (let k = 0; k < frequencies.length; k++) {
+    if (frequencies[k] >= low && frequencies[k] < high) {
+      power += psd[k] * resolution;
+    }
+  }
+
+  return power;
+}
+
+/**
+ * Compute absolute power in every EEG band for a single-channel signal
+ */
+export function computeBandPowers(
+  signal: ArrayLike<number>,
+  sampleRate: number,
+  options: WelchOptions = {}
+): BandPowers {
+  const spectrum = welchPsd(signal, sampleRate, options);
+  const powers = {} as BandPowers;
+
+  BAND_NAMES.forEach(band => {
+    const [low, high] = FREQUENCY_BANDS[band];
+    powers[band] = bandPower(spectrum, low, high);
+  });
+
+  return powers;
+}
@@ -0,0 +1,390 @@
+/**
+ * Synthetic EEG Utility
+ *
+ * This module generates reproducible, physiologically plausible EEG for
+ * development and evaluation. Each channel is the sum of a 1/f (pink)
+ * background and band-limited oscillators whose amplitudes wax and wane, with
+ * alpha strongest over posterior sites and theta over frontal midline sites.
+ *
+ * A target emotion (or valence/arousal point) reshapes the spectrum: arousal
+ * trades alpha for beta/gamma, and valence sets frontal alpha asymmetry
+ * (positive valence means less left alpha). Targets can be scripted to change
+ * over time with smooth transitions, and blinks, muscle bursts and mains
+ * interference can be injected. The same seed always yields the same signal.
+ */
+
+import { EegChannelData } from './eegProcessor';
+import { BAND_NAMES, BandName, BandPowers, FREQUENCY_BANDS } from './spectralAnalysis';
+import { Montage, ScalpRegion, getHemisphere, getRegion } from './montage';
+import { AffectCoordinates, emotionToAffect } from './circumplex';
+import { RandomSource, createRandom, gaussian, uniform } from './random';
+
+// An emotion label or an explicit valence/arousal point
+export type AffectTarget = string | AffectCoordinates;
+
+export interface EmotionScriptStep {
+  // Seconds from the start of the signal
+  at: number;
+  target: AffectTarget;
+  // Seconds taken to morph into the new state
+  transition?: number;
+}
+
+export interface SyntheticArtifactOptions {
+  // Eye blinks per minute; 0 disables them
+  blinkRate: number;
+  // Muscle (EMG) bursts per minute; 0 disables them
+  muscleRate: number;
+  // Mains interference, or null for none
+  lineNoise: { frequency: 50 | 60; amplitude: number } | null;
+}
+
+export interface SyntheticEegOptions {
+  seed?: number;
+  // Initial emotional state (neutral by default)
+  target?: AffectTarget;
+  // Scheduled changes of the emotional state
+  script?: EmotionScriptStep[];
+  artifacts?: Partial<SyntheticArtifactOptions>;
+  // Timestamp of the first sample in ms
+  startTime?: number;
+}
+
+export const NO_ARTIFACTS: SyntheticArtifactOptions = {
+  blinkRate: 0,
+  muscleRate: 0,
+  lineNoise: null
+};
+
+export const TYPICAL_ARTIFACTS: SyntheticArtifactOptions = {
+  blinkRate: 15,
+  muscleRate: 2,
+  lineNoise: { frequency: 50, amplitude: 5 }
+};
+
+// Resting rhythmic power per band in µV², before regional weighting
+const BASE_BAND_POWER: BandPowers = {
+  delta: 12,
+  theta: 10,
+  alpha: 25,
+  beta: 6,
+  gamma: 1.5
+};
+
+// How strongly each rhythm shows over each region
+const REGION_WEIGHTS: Record<ScalpRegion, BandPowers> = {
+  frontal: { delta: 1.2, theta: 1.3, alpha: 0.6, beta: 1.1, gamma: 1.1 },
+  central: { delta: 1, theta: 1.1, alpha: 0.9, beta: 1.2, gamma: 1 },
+  temporal: { delta: 1, theta: 1, alpha: 0.8, beta: 1, gamma: 1.2 },
+  parietal: { delta: 0.9, theta: 0.9, alpha: 1.4, beta: 0.9, gamma: 0.9 },
+  occipital: { delta: 0.8, theta: 0.8, alpha: 1.8, beta: 0.8, gamma: 0.8 }
+};
+
+// Blink and muscle artifact reach by region
+const BLINK_WEIGHTS: Record<ScalpRegion, number> = {
+  frontal: 1, central: 0.35, temporal: 0.2, parietal: 0.1, occipital: 0.05
+};
+const MUSCLE_WEIGHTS: Record<ScalpRegion, number> = {
+  frontal: 0.6, central: 0.3, temporal: 1, parietal: 0.3, occipital: 0.4
+};
+
+// Oscillators per band and channel, and how fast their envelopes drift (s)
+const OSCILLATORS_PER_BAND = 3;
+const ENVELOPE_TIME_CONSTANT = 0.5;
+const ENVELOPE_DEPTH = 0.4;
+
+// RMS of the pink background and of the white sensor noise in µV
+const BACKGROUND_RMS = 6;
+const SENSOR_NOISE_RMS = 1;
+
+const BLINK_SECONDS = 0.3;
+
+// EMG energy sits mostly above this frequency (Hz)
+const MUSCLE_CUTOFF = 20;
+
+interface Oscillator {
+  band: BandName;
+  frequency: number;
+  phase: number;
+  envelope: number;
+}
+
+interface ChannelState {
+  region: ScalpRegion;
+  hemisphere: 'left' | 'midline' | 'right';
+  oscillators: Oscillator[];
+  // Paul Kellet pink noise filter poles
+  pink: number[];
+  lineGain: number;
+  // First-order high-pass state for the EMG noise
+  muscleInput: number;
+  muscleOutput: number;
+}
+
+interface ActiveEvent {
+  start: number;
+  length: number;
+  amplitude: number;
+}
+
+function resolveTarget(target: AffectTarget): AffectCoordinates {
+  return typeof target === 'string' ? emotionToAffect(target) : target;
+}
+
+/**
+ * Rhythmic band powers (µV²) of one channel for a point on the circumplex
+ */
+function channelBandPowers(channel: ChannelState, affect: AffectCoordinates): BandPowers {
+  const { valence, arousal } = affect;
+  const weights = REGION_WEIGHTS[channel.region];
+  const powers = {} as BandPowers;
+
+  BAND_NAMES.forEach(band => {
+    powers[band] = BASE_BAND_POWER[band] * weights[band];
+  });
+
+  // Arousal desynchronizes alpha and raises fast activity
+  powers.alpha *= Math.max(0.2, 1 - 0.45 * arousal);
+  powers.theta *= Math.max(0.2, 1 - 0.2 * arousal);
+  powers.beta *= 1 + 0.6 * arousal;
+  powers.gamma *= 1 + 0.6 * arousal;
+
+  // Valence sets alpha asymmetry, most clearly over frontal sites:
+  // ln(right alpha) - ln(left alpha) = strength * valence
+  const strength = channel.region === 'frontal' ? 0.8 : 0.4;
+  if (channel.hemisphere === 'left') powers.alpha *= Math.exp(-strength * valence / 2);
+  if (channel.hemisphere === 'right') powers.alpha *= Math.exp(strength * valence / 2);
+
+  return powers;
+}
+
+export class SyntheticEegGenerator {
+  readonly montage: Montage;
+  private random: RandomSource;
+  private channels: ChannelState[];
+  private artifacts: SyntheticArtifactOptions;
+  private script: EmotionScriptStep[];
+  private startTime: number;
+  private sampleIndex = 0;
+  private envelopeDecay: number;
+  private muscleCoefficient: number;
+
+  private fromAffect: AffectCoordinates;
+  private toAffect: AffectCoordinates;
+  private transitionStart = 0;
+  private transitionSamples = 0;
+
+  private blink: ActiveEvent | null = null;
+  private muscle: ActiveEvent | null = null;
+
+  constructor(montage: Montage, options: SyntheticEegOptions = {}) {
+    this.montage = montage;
+    this.random = createRandom(options.seed ?? 1);
+    this.artifacts = { ...NO_ARTIFACTS, ...options.artifacts };
+    this.script = [...(options.script || [])].sort((a, b) => a.at - b.at);
+    this.startTime = options.startTime ?? 0;
+    this.envelopeDecay = Math.exp(-1 / (montage.sampleRate * ENVELOPE_TIME_CONSTANT));
+    this.muscleCoefficient = 1 / (1 + (2 * Math.PI * MUSCLE_CUTOFF) / montage.sampleRate);
+
+    const initial = resolveTarget(options.target || 'neutral');
+    this.fromAffect = initial;
+    this.toAffect = initial;
+
+    const nyquist = montage.sampleRate / 2;
+    this.channels = montage.channels.map(label => {
+      const oscillators: Oscillator[] = [];
+
+      BAND_NAMES.forEach(band => {
+        const [low, high] = FREQUENCY_BANDS[band];
+        const top = Math.min(high, nyquist * 0.9);
+        if (low >= top) return;
+
+        for (let i = 0; i < OSCILLATORS_PER_BAND; i++) {
+          oscillators.push({
+            band,
+            frequency: uniform(this.random, low, top),
+            phase: uniform(this.random, 0, 2 * Math.PI),
+            envelope: gaussian(this.random)
+          });
+        }
+      });
+
+      return {
+        region: getRegion(label),
+        hemisphere: getHemisphere(label),
+        oscillators,
+        pink: [0, 0, 0, 0, 0, 0, 0],
+        lineGain: uniform(this.random, 0.5, 1.5),
+        muscleInput: 0,
+        muscleOutput: 0
+      };
+    });
+  }
+
+  /**
+   * Seconds of signal generated so far
+   */
+  get time(): number {
+    return this.sampleIndex / this.montage.sampleRate;
+  }
+
+  /**
+   * Emotional state the current sample is generated for
+   */
+  get affect(): AffectCoordinates {
+    if (this.transitionSamples <= 0) return this.toAffect;
+
+    const progress = Math.min(1, (this.sampleIndex - this.transitionStart) / this.transitionSamples);
+    // Smoothstep easing
+    const eased = progress * progress * (3 - 2 * progress);
+
+    return {
+      valence: this.fromAffect.valence + (this.toAffect.valence - this.fromAffect.valence) * eased,
+      arousal: this.fromAffect.arousal + (this.toAffect.arousal - this.fromAffect.arousal) * eased
+    };
+  }
+
+  /**
+   * Move towards a new emotional state over the given number of seconds
+   */
+  setTarget(target: AffectTarget, transitionSeconds: number = 3): void {
+    this.fromAffect = this.affect;
+    this.toAffect = resolveTarget(target);
+    this.transitionStart = this.sampleIndex;
+    this.transitionSamples = Math.max(0, Math.round(transitionSeconds * this.montage.sampleRate));
+  }
+
+  setArtifacts(artifacts: Partial<SyntheticArtifactOptions>): void {
+    this.artifacts = { ...this.artifacts, ...artifacts };
+  }
+
+  /**
+   * Generate the next sample
+   */
+  next(): EegChannelData {
+    const { sampleRate } = this.montage;
+    const t = this.sampleIndex / sampleRate;
+
+    // Apply scripted state changes that are due
+    while (this.script.length && this.script[0].at <= t) {
+      const step = this.script.shift() as EmotionScriptStep;
+      this.setTarget(step.target, step.transition ?? 5);
+    }
+
+    this.updateArtifactEvents();
+
+    const affect = this.affect;
+    const envelopeNoise = Math.sqrt(1 - this.envelopeDecay * this.envelopeDecay);
+    const blinkValue = this.blink ? this.blinkShape(this.blink) : 0;
+
+    const channels = this.channels.map(channel => {
+      const powers = channelBandPowers(channel, affect);
+      let value = 0;
+
+      // Band-limited rhythms with slowly drifting amplitude
+      channel.oscillators.forEach(oscillator => {
+        oscillator.envelope = oscillator.envelope * this.envelopeDecay + envelopeNoise * gaussian(this.random);
+        const amplitude = Math.sqrt((2 * powers[oscillator.band]) / OSCILLATORS_PER_BAND);
+        const modulation = Math.max(0, 1 + ENVELOPE_DEPTH * oscillator.envelope);
+        value += amplitude * modulation * Math.sin(2 * Math.PI * oscillator.frequency * t + oscillator.phase);
+      });
+
+      value += BACKGROUND_RMS * this.pinkNoise(channel);
+      value += SENSOR_NOISE_RMS * gaussian(this.random);
+
+      if (this.blink) {
+        value += blinkValue * BLINK_WEIGHTS[channel.region];
+      }
+
+      if (this.muscle) {
+        // High-passed white noise: EMG dominates the otherwise quiet high frequencies
+        const white = gaussian(this.random);
+        channel.muscleOutput = this.muscleCoefficient * (channel.muscleOutput + white - channel.muscleInput);
+        channel.muscleInput = white;
+        value += this.muscle.amplitude * MUSCLE_WEIGHTS[channel.region] * channel.muscleOutput;
+      }
+
+      const lineNoise = this.artifacts.lineNoise;
+      if (lineNoise && lineNoise.frequency < sampleRate / 2) {
+        value += lineNoise.amplitude * channel.lineGain * Math.sin(2 * Math.PI * lineNoise.frequency * t);
+      }
+
+      return value;
+    });
+
+    const sample = {
+      channels,
+      timestamp: this.startTime + (this.sampleIndex * 1000) / sampleRate
+    };
+    this.sampleIndex++;
+
+    return sample;
+  }
+
+  /**
+   * Generate the next `count` samples
+   */
+  generate(count: number): EegChannelData[] {
+    const samples: EegChannelData[] = [];
+    for (let i = 0; i < count; i++) {
+      samples.push(this.next());
+    }
+    return samples;
+  }
+
+  /**
+   * Unit-variance pink (1/f) noise via Paul Kellet's filter
+   */
+  private pinkNoise(channel: ChannelState): number {
+    const white = gaussian(this.random);
+    const b = channel.pink;
+
+    b[0] = 0.99886 * b[0] + white * 0.0555179;
+    b[1] = 0.99332 * b[1] + white * 0.0750759;
+    b[2] = 0.969 * b[2] + white * 0.153852;
+    b[3] = 0.8665 * b[3] + white * 0.3104856;
+    b[4] = 0.55 * b[4] + white * 0.5329522;
+    b[5] = -0.7616 * b[5] - white * 0.016898;
+    const pink = b[0] + b[1] + b[2] + b[3] + b[4] + b[5] + b[6] + white * 0.5362;
+    b[6] = white * 0.115926;
+
+    // The filter's output RMS for unit white noise is roughly 3
+    return pink / 3;
+  }
+
+  /**
+   * Start or end blink and muscle events (Poisson arrivals)
+   */
+  private updateArtifactEvents(): void {
+    const { sampleRate } = this.montage;
+
+    if (this.blink && this.sampleIndex >= this.blink.start + this.blink.length) this.blink = null;
+    if (this.muscle && this.sampleIndex >= this.muscle.start + this.muscle.length) this.muscle = null;
+
+    if (!this.blink && this.artifacts.blinkRate > 0 &&
+        this.random() < this.artifacts.blinkRate / 60 / sampleRate) {
+      this.blink = {
+        start: this.sampleIndex,
+        length: Math.max(1, Math.round(BLINK_SECONDS * sampleRate)),
+        amplitude: uniform(this.random, 100, 200)
+      };
+    }
+
+    if (!this.muscle && this.artifacts.muscleRate > 0 &&
+        this.random() < this.artifacts.muscleRate / 60 / sampleRate) {
+      this.muscle = {
+        start: this.sampleIndex,
+        length: Math.round(uniform(this.random, 0.5, 2) * sampleRate),
+        amplitude: uniform(this.random, 30, 60)
+      };
+    }
+  }
+
+  /**
+   * Monophasic frontal deflection of a blink
+   */
+  private blinkShape(blink: ActiveEvent): number {
+    const progress = (this.sampleIndex - blink.start) / blink.length;
+    return blink.amplitude * Math.pow(Math.sin(Math.PI * progress), 2);
+  }
+}
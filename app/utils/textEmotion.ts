@@ -0,0 +1,226 @@
+/**
+ * Text Emotion Utility
+ *
+ * This module estimates the emotion expressed in a chat message without any
+ * network access. Words, emoticons and emoji are looked up in a small
+ * emotion lexicon, and a few rules adjust the result: negations ("not
+ * happy") hand a term's weight to its opposite, intensifiers and
+ * diminishers scale the next term, and exclamation marks and shouted words
+ * strengthen high-arousal emotions. A neutral prior keeps a single word from
+ * reading as a certain answer. The outcome is a prediction over the same
+ * labels as the EEG classifier, so the two can be fused (see emotionFusion.ts).
+ */
+
+import { DEFAULT_CONFIDENCE_THRESHOLD, EmotionPrediction, createPrediction } from './emotionPrediction';
+import { EMOTION_COORDINATES } from './circumplex';
+
+export interface TextEmotion {
+  prediction: EmotionPrediction;
+  // Total lexicon weight found in the text; zero means it carried no emotion cues
+  evidence: number;
+  // Lexicon terms that matched, in order, e.g. ["not happy", "!"]
+  cues: string[];
+}
+
+const LEXICON: Record<string, string[]> = {
+  happy: [
+    'happy', 'glad', 'joy', 'joyful', 'great', 'awesome', 'amazing', 'wonderful', 'fantastic', 'love',
+    'loved', 'excited', 'delighted', 'cheerful', 'fun', 'yay', 'excellent', 'good', 'nice', 'thrilled',
+    'grateful', 'thankful', 'proud', 'smile', 'smiling', 'laugh', 'laughing', 'enjoy', 'enjoyed', 'celebrate'
+  ],
+  sad: [
+    'sad', 'unhappy', 'down', 'depressed', 'lonely', 'alone', 'miserable', 'cry', 'crying', 'cried',
+    'tears', 'heartbroken', 'hopeless', 'upset', 'hurt', 'loss', 'lost', 'miss', 'missing', 'gloomy',
+    'disappointed', 'sorry', 'grief', 'tired', 'exhausted', 'empty', 'awful', 'terrible'
+  ],
+  angry: [
+    'angry', 'mad', 'furious', 'annoyed', 'annoying', 'irritated', 'frustrated', 'frustrating', 'hate',
+    'hated', 'rage', 'pissed', 'outraged', 'unfair', 'stupid', 'ridiculous', 'fed', 'sick', 'resent',
+    'livid', 'infuriating', 'damn'
+  ],
+  calm: [
+    'calm', 'relaxed', 'relaxing', 'peaceful', 'serene', 'content', 'chill', 'rested', 'quiet', 'easy',
+    'comfortable', 'fine', 'okay', 'ok', 'steady', 'balanced', 'mellow', 'tranquil', 'soothing', 'safe'
+  ],
+  fear: [
+    'afraid', 'scared', 'fear', 'frightened', 'terrified', 'anxious', 'anxiety', 'nervous', 'worried',
+    'worry', 'worrying', 'panic', 'panicking', 'stressed', 'stress', 'dread', 'uneasy', 'overwhelmed',
+    'insecure', 'tense', 'threatened', 'horrified'
+  ],
+  surprise: [
+    'surprised', 'surprise', 'surprising', 'shocked', 'shocking', 'wow', 'whoa', 'unexpected', 'astonished',
+    'amazed', 'unbelievable', 'incredible', 'omg', 'suddenly'
+  ],
+  neutral: [
+    'meh', 'whatever', 'normal', 'usual', 'alright', 'so-so'
+  ]
+};
+
+// Emoticons and emoji, matched before the text is split into words
+const SYMBOLS: Record<string, string[]> = {
+  happy: [':)', ':-)', ':D', ':-D', '=)', '<3', '😀', '😃', '😄', '😁', '😊', '😂', '🥰', '😍', '🙂'],
+  sad: [':(', ':-(', ":'(", '😢', '😭', '😞', '😔', '☹️', '🙁'],
+  angry: ['>:(', '😠', '😡', '🤬'],
+  calm: ['😌', '🧘'],
+  fear: ['😨', '😰', '😱', '😟'],
+  surprise: [':O', ':o', ':-O', '😮', '😲', '🤯', '😯']
+};
+
+// Where the weight of a negated term goes ("not happy" reads as sad, "not angry" as calm)
+const NEGATED_EMOTION: Record<string, string> = {
+  happy: 'sad',
+  sad: 'neutral',
+  angry: 'calm',
+  calm: 'fear',
+  fear: 'calm',
+  surprise: 'neutral',
+  neutral: 'neutral'
+};
+
+// A negated term keeps this share of its weight, moved to the opposite emotion
+const NEGATED_WEIGHT = 0.5;
+
+// Contractions are matched with the apostrophe removed ("don't" as "dont")
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'nothing', 'nobody', 'hardly', 'barely', 'without', 'neither', 'nor', 'cannot',
+  'dont', 'doesnt', 'didnt', 'isnt', 'wasnt', 'arent', 'werent', 'cant', 'couldnt', 'wont', 'wouldnt',
+  'shouldnt', 'havent', 'hasnt', 'aint'
+]);
+
+// Negations reach this many words ahead ("not feeling very happy")
+const NEGATION_SCOPE = 3;
+
+const MODIFIERS: Record<string, number> = {
+  very: 1.5,
+  really: 1.5,
+  so: 1.5,
+  extremely: 2,
+  super: 1.5,
+  totally: 1.5,
+  incredibly: 2,
+  absolutely: 1.5,
+  too: 1.3,
+  slightly: 0.5,
+  somewhat: 0.6,
+  bit: 0.5,
+  kinda: 0.6,
+  little: 0.6
+};
+
+// Emotions strengthened by exclamation marks and shouted words
+const HIGH_AROUSAL = ['happy', 'angry', 'fear', 'surprise'];
+
+// Boost per exclamation mark, counted up to three
+const EXCLAMATION_BOOST = 0.2;
+
+// Weight of the neutral label before any cues are counted
+const NEUTRAL_PRIOR = 1;
+
+const LABELS = Object.keys(EMOTION_COORDINATES);
+
+const WORD_EMOTION: Record<string, string> = {};
+Object.entries(LEXICON).forEach(([emotion, words]) => {
+  words.forEach(word => {
+    WORD_EMOTION[word] = emotion;
+  });
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Look a word up in the lexicon, also trying it without a plural or -ly ending
+ */
+function lookupWord(word: string): string | null {
+  if (WORD_EMOTION[word]) return WORD_EMOTION[word];
+  for (const suffix of ['s', 'ly']) {
+    if (word.length > suffix.length + 2 && word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      if (WORD_EMOTION[stem]) return WORD_EMOTION[stem];
+    }
+  }
+  return null;
+}
+
+/**
+ * Estimate the emotion expressed in a piece of text
+ */
+export function analyzeTextEmotion(
+  text: string,
+  threshold: number = DEFAULT_CONFIDENCE_THRESHOLD
+): TextEmotion {
+  const scores: Record<string, number> = {};
+  LABELS.forEach(label => {
+    scores[label] = 0;
+  });
+  const cues: string[] = [];
+  let remaining = text;
+
+  // Emoticons first, longest first, so ">:(" is not also read as ":("
+  Object.entries(SYMBOLS)
+    .flatMap(([emotion, symbols]) => symbols.map(symbol => ({ emotion, symbol })))
+    .sort((a, b) => b.symbol.length - a.symbol.length)
+    .forEach(({ emotion, symbol }) => {
+      const pattern = new RegExp(escapeRegExp(symbol), 'g');
+      const count = (remaining.match(pattern) || []).length;
+      if (count > 0) {
+        scores[emotion] += count;
+        cues.push(symbol);
+        remaining = remaining.replace(pattern, ' ');
+      }
+    });
+
+  const words = remaining.match(/[A-Za-z][A-Za-z'’-]*/g) || [];
+  let negatedUntil = -1;
+  let modifier = 1;
+
+  words.forEach((original, i) => {
+    const word = original.toLowerCase().replace(/['’]/g, '');
+
+    if (NEGATIONS.has(word)) {
+      negatedUntil = i + NEGATION_SCOPE;
+      return;
+    }
+    if (MODIFIERS[word]) {
+      modifier *= MODIFIERS[word];
+      return;
+    }
+
+    const emotion = lookupWord(word);
+    if (!emotion) {
+      // Modifiers only apply to the word right after them
+      modifier = 1;
+      return;
+    }
+
+    // Shouted words ("SO ANGRY") count as intensified
+    const shouted = original.length >= 3 && original === original.toUpperCase() ? 1.5 : 1;
+    const weight = modifier * shouted;
+    modifier = 1;
+
+    if (i <= negatedUntil) {
+      scores[NEGATED_EMOTION[emotion]] += weight * NEGATED_WEIGHT;
+      cues.push(`not ${word}`);
+    } else {
+      scores[emotion] += weight;
+      cues.push(word);
+    }
+  });
+
+  const evidence = LABELS.reduce((sum, label) => sum + scores[label], 0);
+
+  const exclamations = Math.min(3, (text.match(/!/g) || []).length);
+  if (exclamations > 0 && evidence > 0) {
+    HIGH_AROUSAL.forEach(label => {
+      scores[label] *= 1 + EXCLAMATION_BOOST * exclamations;
+    });
+    cues.push('!'.repeat(exclamations));
+  }
+
+  scores.neutral += NEUTRAL_PRIOR;
+
+  return {
+    prediction: createPrediction(scores, LABELS, threshold),
+    evidence,
+    cues
+  };
+}
@@ -0,0 +1,306 @@
+/**
+ * Training Dataset Utility
+ *
+ * This module collects labeled feature epochs for training a personal
+ * emotion model. While a label is active (chosen by self-report or set by a
+ * prompted stimulus), every clean epoch coming out of the pipeline is stored
+ * with its raw features and the label. Each connection is a separate session
+ * so models can later be evaluated on sessions they were not trained on.
+ * Datasets are kept per montage in the browser's localStorage and can be
+ * exported and imported as JSON.
+ */
+
+import { getFeatureLayout } from './eegProcessor';
+import { Montage } from './montage';
+import { TrainingRow } from './emotionClassifier';
+import { MAX_CONTEXT_GAP_MS, MAX_SEQUENCE_LENGTH } from './classifierBackend';
+
+export type LabelSource = 'self-report' | 'stimulus';
+
+export interface LabeledEpoch {
+  // Timestamp of the epoch's last sample
+  timestamp: number;
+  label: string;
+  source: LabelSource;
+  sessionId: string;
+  // Raw features in featureLayout order
+  features: number[];
+}
+
+export interface DatasetSession {
+  id: string;
+  startedAt: number;
+}
+
+export interface TrainingDataset {
+  montageId: string;
+  montageName: string;
+  featureLayout: string[];
+  sessions: DatasetSession[];
+  epochs: LabeledEpoch[];
+}
+
+export interface StimulusStep {
+  label: string;
+  durationSeconds: number;
+  prompt: string;
+}
+
+// Guided emotion induction by recall and imagery, about five minutes in total
+export const STIMULUS_PROTOCOL: StimulusStep[] = [
+  { label: 'neutral', durationSeconds: 45, prompt: 'Look at a fixed point and slowly count your breaths.' },
+  { label: 'happy', durationSeconds: 45, prompt: 'Recall a moment when you felt truly happy. Relive it in as much detail as you can.' },
+  { label: 'calm', durationSeconds: 45, prompt: 'Imagine lying on a quiet beach. Breathe slowly and let your body relax.' },
+  { label: 'sad', durationSeconds: 45, prompt: 'Recall a loss or a disappointment that made you sad.' },
+  { label: 'angry', durationSeconds: 45, prompt: 'Recall a situation where you were treated unfairly and felt angry.' },
+  { label: 'fear', durationSeconds: 45, prompt: 'Imagine walking alone down a dark street and hearing footsteps behind you.' },
+  { label: 'surprise', durationSeconds: 45, prompt: 'Imagine opening a letter telling you that you have won a trip around the world.' }
+];
+
+const STORAGE_KEY = 'emotion-app.training-datasets';
+
+/**
+ * An empty dataset for the montage's feature layout
+ */
+export function createDataset(montage: Montage): TrainingDataset {
+  return {
+    montageId: montage.id,
+    montageName: montage.name,
+    featureLayout: getFeatureLayout(montage),
+    sessions: [],
+    epochs: []
+  };
+}
+
+/**
+ * Check that a dataset was collected with the same feature layout as the montage
+ */
+export function isDatasetCompatible(dataset: TrainingDataset, montage: Montage): boolean {
+  const layout = getFeatureLayout(montage);
+  return dataset.featureLayout.length === layout.length &&
+    dataset.featureLayout.every((key, index) => key === layout[index]);
+}
+
+/**
+ * Number of epochs per label
+ */
+export function countLabels(dataset: TrainingDataset): Record<string, number> {
+  const counts: Record<string, number> = {};
+  dataset.epochs.forEach(epoch => {
+    counts[epoch.label] = (counts[epoch.label] || 0) + 1;
+  });
+  return counts;
+}
+
+function epochFeatures(dataset: TrainingDataset, epoch: LabeledEpoch): Record<string, number> {
+  const features: Record<string, number> = {};
+  dataset.featureLayout.forEach((key, index) => {
+    features[key] = epoch.features[index];
+  });
+  return features;
+}
+
+/**
+ * Turn labeled epochs back into feature records for training. For
+ * sequential backends each record can carry up to contextLength epochs
+ * recorded just before it in the same session; a longer gap (the label was
+ * switched off, or artifacts were rejected for a while) ends the context.
+ */
+export function datasetToRows(
+  dataset: TrainingDataset,
+  epochs: LabeledEpoch[] = dataset.epochs,
+  contextLength: number = 0
+): TrainingRow[] {
+  const positions = new Map(dataset.epochs.map((epoch, index) => [epoch, index]));
+
+  return epochs.map(epoch => {
+    const context: Record<string, number>[] = [];
+    let position = positions.get(epoch) ?? -1;
+    let next = epoch;
+
+    while (position > 0 && context.length < Math.min(contextLength, MAX_SEQUENCE_LENGTH - 1)) {
+      const previous = dataset.epochs[position - 1];
+      if (previous.sessionId !== epoch.sessionId || next.timestamp - previous.timestamp > MAX_CONTEXT_GAP_MS) break;
+      context.unshift(epochFeatures(dataset, previous));
+      next = previous;
+      position--;
+    }
+
+    return { features: epochFeatures(dataset, epoch), label: epoch.label, context };
+  });
+}
+
+/**
+ * Parse and validate an exported dataset.
+ * Throws with a descriptive message if the file is malformed.
+ */
+export function parseDataset(text: string): TrainingDataset {
+  let dataset: any;
+
+  try {
+    dataset = JSON.parse(text);
+  } catch (error) {
+    throw new Error('Dataset file is not valid JSON');
+  }
+
+  if (
+    !dataset ||
+    typeof dataset.montageId !== 'string' ||
+    !Array.isArray(dataset.featureLayout) ||
+    !Array.isArray(dataset.sessions) ||
+    !Array.isArray(dataset.epochs)
+  ) {
+    throw new Error('Not a training dataset file');
+  }
+
+  const size = dataset.featureLayout.length;
+  const valid = dataset.epochs.every((epoch: any) =>
+    typeof epoch.label === 'string' &&
+    typeof epoch.sessionId === 'string' &&
+    Array.isArray(epoch.features) &&
+    epoch.features.length === size
+  );
+  if (!valid) {
+    throw new Error('Dataset epochs do not match its feature layout');
+  }
+
+  return dataset as TrainingDataset;
+}
+
+/**
+ * Load the stored dataset for a montage, or an empty one
+ */
+export function loadTrainingDataset(montage: Montage): TrainingDataset {
+  if (typeof window === 'undefined') return createDataset(montage);
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const datasets: TrainingDataset[] = stored ? JSON.parse(stored) : [];
+    const dataset = datasets.find(d => d.montageId === montage.id);
+    return dataset && isDatasetCompatible(dataset, montage) ? dataset : createDataset(montage);
+  } catch (error) {
+    console.error('Error loading training datasets:', error);
+    return createDataset(montage);
+  }
+}
+
+/**
+ * Store a dataset, replacing the dataset stored for the same montage
+ */
+export function saveTrainingDataset(dataset: TrainingDataset): void {
+  let datasets: TrainingDataset[] = [];
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    datasets = stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error loading training datasets:', error);
+  }
+
+  datasets = [...datasets.filter(d => d.montageId !== dataset.montageId), dataset];
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(datasets));
+}
+
+export type CollectorListener = (collector: DatasetCollector) => void;
+
+/**
+ * Labels incoming clean epochs while a label is active and keeps the
+ * montage's dataset up to date in storage
+ */
+export class DatasetCollector {
+  private montage: Montage | null = null;
+  private dataset: TrainingDataset | null = null;
+  private sessionId: string | null = null;
+  private label: { label: string; source: LabelSource } | null = null;
+  // The first epoch after a label starts still covers signal from before it
+  private skipNext = false;
+  private listeners: CollectorListener[] = [];
+
+  get activeLabel(): string | null {
+    return this.label ? this.label.label : null;
+  }
+
+  get activeSource(): LabelSource | null {
+    return this.label ? this.label.source : null;
+  }
+
+  get current(): TrainingDataset | null {
+    return this.dataset;
+  }
+
+  /**
+   * Subscribe to label and dataset changes; returns an unsubscribe function
+   */
+  onChange(listener: CollectorListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Start a new collection session for the montage (called when a source connects)
+   */
+  startSession(montage: Montage): void {
+    this.montage = montage;
+    this.dataset = loadTrainingDataset(montage);
+    this.sessionId = null;
+    this.label = null;
+    this.notify();
+  }
+
+  /**
+   * Start labeling incoming epochs, or stop with null
+   */
+  setLabel(label: string | null, source: LabelSource = 'self-report'): void {
+    this.label = label ? { label, source } : null;
+    this.skipNext = !!label;
+    this.notify();
+  }
+
+  /**
+   * Add a clean epoch's raw features under the active label, if any
+   */
+  addEpoch(timestamp: number, features: Record<string, number>): void {
+    if (!this.label || !this.dataset) return;
+
+    if (this.skipNext) {
+      this.skipNext = false;
+      return;
+    }
+
+    if (!this.sessionId) {
+      this.sessionId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      this.dataset.sessions.push({ id: this.sessionId, startedAt: Date.now() });
+    }
+
+    this.dataset.epochs.push({
+      timestamp,
+      label: this.label.label,
+      source: this.label.source,
+      sessionId: this.sessionId,
+      features: this.dataset.featureLayout.map(key => features[key] ?? 0)
+    });
+
+    saveTrainingDataset(this.dataset);
+    this.notify();
+  }
+
+  /**
+   * Replace the montage's dataset, e.g. after an import or to start over
+   */
+  replaceDataset(dataset: TrainingDataset): void {
+    if (!this.montage || !isDatasetCompatible(dataset, this.montage)) {
+      throw new Error('The dataset was collected with a different feature layout');
+    }
+
+    this.dataset = { ...dataset, montageId: this.montage.id, montageName: this.montage.name };
+    this.sessionId = null;
+    saveTrainingDataset(this.dataset);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this));
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Unicorn Format Utility
+ *
+ * This module parses the two output formats of the g.tec Unicorn Suite: the
+ * UDP network stream and the CSV files written by the Unicorn Recorder. Both
+ * carry 17 values per scan: 8 EEG channels (µV), accelerometer X/Y/Z (g),
+ * gyroscope X/Y/Z (°/s), battery level (%), a sample counter and a validation
+ * indicator. Scans are mapped onto EegChannelData (UNICORN_MONTAGE order) with
+ * the remaining columns kept as auxiliary channels, and gaps in the counter
+ * are reported as dropped samples.
+ */
+
+import { EegChannelData } from './eegProcessor';
+import { UNICORN_MONTAGE } from './montage';
+
+// Values per scan in both the UDP and CSV layouts
+export const UNICORN_SCAN_LENGTH = 17;
+
+// Bytes per scan in the binary UDP layout (little-endian float32 values)
+export const UNICORN_SCAN_BYTES = UNICORN_SCAN_LENGTH * 4;
+
+// Column names used by the Unicorn Recorder, in scan order
+export const UNICORN_COLUMNS = [
+  'EEG 1', 'EEG 2', 'EEG 3', 'EEG 4', 'EEG 5', 'EEG 6', 'EEG 7', 'EEG 8',
+  'Accelerometer X', 'Accelerometer Y', 'Accelerometer Z',
+  'Gyroscope X', 'Gyroscope Y', 'Gyroscope Z',
+  'Battery Level', 'Counter', 'Validation Indicator'
+];
+
+export interface UnicornAuxiliaryChannels {
+  // g
+  accelerometer: [number, number, number];
+  // degrees per second
+  gyroscope: [number, number, number];
+  // percent
+  battery: number;
+  counter: number;
+  // 1 when the scan is valid
+  validationIndicator: number;
+}
+
+// An EEG sample with the Unicorn's auxiliary channels attached
+export interface UnicornSample extends EegChannelData {
+  auxiliary: UnicornAuxiliaryChannels;
+}
+
+export interface CounterGap {
+  // Counter of the last sample before the gap
+  afterCounter: number;
+  missing: number;
+}
+
+export interface UnicornParseResult {
+  samples: UnicornSample[];
+  droppedSamples: number;
+  gaps: CounterGap[];
+}
+
+export type UnicornUdpEncoding = 'binary' | 'ascii' | 'auto';
+
+/**
+ * Build a sample from one 17-value scan. Timestamps are derived from the
+ * counter, so they stay evenly spaced even when datagrams arrive in bursts.
+ */
+function scanToSample(scan: ArrayLike<number>, startTime: number, firstCounter: number): UnicornSample {
+  const counter = scan[15];
+
+  return {
+    channels: Array.from({ length: 8 }, (_, i) => scan[i]),
+    timestamp: startTime + ((counter - firstCounter) * 1000) / UNICORN_MONTAGE.sampleRate,
+    auxiliary: {
+      accelerometer: [scan[8], scan[9], scan[10]],
+      gyroscope: [scan[11], scan[12], scan[13]],
+      battery: scan[14],
+      counter,
+      validationIndicator: scan[16]
+    }
+  };
+}
+
+/**
+ * Tracks the Unicorn sample counter across frames and reports dropped samples
+ */
+export class CounterTracker {
+  private lastCounter: number | null = null;
+  private firstCounter: number | null = null;
+  private droppedTotal = 0;
+
+  get dropped(): number {
+    return this.droppedTotal;
+  }
+
+  get first(): number | null {
+    return this.firstCounter;
+  }
+
+  /**
+   * Record a counter value; returns the gap before it, if any
+   */
+  track(counter: number): CounterGap | null {
+    if (this.firstCounter === null) this.firstCounter = counter;
+
+    let gap: CounterGap | null = null;
+    if (this.lastCounter !== null && counter > this.lastCounter + 1) {
+      gap = { afterCounter: this.lastCounter, missing: counter - this.lastCounter - 1 };
+      this.droppedTotal += gap.missing;
+    }
+
+    // A counter that goes backwards means the device restarted the stream
+    if (this.lastCounter === null || counter > this.lastCounter || counter < this.lastCounter - 1) {
+      this.lastCounter = counter;
+    }
+
+    return gap;
+  }
+
+  reset(): void {
+    this.lastCounter = null;
+    this.firstCounter = null;
+    this.droppedTotal = 0;
+  }
+}
+
+/**
+ * Convert scans to samples, tracking counter gaps
+ */
+function scansToResult(scans: ArrayLike<number>[], tracker: CounterTracker, startTime: number): UnicornParseResult {
+  const samples: UnicornSample[] = [];
+  const gaps: CounterGap[] = [];
+  const droppedBefore = tracker.dropped;
+
+  scans.forEach(scan => {
+    if (scan.length < UNICORN_SCAN_LENGTH) return;
+
+    const gap = tracker.track(scan[15]);
+    if (gap) gaps.push(gap);
+
+    samples.push(scanToSample(scan, startTime, tracker.first ?? scan[15]));
+  });
+
+  return { samples, droppedSamples: tracker.dropped - droppedBefore, gaps };
+}
+
+/**
+ * Work out whether a datagram holds float32 scans or comma-separated text
+ */
+function detectEncoding(bytes: Uint8Array): 'binary' | 'ascii' {
+  const text = /^[\s\d.,;eE+-]+$/;
+  const sample = new TextDecoder().decode(bytes.subarray(0, Math.min(bytes.length, 64)));
+  return text.test(sample) ? 'ascii' : 'binary';
+}
+
+/**
+ * Parse one Unicorn Suite UDP datagram. A datagram holds one or more scans,
+ * either as little-endian float32 values or as comma-separated text lines.
+ *
+ * Pass the same CounterTracker for every datagram of a stream so drops
+ * between datagrams are detected, and the stream's start time so timestamps
+ * line up across datagrams.
+ */
+export function parseUnicornUdpFrame(
+  data: ArrayBuffer | Uint8Array,
+  tracker: CounterTracker,
+  startTime: number,
+  encoding: UnicornUdpEncoding = 'auto'
+): UnicornParseResult {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const resolved = encoding === 'auto' ? detectEncoding(bytes) : encoding;
+  const scans: number[][] = [];
+
+  if (resolved === 'binary') {
+    if (bytes.byteLength % UNICORN_SCAN_BYTES !== 0) {
+      throw new Error(`UDP frame of ${bytes.byteLength} bytes is not a whole number of ${UNICORN_SCAN_BYTES}-byte scans`);
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (let offset = 0; offset < bytes.byteLength; offset += UNICORN_SCAN_BYTES) {
+      const scan: number[] = [];
+      for (let i = 0; i < UNICORN_SCAN_LENGTH; i++) {
+        scan.push(view.getFloat32(offset + i * 4, true));
+      }
+      scans.push(scan);
+    }
+  } else {
+    const text = new TextDecoder().decode(bytes);
+    text.split(/\r?\n/).forEach(line => {
+      const values = line.split(/[,;]/).map(value => parseFloat(value));
+      if (values.length >= UNICORN_SCAN_LENGTH && values.every(value => !isNaN(value))) {
+        scans.push(values);
+      }
+    });
+  }
+
+  return scansToResult(scans, tracker, startTime);
+}
+
+/**
+ * Parse a Unicorn Recorder CSV file.
+ *
+ * Columns are matched by their header names when a header row is present,
+ * otherwise the standard 17-column order is assumed. Timestamps start at
+ * startTime and advance with the sample counter.
+ */
+export function parseUnicornCsv(text: string, startTime: number = 0): UnicornParseResult {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+
+  if (!lines.length) {
+    throw new Error('CSV file is empty');
+  }
+
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',';
+  const firstCells = lines[0].split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+  const hasHeader = firstCells.some(cell => cell !== '' && isNaN(Number(cell)));
+
+  // Map scan positions to CSV columns
+  let columnIndex = UNICORN_COLUMNS.map((_, i) => i);
+  if (hasHeader) {
+    const normalized = firstCells.map(cell => cell.toLowerCase());
+    columnIndex = UNICORN_COLUMNS.map(name => normalized.indexOf(name.toLowerCase()));
+
+    const missing = UNICORN_COLUMNS.filter((_, i) => columnIndex[i] < 0);
+    if (missing.length) {
+      throw new Error(`CSV is missing Unicorn columns: ${missing.join(', ')}`);
+    }
+  }
+
+  const scans: number[][] = [];
+  lines.slice(hasHeader ? 1 : 0).forEach((line, index) => {
+    const cells = line.split(delimiter);
+    const scan = columnIndex.map(column => parseFloat(cells[column]));
+
+    if (scan.some(value => isNaN(value))) {
+      throw new Error(`Invalid value on CSV data row ${index + 1}`);
+    }
+    scans.push(scan);
+  });
+
+  return scansToResult(scans, new CounterTracker(), startTime);
+}
@@ -0,0 +1,126 @@
+/**
+ * WebSocket EEG Source
+ *
+ * This module receives EEG sample batches relayed by the /api/eeg-stream hub
+ * from an external acquisition process (the Unicorn bridge or the stand-in
+ * publisher in scripts/) and exposes them as an EegSource.
+ */
+
+import axios from 'axios';
+import { BaseEegSource } from './eegSource';
+import { Montage } from './montage';
+import {
+  EEG_STREAM_PATH,
+  SamplesMessage,
+  parseStreamMessage,
+  samplesMessageToEegData
+} from './eegStreamProtocol';
+
+export class WebSocketEegSource extends BaseEegSource {
+  readonly name = 'External stream';
+  private socket: WebSocket | null = null;
+  private lastSeq: number | null = null;
+  private droppedBatches = 0;
+
+  /**
+   * Batches the publisher sent that never arrived here
+   */
+  get dropped(): number {
+    return this.droppedBatches;
+  }
+
+  async connect(): Promise<void> {
+    if (this.socket) return;
+
+    this.setStatus('connecting');
+
+    // Make sure the hub is running on the server before upgrading
+    await axios.get(EEG_STREAM_PATH);
+
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const socket = new WebSocket(`${protocol}//${window.location.host}${EEG_STREAM_PATH}`);
+    this.socket = socket;
+    this.lastSeq = null;
+    this.droppedBatches = 0;
+
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: 'hello', role: 'subscriber' }));
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      try {
+        const message = parseStreamMessage(String(event.data));
+
+        switch (message.type) {
+          case 'montage':
+            if (message.montage) this.checkMontage(message.montage);
+            break;
+          case 'status':
+            if (!message.publisherConnected) {
+              this.setStatus('connecting', message.message || 'Waiting for a publisher');
+            } else if (this.status !== 'error') {
+              this.setStatus('connected', this.droppedMessage());
+            }
+            break;
+          case 'samples':
+            this.handleSamples(message);
+            break;
+        }
+      } catch (error: any) {
+        console.error('Invalid EEG stream frame:', error);
+      }
+    };
+
+    socket.onerror = () => {
+      this.setStatus('error', 'WebSocket connection failed');
+    };
+
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.socket = null;
+        if (this.status !== 'error') this.setStatus('disconnected');
+      }
+    };
+  }
+
+  disconnect(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.setStatus('disconnected');
+  }
+
+  /**
+   * The stream must carry the channels this session was set up for
+   */
+  private checkMontage(montage: Montage): void {
+    const sameChannels = montage.channels.length === this.montage.channels.length &&
+      montage.channels.every((label, index) => label === this.montage.channels[index]);
+
+    if (!sameChannels || montage.sampleRate !== this.montage.sampleRate) {
+      this.setStatus(
+        'error',
+        `Publisher streams ${montage.channels.join(', ')} at ${montage.sampleRate} Hz, ` +
+        `but ${this.montage.name} at ${this.montage.sampleRate} Hz was selected`
+      );
+    }
+  }
+
+  private droppedMessage(): string | undefined {
+    if (this.droppedBatches === 0) return undefined;
+    return `${this.droppedBatches} sample ${this.droppedBatches === 1 ? 'batch' : 'batches'} lost in the stream`;
+  }
+
+  private handleSamples(message: SamplesMessage): void {
+    if (this.status === 'error') return;
+
+    if (this.lastSeq !== null && message.seq > this.lastSeq + 1) {
+      this.droppedBatches += message.seq - this.lastSeq - 1;
+      // Report the loss alongside the connected status so it is visible in the monitor
+      this.setStatus('connected', this.droppedMessage());
+    }
+    this.lastSeq = message.seq;
+
+    this.emitSamples(samplesMessageToEegData(message));
+  }
+}
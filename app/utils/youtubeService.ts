@@ -6,6 +6,7 @@
  */
 
 import axios from 'axios';
+import { AffectCoordinates } from './circumplex';
 
 export interface YouTubeTrack {
   id: string;
@@ -99,6 +100,17 @@ export function getRecommendedGenre(emotion: string | null): string {
   return emotionToGenre[emotion] || 'lofi study beats';
 }
 
+/**
+ * Get a search query from a continuous valence/arousal estimate: arousal
+ * sets the energy of the music and valence its mood
+ */
+export function getAffectMusicQuery(affect: AffectCoordinates): string {
+  const energy = affect.arousal < -0.3 ? 'slow relaxing' : affect.arousal > 0.3 ? 'energetic' : 'mid-tempo';
+  const mood = affect.valence < -0.3 ? 'melancholic' : affect.valence > 0.3 ? 'uplifting' : 'mellow';
+  
+  return `${energy} ${mood} music`;
+}
+
 /**
  * Load a YouTube player (wrapper for the YouTube iframe API)
  * 
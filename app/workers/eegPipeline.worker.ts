@@ -0,0 +1,267 @@
+/**
+ * EEG Pipeline Worker
+ *
+ * Runs the filter -> artifact screening -> features -> classifier -> smoothing
+ * pipeline off the main thread. Epochs are cut every CLASSIFY_INTERVAL_SECONDS of signal,
+ * counted in samples rather than wall-clock time, so replaying a recording
+ * always yields the same timeline regardless of how batches arrive.
+ */
+
+import { extractFeatures } from '../utils/eegProcessor';
+import { Montage, DEFAULT_MONTAGE } from '../utils/montage';
+import { EegFilterChain, FilterSettings, DEFAULT_FILTER_SETTINGS, createFilterChain } from '../utils/eegFilters';
+import { DEFAULT_ARTIFACT_THRESHOLDS, detectArtifacts } from '../utils/artifactDetector';
+import { EmotionClassifier } from '../utils/emotionClassifier';
+import { DEFAULT_CONFIDENCE_THRESHOLD } from '../utils/emotionPrediction';
+import { EmotionSmoother } from '../utils/emotionSmoothing';
+import { EpochCutter, SampleRingBuffer, SampleWindow, epochEndTime, epochSize } from '../utils/ringBuffer';
+import {
+  BUFFER_SECONDS,
+  CLASSIFY_INTERVAL_SECONDS,
+  EPOCH_SECONDS,
+  PLOT_POINTS,
+  PLOT_SECONDS,
+  ClassifierSource,
+  ConfigureMessage,
+  PipelineEvent,
+  PipelineRequest,
+  SamplesMessage
+} from './eegPipelineProtocol';
+
+// Minimum spacing between plot updates, in ms
+const PLOT_INTERVAL_MS = 50;
+
+const ctx = self as unknown as {
+  postMessage(message: PipelineEvent, transfer?: Transferable[]): void;
+  onmessage: ((event: MessageEvent<PipelineRequest>) => void) | null;
+};
+
+let montage: Montage = DEFAULT_MONTAGE;
+let classifierSource: ClassifierSource = { kind: 'prototype', profile: null };
+let filterSettings: FilterSettings = DEFAULT_FILTER_SETTINGS;
+let filterChain: EegFilterChain = createFilterChain(montage, filterSettings);
+let confidenceThreshold = DEFAULT_CONFIDENCE_THRESHOLD;
+const smoother = new EmotionSmoother();
+
+let classifier: EmotionClassifier | null = null;
+// Incremented for every load or training run so stale runs are ignored
+let loadRun = 0;
+
+// Filtered history for classification and calibration; raw history, kept in
+// step with it, for the plot and the artifact checks that need unfiltered signal
+let filtered: SampleRingBuffer;
+let raw: SampleRingBuffer;
+let epochs: EpochCutter;
+let lastPlotTime = 0;
+
+function createBuffers() {
+  const { sampleRate, channels } = montage;
+  filtered = new SampleRingBuffer(channels.length, sampleRate * BUFFER_SECONDS);
+  raw = new SampleRingBuffer(channels.length, Math.max(plotLength(), sampleRate * BUFFER_SECONDS));
+  epochs = new EpochCutter(filtered, sampleRate * EPOCH_SECONDS, sampleRate * CLASSIFY_INTERVAL_SECONDS);
+}
+
+function plotLength() {
+  return Math.max(10, montage.sampleRate * PLOT_SECONDS);
+}
+
+createBuffers();
+
+const post = (message: PipelineEvent, transfer: Transferable[] = []) => ctx.postMessage(message, transfer);
+
+/**
+ * Load the configured model, or train the built-in prototype, for the current montage
+ */
+async function loadClassifier() {
+  const run = ++loadRun;
+  const source = classifierSource;
+  classifier = null;
+  smoother.reset();
+
+  try {
+    let loaded: EmotionClassifier;
+
+    if (source.kind === 'model') {
+      loaded = EmotionClassifier.fromModel(source.model, montage);
+    } else {
+      post({ type: 'classifier', status: 'training' });
+      loaded = await EmotionClassifier.trainPrototype(montage, source.profile);
+      if (run !== loadRun) return;
+      post({ type: 'model', model: loaded.toModel() });
+    }
+
+    classifier = loaded;
+    post({ type: 'classifier', status: 'ready', model: loaded.metadata });
+  } catch (error: any) {
+    if (run !== loadRun) return;
+    post({ type: 'classifier', status: 'error', error: error.message || 'Unknown error loading the classifier' });
+  }
+}
+
+function reset() {
+  filtered.clear();
+  raw.clear();
+  epochs.reset();
+  filterChain.reset();
+  smoother.reset();
+  classifier?.resetStream();
+  post({ type: 'plot', raw: [], filtered: [], latest: [] });
+}
+
+function configure(message: ConfigureMessage) {
+  const montageChanged = !!message.montage && message.montage !== montage;
+  // The freshly trained prototype comes back as a stored model; no need to reload it
+  const classifierChanged = !!message.classifier && !(
+    message.classifier.kind === 'model' &&
+    classifier &&
+    message.classifier.model.metadata.id === classifier.metadata.id
+  );
+
+  if (message.montage) montage = message.montage;
+  if (message.classifier) classifierSource = message.classifier;
+  if (message.filterSettings) filterSettings = message.filterSettings;
+  if (message.confidenceThreshold !== undefined) confidenceThreshold = message.confidenceThreshold;
+  if (message.smoothing) smoother.setSettings(message.smoothing);
+
+  // Filter state cannot carry over between layouts or settings
+  if (montageChanged || message.filterSettings) {
+    filterChain = createFilterChain(montage, filterSettings);
+  }
+
+  if (montageChanged) {
+    createBuffers();
+    reset();
+  }
+  if (montageChanged || classifierChanged || (!classifier && loadRun === 0)) {
+    loadClassifier();
+  }
+}
+
+/**
+ * Keep every stride-th point so a trace has at most PLOT_POINTS points
+ */
+function decimate(values: Float32Array): number[] {
+  const stride = Math.max(1, Math.ceil(values.length / PLOT_POINTS));
+  const points: number[] = [];
+  for (let i = 0; i < values.length; i += stride) {
+    points.push(values[i]);
+  }
+  return points;
+}
+
+function postPlot() {
+  const now = Date.now();
+  if (now - lastPlotTime < PLOT_INTERVAL_MS || filtered.length === 0) return;
+  lastPlotTime = now;
+
+  const latest = filtered.latest(1);
+  post({
+    type: 'plot',
+    raw: decimate(raw.latest(plotLength()).channels[0]),
+    filtered: decimate(filtered.latest(plotLength()).channels[0]),
+    latest: latest.channels.map(channel => channel[0])
+  });
+}
+
+/**
+ * Screen an epoch for artifacts and classify it if it is clean
+ */
+function processEpoch(epoch: SampleWindow, manual: boolean) {
+  if (!classifier || epochSize(epoch) === 0) {
+    if (manual) post({ type: 'error', message: 'Not enough signal to classify yet' });
+    return;
+  }
+
+  const report = detectArtifacts(epoch, montage, DEFAULT_ARTIFACT_THRESHOLDS, rawWindow(epoch));
+  const features = report.rejected ? null : extractFeatures(epoch, montage);
+  const timestamp = epochEndTime(epoch);
+  const rawPrediction = features ? classifier.predictNext(features, confidenceThreshold, timestamp) : null;
+
+  post({
+    type: 'epoch',
+    timestamp,
+    report,
+    // Rejected epochs leave the smoothed state as it was
+    prediction: rawPrediction ? smoother.update(rawPrediction, confidenceThreshold) : null,
+    rawPrediction,
+    features,
+    manual
+  });
+}
+
+function handleSamples(message: SamplesMessage) {
+  if (message.timestamps.length === 0) return;
+
+  // Filter as samples arrive; the chain keeps its state between calls
+  const filteredBatch = {
+    timestamps: message.timestamps,
+    values: filterChain.processInterleaved(message.values)
+  };
+
+  raw.pushPacked(message);
+  filtered.pushPacked(filteredBatch);
+
+  // Classify every CLASSIFY_INTERVAL_SECONDS of signal, each epoch ending at
+  // the exact sample that completed the interval
+  epochs.take().forEach(epoch => processEpoch(epoch, false));
+  postPlot();
+
+  // Sent last: transferring the batch detaches its buffers
+  if (message.returnFiltered) {
+    post(
+      { type: 'filtered', seq: message.seq, ...filteredBatch },
+      [filteredBatch.timestamps.buffer, filteredBatch.values.buffer]
+    );
+  }
+}
+
+/**
+ * Unfiltered samples covering the same span as a filtered epoch (both
+ * buffers receive every batch, so their sample indices line up)
+ */
+function rawWindow(epoch: SampleWindow): SampleWindow {
+  return raw.window(epoch.start, epochSize(epoch));
+}
+
+function latestEpoch() {
+  return filtered.latest(montage.sampleRate * EPOCH_SECONDS);
+}
+
+ctx.onmessage = (event) => {
+  const message = event.data;
+
+  try {
+    switch (message.type) {
+      case 'configure':
+        configure(message);
+        break;
+      case 'samples':
+        handleSamples(message);
+        break;
+      case 'reset':
+        reset();
+        break;
+      case 'classify':
+        processEpoch(latestEpoch(), true);
+        break;
+      case 'analyzeEpoch': {
+        const epoch = latestEpoch();
+        if (epochSize(epoch) < 2) {
+          post({ type: 'epochAnalysis', requestId: message.requestId, report: null, features: null });
+          break;
+        }
+
+        const report = detectArtifacts(epoch, montage, DEFAULT_ARTIFACT_THRESHOLDS, rawWindow(epoch));
+        post({
+          type: 'epochAnalysis',
+          requestId: message.requestId,
+          report,
+          features: report.rejected ? null : extractFeatures(epoch, montage)
+        });
+        break;
+      }
+    }
+  } catch (error: any) {
+    post({ type: 'error', message: error.message || String(error) });
+  }
+};
@@ -0,0 +1,168 @@
+/**
+ * EEG Pipeline Protocol
+ *
+ * This module defines the messages exchanged with the EEG pipeline worker.
+ * The main thread forwards sample batches from the active source; the worker
+ * filters them, screens epochs for artifacts, extracts features and runs the
+ * classifier, and only sends back results and decimated plot traces.
+ *
+ * Main -> worker: configure, samples, reset, classify, analyzeEpoch
+ * Worker -> main: classifier, model, plot, epoch, filtered, epochAnalysis, error
+ *
+ * Sample batches travel as flat typed arrays so their buffers can be
+ * transferred instead of copied.
+ */
+
+import { EegChannelData } from '../utils/eegProcessor';
+import { Montage } from '../utils/montage';
+import { FilterSettings } from '../utils/eegFilters';
+import { ArtifactReport } from '../utils/artifactDetector';
+import { CalibrationProfile } from '../utils/calibration';
+import { PackedSamples } from '../utils/ringBuffer';
+import { EmotionModelFile, EmotionModelMetadata } from '../utils/emotionModel';
+import { EmotionPrediction } from '../utils/emotionPrediction';
+import { SmoothingSettings } from '../utils/emotionSmoothing';
+
+// Seconds of filtered signal kept for classification and calibration
+export const BUFFER_SECONDS = 10;
+
+// Seconds of signal shown in the raw/filtered plots
+export const PLOT_SECONDS = 1;
+
+// Plot traces are decimated to at most this many points
+export const PLOT_POINTS = 200;
+
+// Each classification looks at the most recent epoch of this length
+export const EPOCH_SECONDS = 2;
+
+// Seconds of signal between automatic classifications
+export const CLASSIFY_INTERVAL_SECONDS = 2;
+
+// Either a stored model or the built-in prototype, trained against an optional baseline
+export type ClassifierSource =
+  | { kind: 'model'; model: EmotionModelFile }
+  | { kind: 'prototype'; profile: CalibrationProfile | null };
+
+export interface ConfigureMessage {
+  type: 'configure';
+  // Omitted fields keep their current value
+  montage?: Montage;
+  classifier?: ClassifierSource;
+  filterSettings?: FilterSettings;
+  // Predictions less confident than this are reported as uncertain
+  confidenceThreshold?: number;
+  smoothing?: SmoothingSettings;
+}
+
+export interface SamplesMessage extends PackedSamples {
+  type: 'samples';
+  // Batch counter, echoed back with the filtered batch
+  seq: number;
+  // Send the filtered batch back, e.g. while a session is being recorded
+  returnFiltered: boolean;
+}
+
+export interface ResetMessage {
+  type: 'reset';
+}
+
+export interface ClassifyMessage {
+  type: 'classify';
+}
+
+export interface AnalyzeEpochMessage {
+  type: 'analyzeEpoch';
+  requestId: number;
+}
+
+export type PipelineRequest =
+  | ConfigureMessage
+  | SamplesMessage
+  | ResetMessage
+  | ClassifyMessage
+  | AnalyzeEpochMessage;
+
+export type ClassifierStatus = 'idle' | 'training' | 'ready' | 'error';
+
+export interface ClassifierStatusMessage {
+  type: 'classifier';
+  status: ClassifierStatus;
+  // The loaded model, once ready
+  model?: EmotionModelMetadata;
+  error?: string;
+}
+
+// A freshly trained prototype, so the main thread can store it
+export interface ModelMessage {
+  type: 'model';
+  model: EmotionModelFile;
+}
+
+export interface PlotMessage {
+  type: 'plot';
+  // Decimated first-channel traces covering the last PLOT_SECONDS
+  raw: number[];
+  filtered: number[];
+  // Most recent filtered value of every channel
+  latest: number[];
+}
+
+export interface EpochResultMessage {
+  type: 'epoch';
+  // Timestamp of the epoch's last sample
+  timestamp: number;
+  report: ArtifactReport;
+  // Smoothed over recent epochs, changing emotion only once stable; null when the epoch was rejected
+  prediction: EmotionPrediction | null;
+  // This epoch's own classifier output
+  rawPrediction: EmotionPrediction | null;
+  // Raw (unnormalized) features of a clean epoch, e.g. for labeled datasets
+  features: Record<string, number> | null;
+  // Requested with a classify message rather than on the sample count
+  manual: boolean;
+}
+
+export interface FilteredMessage extends PackedSamples {
+  type: 'filtered';
+  seq: number;
+}
+
+export interface EpochAnalysisMessage {
+  type: 'epochAnalysis';
+  requestId: number;
+  // Null when there is not enough signal yet
+  report: ArtifactReport | null;
+  // Raw (unnormalized) features of a clean epoch
+  features: Record<string, number> | null;
+}
+
+export interface PipelineErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type PipelineEvent =
+  | ClassifierStatusMessage
+  | ModelMessage
+  | PlotMessage
+  | EpochResultMessage
+  | FilteredMessage
+  | EpochAnalysisMessage
+  | PipelineErrorMessage;
+
+/**
+ * Flatten samples into transferable typed arrays
+ */
+export function packSamples(samples: EegChannelData[], channelCount: number): PackedSamples {
+  const timestamps = new Float64Array(samples.length);
+  const values = new Float32Array(samples.length * channelCount);
+
+  samples.forEach((sample, i) => {
+    timestamps[i] = sample.timestamp;
+    for (let ch = 0; ch < channelCount; ch++) {
+      values[i * channelCount + ch] = sample.channels[ch];
+    }
+  });
+
+  return { timestamps, values };
+}
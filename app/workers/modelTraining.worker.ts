@@ -0,0 +1,57 @@
+/**
+ * Model Training Worker
+ *
+ * Trains a personal emotion model on labeled feature records, or
+ * cross-validates training settings on a dataset, without blocking the UI.
+ * Cancelling a run terminates the worker.
+ */
+
+import { EmotionClassifier } from '../utils/emotionClassifier';
+import { evaluateClassifier } from '../utils/classifierEvaluation';
+import { EvaluateMessage, TrainMessage, TrainingEvent, TrainingRequest } from './modelTrainingProtocol';
+
+const ctx = self as unknown as {
+  postMessage(message: TrainingEvent): void;
+  onmessage: ((event: MessageEvent<TrainingRequest>) => void) | null;
+};
+
+async function train(message: TrainMessage): Promise<void> {
+  const classifier = await EmotionClassifier.train(
+    message.rows,
+    message.montage,
+    message.normalization,
+    { name: message.name, origin: 'personal' },
+    message.options,
+    ({ iterations, error }) => ctx.postMessage({ type: 'progress', iterations, error })
+  );
+
+  ctx.postMessage({ type: 'done', model: classifier.toModel() });
+}
+
+async function evaluate(message: EvaluateMessage): Promise<void> {
+  const report = await evaluateClassifier(
+    message.dataset,
+    message.montage,
+    message.options,
+    (completed, total) => ctx.postMessage({ type: 'fold', completed, total })
+  );
+
+  ctx.postMessage({ type: 'evaluation', report });
+}
+
+ctx.onmessage = async (event) => {
+  const message = event.data;
+
+  try {
+    switch (message.type) {
+      case 'train':
+        await train(message);
+        break;
+      case 'evaluate':
+        await evaluate(message);
+        break;
+    }
+  } catch (error: any) {
+    ctx.postMessage({ type: 'error', message: error.message || String(error) });
+  }
+};
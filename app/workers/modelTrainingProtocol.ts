@@ -0,0 +1,70 @@
+/**
+ * Model Training Protocol
+ *
+ * This module defines the messages exchanged with the model training worker,
+ * which trains a personal emotion model off the main thread and reports
+ * the training error as it goes. The same worker cross-validates
+ * training settings on a labeled dataset for the evaluation page.
+ *
+ * Main -> worker: train, evaluate
+ * Worker -> main: progress, done, fold, evaluation, error
+ */
+
+import { Montage } from '../utils/montage';
+import { ClassifierTrainingOptions } from '../utils/classifierBackend';
+import { TrainingRow } from '../utils/emotionClassifier';
+import { EmotionModelFile, ModelNormalization } from '../utils/emotionModel';
+import { TrainingDataset } from '../utils/trainingDataset';
+import { EvaluationOptions, EvaluationReport } from '../utils/classifierEvaluation';
+
+export interface TrainMessage {
+  type: 'train';
+  name: string;
+  montage: Montage;
+  normalization: ModelNormalization;
+  rows: TrainingRow[];
+  options: ClassifierTrainingOptions;
+}
+
+export interface EvaluateMessage {
+  type: 'evaluate';
+  dataset: TrainingDataset;
+  montage: Montage;
+  options: EvaluationOptions;
+}
+
+export type TrainingRequest = TrainMessage | EvaluateMessage;
+
+export interface TrainingProgressMessage {
+  type: 'progress';
+  iterations: number;
+  error: number;
+}
+
+export interface TrainingDoneMessage {
+  type: 'done';
+  model: EmotionModelFile;
+}
+
+export interface FoldCompleteMessage {
+  type: 'fold';
+  completed: number;
+  total: number;
+}
+
+export interface EvaluationDoneMessage {
+  type: 'evaluation';
+  report: EvaluationReport;
+}
+
+export interface TrainingErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type TrainingEvent =
+  | TrainingProgressMessage
+  | TrainingDoneMessage
+  | FoldCompleteMessage
+  | EvaluationDoneMessage
+  | TrainingErrorMessage;
@@ -0,0 +1,101 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  ChatRequest,
+  ChatResponse,
+  ChatStreamEvent,
+  MAX_CHAT_REQUEST_BYTES,
+  parseChatRequest
+} from '../../app/utils/chatProtocol';
+import { sendMessageToLLM, streamMessageFromLLM } from '../../app/utils/llmService';
+import { formatSseData } from '../../app/utils/serverSentEvents';
+import { getServerEmotionStore } from '../../app/utils/serverEmotionStore';
+
+/**
+ * Answers a chat turn with the LLM. The OpenRouter key stays on the server,
+ * and the emotion-aware system prompt is built here from the prediction
+ * the browser sends along with the conversation, which is also recorded in
+ * the server's emotion store (see /api/emotion). Streaming requests get the
+ * reply relayed as server-sent events while the provider produces it.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ChatResponse>
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const apiKey = process.env.OPENROUTER_API_KEY;
+  if (!apiKey) {
+    return res.status(503).json({ error: 'Chat is not configured: OPENROUTER_API_KEY is not set' });
+  }
+
+  let request: ChatRequest;
+  try {
+    request = parseChatRequest(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+  }
+
+  if (request.prediction) {
+    getServerEmotionStore(res)?.setPrediction(request.prediction, 'chat');
+  }
+
+  if (request.stream) {
+    return relayStream(request, apiKey, res);
+  }
+
+  const response = await sendMessageToLLM(request.messages, request.prediction, apiKey);
+  if (response.error) {
+    return res.status(502).json({ error: response.error });
+  }
+
+  return res.status(200).json({ text: response.text });
+}
+
+async function relayStream(request: ChatRequest, apiKey: string, res: NextApiResponse) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Keeps response compression and proxies from buffering the events
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no'
+  });
+
+  const send = (event: ChatStreamEvent) => res.write(formatSseData(event));
+
+  // The browser closing the connection cancels the reply upstream as well
+  const upstream = new AbortController();
+  res.on('close', () => upstream.abort());
+
+  const response = await streamMessageFromLLM(
+    request.messages,
+    request.prediction,
+    apiKey,
+    text => send({ type: 'token', text }),
+    upstream.signal
+  );
+
+  if (!upstream.signal.aborted) {
+    send(response.error
+      ? { type: 'error', error: response.error, text: response.text }
+      : { type: 'done', text: response.text });
+  }
+  res.end();
+}
+
+// Declared separately from the export: Next.js only reads literal values from
+// `export const config` at build time and would warn about the shared constant,
+// while the body parser takes the limit from the module at runtime
+const config = {
+  api: {
+    // Larger bodies are rejected with 413 before the handler runs
+    bodyParser: {
+      sizeLimit: MAX_CHAT_REQUEST_BYTES
+    }
+  }
+};
+
+export { config };
@@ -0,0 +1,49 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { Server } from 'http';
+import type { Socket } from 'net';
+import { EegStreamHub, EegStreamHubStats } from '../../app/utils/eegStreamHub';
+
+type ResponseData = EegStreamHubStats | { error: string };
+
+type ServerWithHub = Server & { eegStreamHub?: EegStreamHub };
+
+// Next.js hands API routes the Node socket, which references the HTTP server
+interface SocketWithServer extends Socket {
+  server?: ServerWithHub;
+}
+
+/**
+ * Boots the EEG WebSocket hub on the underlying HTTP server (once) and
+ * reports its state. Publishers and browsers call this before opening
+ * a WebSocket to the same path.
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const socket = res.socket as SocketWithServer | null;
+  const server = socket?.server;
+
+  if (!server) {
+    return res.status(500).json({ error: 'HTTP server is not available' });
+  }
+
+  if (!server.eegStreamHub) {
+    const hub = new EegStreamHub();
+    hub.attach(server);
+    server.eegStreamHub = hub;
+  }
+
+  return res.status(200).json(server.eegStreamHub.stats);
+}
+
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { EmotionEntry } from '../../app/utils/emotionStore';
+import { getServerEmotionStore } from '../../app/utils/serverEmotionStore';
+
+type ResponseData = {
+  current: EmotionEntry | null;
+  changedAt: number | null;
+  // Number of predictions recorded so far, capped like the browser's history
+  historyLength: number;
+} | { error: string };
+
+/**
+ * Reports the emotion the server last saw, as recorded from chat requests
+ * in the server's emotion store
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData>
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const store = getServerEmotionStore(res);
+  if (!store) {
+    return res.status(500).json({ error: 'HTTP server is not available' });
+  }
+
+  const { current, changedAt, history } = store.getState();
+  return res.status(200).json({ current, changedAt, historyLength: history.length });
+}
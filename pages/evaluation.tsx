@@ -0,0 +1,412 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import Head from 'next/head';
+import {
+  Container,
+  Box,
+  Typography,
+  Paper,
+  TextField,
+  MenuItem,
+  Button,
+  LinearProgress,
+  Alert,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell
+} from '@mui/material';
+import EvaluationReportView from '../app/components/EvaluationReportView';
+import ClassifierBackendFields from '../app/components/ClassifierBackendFields';
+import { MONTAGES, DEFAULT_MONTAGE } from '../app/utils/montage';
+import { CalibrationProfile, loadCalibrationProfiles, isProfileCompatible } from '../app/utils/calibration';
+import { profileNormalization } from '../app/utils/emotionClassifier';
+import { ClassifierTrainingOptions, DEFAULT_TRAINING_OPTIONS, parseHiddenLayers } from '../app/utils/classifierBackend';
+import { describeTrainingOptions, getClassifierBackend } from '../app/utils/classifierBackendRegistry';
+import {
+  TrainingDataset,
+  countLabels,
+  isDatasetCompatible,
+  loadTrainingDataset,
+  parseDataset
+} from '../app/utils/trainingDataset';
+import {
+  EvaluationMethod,
+  EvaluationReport,
+  evaluationReportFileName,
+  parseEvaluationReport,
+  serializeEvaluationReport
+} from '../app/utils/classifierEvaluation';
+import { downloadFile } from '../app/utils/download';
+import { useClassifierEvaluation } from '../app/hooks/useClassifierEvaluation';
+
+const formatMetric = (value: number | null, percent = false) => {
+  if (value === null) return '–';
+  return percent ? `${(value * 100).toFixed(1)}%` : value.toFixed(3);
+};
+
+export default function Evaluation() {
+  const [montageId, setMontageId] = useState(DEFAULT_MONTAGE.id);
+  const [storedDataset, setStoredDataset] = useState<TrainingDataset | null>(null);
+  const [importedDataset, setImportedDataset] = useState<TrainingDataset | null>(null);
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>([]);
+  const [profileId, setProfileId] = useState('');
+  const [name, setName] = useState('');
+  const [method, setMethod] = useState<EvaluationMethod>('k-fold');
+  const [folds, setFolds] = useState(5);
+  const [seed, setSeed] = useState(1);
+  const [training, setTraining] = useState<ClassifierTrainingOptions>(DEFAULT_TRAINING_OPTIONS);
+  const [hiddenLayers, setHiddenLayers] = useState(DEFAULT_TRAINING_OPTIONS.hiddenLayers.join(', '));
+  // Finished and imported reports, compared side by side
+  const [reports, setReports] = useState<EvaluationReport[]>([]);
+  const [selectedReport, setSelectedReport] = useState<EvaluationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const datasetInput = useRef<HTMLInputElement>(null);
+  const reportInput = useRef<HTMLInputElement>(null);
+  const evaluation = useClassifierEvaluation();
+
+  const montage = MONTAGES[montageId];
+  const isRunning = evaluation.status === 'running';
+  const backend = getClassifierBackend(training.backend);
+
+  // Datasets and profiles live in localStorage, so only load them in the browser
+  useEffect(() => {
+    setProfiles(loadCalibrationProfiles());
+  }, []);
+
+  useEffect(() => {
+    setStoredDataset(loadTrainingDataset(montage));
+  }, [montage]);
+
+  // A loaded dataset file takes precedence over the stored one while its montage is selected
+  const dataset = importedDataset && isDatasetCompatible(importedDataset, montage) ? importedDataset : storedDataset;
+
+  const compatibleProfiles = useMemo(
+    () => profiles.filter(profile => isProfileCompatible(profile, montage)),
+    [profiles, montage]
+  );
+  const activeProfile = compatibleProfiles.find(profile => profile.id === profileId) || null;
+
+  const labelCounts = dataset ? countLabels(dataset) : {};
+  const sessionCount = dataset ? new Set(dataset.epochs.map(epoch => epoch.sessionId)).size : 0;
+
+  useEffect(() => {
+    const finished = evaluation.report;
+    if (!finished) return;
+    setReports(prev => [...prev, finished]);
+    setSelectedReport(finished);
+  }, [evaluation.report]);
+
+  const handleTrainingChange = (next: ClassifierTrainingOptions) => {
+    if (next.backend !== training.backend) setHiddenLayers(next.hiddenLayers.join(', '));
+    setTraining(next);
+  };
+
+  const runEvaluation = () => {
+    if (!dataset) return;
+
+    const layers = parseHiddenLayers(hiddenLayers);
+    if (backend.neural && !layers) {
+      setError('Hidden layers must be a comma separated list of positive sizes, e.g. "10, 10"');
+      return;
+    }
+
+    const trainingOptions = { ...training, hiddenLayers: layers || training.hiddenLayers };
+    setError(null);
+    evaluation.evaluate({
+      dataset,
+      montage,
+      options: {
+        name: name.trim() || describeTrainingOptions(trainingOptions),
+        method,
+        folds,
+        seed,
+        normalization: profileNormalization(activeProfile),
+        training: trainingOptions
+      }
+    });
+  };
+
+  const handleDatasetFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setError(null);
+      const imported = parseDataset(await file.text());
+      const importedMontage = MONTAGES[imported.montageId] || montage;
+      if (!isDatasetCompatible(imported, importedMontage)) {
+        throw new Error(`The dataset does not match the ${importedMontage.name} feature layout`);
+      }
+      setMontageId(importedMontage.id);
+      setImportedDataset(imported);
+    } catch (err: any) {
+      setError(`Could not load ${file.name}: ${err.message}`);
+    }
+  };
+
+  const handleReportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setError(null);
+      const report = parseEvaluationReport(await file.text());
+      setReports(prev => [...prev, report]);
+      setSelectedReport(report);
+    } catch (err: any) {
+      setError(`Could not open ${file.name}: ${err.message}`);
+    }
+  };
+
+  return (
+    <div>
+      <Head>
+        <title>Classifier Evaluation</title>
+        <meta name="description" content="Cross-validate the emotion classifier on labeled EEG data" />
+      </Head>
+
+      <Container maxWidth="lg">
+        <Box sx={{ my: 4, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <Typography variant="h4" component="h1">
+              Classifier Evaluation
+            </Typography>
+            <Button href="/">Back to the app</Button>
+          </Box>
+
+          {error && (
+            <Alert severity="error">
+              {error}
+            </Alert>
+          )}
+
+          <Paper sx={{ p: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+              <TextField
+                select
+                size="small"
+                label="Headset montage"
+                value={montageId}
+                disabled={isRunning}
+                onChange={(e) => setMontageId(e.target.value)}
+                sx={{ minWidth: 200 }}
+              >
+                {Object.values(MONTAGES).map(option => (
+                  <MenuItem key={option.id} value={option.id}>{option.name}</MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                size="small"
+                label="Calibration profile"
+                value={activeProfile ? activeProfile.id : ''}
+                disabled={isRunning}
+                onChange={(e) => setProfileId(e.target.value)}
+                SelectProps={{ displayEmpty: true }}
+                InputLabelProps={{ shrink: true }}
+                sx={{ minWidth: 200 }}
+              >
+                <MenuItem value="">None</MenuItem>
+                {compatibleProfiles.map(profile => (
+                  <MenuItem key={profile.id} value={profile.id}>{profile.name}</MenuItem>
+                ))}
+              </TextField>
+              <Button onClick={() => datasetInput.current?.click()} disabled={isRunning}>
+                Load dataset
+              </Button>
+              <input
+                ref={datasetInput}
+                type="file"
+                accept=".json,application/json"
+                style={{ display: 'none' }}
+                onChange={handleDatasetFile}
+              />
+            </Box>
+
+            <Typography variant="body2" color="text.secondary">
+              {dataset && dataset.epochs.length > 0
+                ? `${dataset.epochs.length} labeled epochs from ${sessionCount} sessions: ` +
+                  Object.entries(labelCounts).map(([label, count]) => `${label} ${count}`).join(', ')
+                : 'No labeled epochs for this headset yet. Collect some with Train in the monitor, or load an exported dataset.'}
+            </Typography>
+
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+              <TextField
+                size="small"
+                label="Run name"
+                value={name}
+                disabled={isRunning}
+                onChange={(e) => setName(e.target.value)}
+                sx={{ minWidth: 220 }}
+              />
+              <TextField
+                select
+                size="small"
+                label="Method"
+                value={method}
+                disabled={isRunning}
+                onChange={(e) => setMethod(e.target.value as EvaluationMethod)}
+                sx={{ minWidth: 200 }}
+              >
+                <MenuItem value="k-fold">Stratified k-fold</MenuItem>
+                <MenuItem value="leave-one-session-out" disabled={sessionCount < 2}>
+                  Leave one session out
+                </MenuItem>
+              </TextField>
+              {method === 'k-fold' && (
+                <>
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Folds"
+                    value={folds}
+                    disabled={isRunning}
+                    onChange={(e) => setFolds(Math.max(2, parseInt(e.target.value, 10) || 2))}
+                    sx={{ width: 90 }}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Seed"
+                    value={seed}
+                    disabled={isRunning}
+                    onChange={(e) => setSeed(parseInt(e.target.value, 10) || 0)}
+                    sx={{ width: 90 }}
+                  />
+                </>
+              )}
+            </Box>
+
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'flex-start' }}>
+              <Box sx={{ minWidth: 320 }}>
+                <ClassifierBackendFields options={training} onChange={handleTrainingChange} disabled={isRunning} />
+              </Box>
+              {backend.neural && (
+                <>
+                  <TextField
+                    size="small"
+                    label="Hidden layers"
+                    value={hiddenLayers}
+                    disabled={isRunning}
+                    onChange={(e) => setHiddenLayers(e.target.value)}
+                    sx={{ width: 130 }}
+                  />
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Iterations"
+                    value={training.iterations}
+                    disabled={isRunning}
+                    onChange={(e) => setTraining({ ...training, iterations: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    sx={{ width: 110 }}
+                  />
+                </>
+              )}
+            </Box>
+
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              {isRunning ? (
+                <Button variant="outlined" onClick={evaluation.cancel}>
+                  Cancel
+                </Button>
+              ) : (
+                <Button
+                  variant="contained"
+                  onClick={runEvaluation}
+                  disabled={!dataset || Object.keys(labelCounts).length < 2}
+                >
+                  Run cross-validation
+                </Button>
+              )}
+              <Button onClick={() => reportInput.current?.click()}>
+                Open report
+              </Button>
+              <Button
+                onClick={() => selectedReport && downloadFile(
+                  evaluationReportFileName(selectedReport),
+                  serializeEvaluationReport(selectedReport),
+                  'application/json'
+                )}
+                disabled={!selectedReport}
+              >
+                Export report
+              </Button>
+              <input
+                ref={reportInput}
+                type="file"
+                accept=".json,application/json"
+                style={{ display: 'none' }}
+                onChange={handleReportFile}
+              />
+            </Box>
+
+            {isRunning && (
+              <Box>
+                <LinearProgress
+                  variant={evaluation.totalFolds ? 'determinate' : 'indeterminate'}
+                  value={evaluation.totalFolds ? (evaluation.completedFolds / evaluation.totalFolds) * 100 : 0}
+                />
+                <Typography variant="caption" color="text.secondary">
+                  {evaluation.totalFolds
+                    ? `Fold ${evaluation.completedFolds} of ${evaluation.totalFolds} done`
+                    : 'Training the first fold...'}
+                </Typography>
+              </Box>
+            )}
+
+            {evaluation.error && (
+              <Alert severity="error">
+                {evaluation.error}
+              </Alert>
+            )}
+          </Paper>
+
+          {reports.length > 1 && (
+            <Paper sx={{ p: 2 }}>
+              <Typography variant="subtitle1" gutterBottom>
+                Compare runs
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Run</TableCell>
+                    <TableCell>Classifier</TableCell>
+                    <TableCell>Method</TableCell>
+                    <TableCell align="right">Epochs</TableCell>
+                    <TableCell align="right">Accuracy</TableCell>
+                    <TableCell align="right">Macro F1</TableCell>
+                    <TableCell align="right">Calibration error</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {reports.map((run, index) => (
+                    <TableRow
+                      key={`${run.createdAt}-${index}`}
+                      hover
+                      selected={run === selectedReport}
+                      onClick={() => setSelectedReport(run)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell>{run.name}</TableCell>
+                      <TableCell>{describeTrainingOptions(run.training)}</TableCell>
+                      <TableCell>{run.method}</TableCell>
+                      <TableCell align="right">{run.dataset.epochs}</TableCell>
+                      <TableCell align="right">{formatMetric(run.accuracy, true)}</TableCell>
+                      <TableCell align="right">{formatMetric(run.macroF1)}</TableCell>
+                      <TableCell align="right">{formatMetric(run.expectedCalibrationError)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Paper>
+          )}
+
+          {selectedReport && <EvaluationReportView report={selectedReport} />}
+        </Box>
+      </Container>
+    </div>
+  );
+}
@@ -1,18 +1,28 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import Head from 'next/head';
 import { Container, Box, Typography } from '@mui/material';
 import EmotionMonitor from '../app/components/EmotionMonitor';
 import ChatInterface from '../app/components/ChatInterface';
 import MusicPlayer from '../app/components/MusicPlayer';
 import Dashboard from '../app/components/Dashboard';
+import { SessionRecorder } from '../app/utils/sessionRecorder';
+import { EmotionStore } from '../app/utils/emotionStore';
+import { EmotionStoreContext } from '../app/hooks/useEmotionStore';
 
 export default function Home() {
-  const [currentEmotion, setCurrentEmotion] = useState<string | null>(null);
-  const [eegData, setEegData] = useState<number[] | null>(null);
-  const [musicPlaying, setMusicPlaying] = useState<string | null>(null);
+  const [store] = useState(() => new EmotionStore());
+  const [recorder] = useState(() => new SessionRecorder());
+  
+  // Predictions and music changes reach the session recording through the store
+  useEffect(() => recorder.followEmotionStore(store), [recorder, store]);
+  
+  // Chat events go into the session recording alongside the EEG
+  const handleChatMessage = useCallback((sender: 'user' | 'ai', content: string) => {
+    recorder.addEvent('chat', sender === 'user' ? 'Chat: user message' : 'Chat: assistant reply', content);
+  }, [recorder]);
 
   return (
-    <div>
+    <EmotionStoreContext.Provider value={store}>
       <Head>
         <title>Emotion-Responsive AI Interface</title>
         <meta name="description" content="An application that responds to your emotions using EEG signals" />
@@ -25,33 +35,23 @@ export default function Home() {
             Emotion-Responsive AI Interface
           </Typography>
           
-          <Dashboard 
-            currentEmotion={currentEmotion} 
-            eegData={eegData}
-            musicPlaying={musicPlaying}
-          />
+          <Dashboard />
           
           <Box sx={{ display: 'flex', flexDirection: { xs: 'column', md: 'row' }, gap: 2, mt: 4 }}>
             <Box sx={{ flex: 1 }}>
-              <EmotionMonitor 
-                onEmotionDetected={setCurrentEmotion} 
-                onEegDataReceived={setEegData} 
-              />
+              <EmotionMonitor recorder={recorder} />
             </Box>
             
             <Box sx={{ flex: 2 }}>
-              <ChatInterface currentEmotion={currentEmotion} />
+              <ChatInterface onMessage={handleChatMessage} />
             </Box>
           </Box>
           
           <Box sx={{ mt: 4 }}>
-            <MusicPlayer 
-              currentEmotion={currentEmotion} 
-              onMusicPlaying={setMusicPlaying} 
-            />
+            <MusicPlayer />
           </Box>
         </Box>
       </Container>
-    </div>
+    </EmotionStoreContext.Provider>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,108 @@
+/**
+ * Stand-in EEG publisher
+ *
+ * Streams synthetic multichannel EEG to the app's /api/eeg-stream WebSocket,
+ * the same way the Unicorn acquisition process does, so the whole ingest path
+ * can be tested locally without hardware.
+ *
+ * Usage: npm run eeg:publisher -- [--url http://localhost:3000] [--rate 250]
+ *        [--batch 10] [--channels Fz,C3,Cz,C4,Pz,PO7,Oz,PO8]
+ */
+
+import WebSocket from 'ws';
+
+const args = Object.fromEntries(
+  process.argv.slice(2).reduce((pairs, arg, index, all) => {
+    if (arg.startsWith('--')) pairs.push([arg.slice(2), all[index + 1]]);
+    return pairs;
+  }, [])
+);
+
+const baseUrl = args.url || 'http://localhost:3000';
+const sampleRate = Number(args.rate) || 250;
+const batchSize = Number(args.batch) || 10;
+const channels = (args.channels || 'Fz,C3,Cz,C4,Pz,PO7,Oz,PO8').split(',');
+const streamPath = '/api/eeg-stream';
+
+const montage = {
+  id: args.channels ? 'custom' : 'unicorn',
+  name: args.channels ? 'Custom publisher montage' : 'g.tec Unicorn Hybrid Black',
+  channels,
+  sampleRate,
+  units: 'µV'
+};
+
+// Each channel gets its own mix of theta, alpha and beta rhythms
+const oscillators = channels.map(() => [
+  { frequency: 6, amplitude: 6 + Math.random() * 4, phase: Math.random() * 2 * Math.PI },
+  { frequency: 10, amplitude: 10 + Math.random() * 8, phase: Math.random() * 2 * Math.PI },
+  { frequency: 20, amplitude: 3 + Math.random() * 3, phase: Math.random() * 2 * Math.PI }
+]);
+
+// Standard normal noise via Box-Muller
+const gaussian = () => Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random());
+
+let sampleIndex = 0;
+let seq = 0;
+
+function nextBatch() {
+  const timestamps = [];
+  const samples = [];
+  const now = Date.now();
+
+  for (let i = 0; i < batchSize; i++) {
+    const t = sampleIndex / sampleRate;
+    timestamps.push(now - ((batchSize - 1 - i) * 1000) / sampleRate);
+    samples.push(oscillators.map(bands =>
+      bands.reduce((sum, o) => sum + o.amplitude * Math.sin(2 * Math.PI * o.frequency * t + o.phase), 0) +
+      gaussian() * 4
+    ));
+    sampleIndex++;
+  }
+
+  return { type: 'samples', seq: seq++, timestamps, samples };
+}
+
+async function start() {
+  // The hub is created lazily by the API route, so hit it once first
+  const response = await fetch(`${baseUrl}${streamPath}`);
+  if (!response.ok) {
+    throw new Error(`Hub returned HTTP ${response.status}`);
+  }
+
+  const socket = new WebSocket(`${baseUrl.replace(/^http/, 'ws')}${streamPath}`);
+  let timer = null;
+
+  socket.on('open', () => {
+    console.log(`Publishing ${channels.length} channels at ${sampleRate} Hz to ${baseUrl}${streamPath}`);
+    socket.send(JSON.stringify({ type: 'hello', role: 'publisher', montage }));
+
+    timer = setInterval(() => {
+      socket.send(JSON.stringify(nextBatch()));
+    }, (batchSize * 1000) / sampleRate);
+  });
+
+  socket.on('message', data => {
+    const message = JSON.parse(data.toString());
+    if (message.type === 'status' && message.message) {
+      console.log(`Hub: ${message.message}`);
+    }
+  });
+
+  socket.on('close', (code, reason) => {
+    if (timer) clearInterval(timer);
+    console.log(`Connection closed (${code}${reason.length ? `: ${reason}` : ''}), retrying in 2s`);
+    setTimeout(() => start().catch(retry), 2000);
+  });
+
+  socket.on('error', error => {
+    console.error('WebSocket error:', error.message);
+  });
+}
+
+function retry(error) {
+  console.error(`Could not reach ${baseUrl}: ${error.message}. Retrying in 2s`);
+  setTimeout(() => start().catch(retry), 2000);
+}
+
+start().catch(retry);